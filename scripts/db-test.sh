@@ -0,0 +1,32 @@
+#!/usr/bin/env bash
+# Applies supabase/migrations to a throwaway Postgres container and runs the
+# SQL checks in supabase/tests against it. Requires Docker.
+set -euo pipefail
+
+cd "$(dirname "$0")/.."
+
+COMPOSE="docker compose -f supabase/docker-compose.yml -p imd-care-db-test"
+
+cleanup() {
+  $COMPOSE down -v >/dev/null 2>&1 || true
+}
+trap cleanup EXIT
+
+$COMPOSE up -d --wait db
+
+run_sql() {
+  $COMPOSE exec -T -e PGPASSWORD=postgres db \
+    psql -h localhost -U supabase_admin -d postgres -v ON_ERROR_STOP=1 -q -f - < "$1"
+}
+
+for migration in supabase/migrations/*.sql; do
+  echo "Applying $migration"
+  run_sql "$migration"
+done
+
+for test in supabase/tests/*.sql; do
+  echo "Running $test"
+  run_sql "$test"
+done
+
+echo "Database tests passed"
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { BrowserRouter as Router, Route, Routes, Navigate, useLocation } from 'react-router-dom';
+import { useState } from 'react';
+import { BrowserRouter as Router, Route, Routes, useLocation } from 'react-router-dom';
 import { ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import Login from './components/Login';
@@ -17,16 +17,24 @@ import WelcomePage from './components/WelcomePage';
 import ReportGenerationPage from './components/ReportGenerationPage';
 import EmployeeCreationPage from './components/EmployeeCreationPage';
 import ClinicAppointmentBooking from './components/ClinicAppointmentBooking';
-
-interface User {
-  id: string;
-  employeeCode: string;
-  isAdmin: boolean;
-  name: string;
-}
+import AppointmentsPage from './components/AppointmentsPage';
+import WaitingListPage from './components/WaitingListPage';
+import AccountSettings from './components/AccountSettings';
+import SessionProvider from './components/SessionProvider';
+import RequireAuth from './components/RequireAuth';
+import IdleLock from './components/IdleLock';
+import SystemSettingsPage from './components/SystemSettingsPage';
+import AuditLogPage from './components/AuditLogPage';
+import NoteTemplatesPage from './components/NoteTemplatesPage';
+import SpecialtiesAdminPage from './components/SpecialtiesAdminPage';
+import BedBoard from './components/BedBoard';
+import WardsAdminPage from './components/WardsAdminPage';
+import ClinicTemplatesPage from './components/ClinicTemplatesPage';
+import { useSession } from './session';
+import { hasPermission } from './permissions';
 
 function AppContent() {
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useSession();
   const [isSidebarExpanded, setIsSidebarExpanded] = useState(false);
   const location = useLocation();
 
@@ -39,6 +47,7 @@ function AppContent() {
   return (
     <div className="flex flex-col min-h-screen bg-gray-100">
       <ToastContainer />
+      {user && <IdleLock />}
       {showNavigation && (
         <>
           <Sidebar 
@@ -54,51 +63,34 @@ function AppContent() {
         <div className="p-4 lg:p-8">
           <Routes>
             <Route path="/" element={<WelcomePage />} />
-            <Route path="/login" element={<Login setUser={setUser} />} />
+            <Route path="/login" element={<Login />} />
             <Route
               path="/dashboard"
               element={
-                user ? (
-                  user.isAdmin ? (
-                    <AdminDashboard user={user} />
-                  ) : (
-                    <MainDashboard user={user} />
-                  )
-                ) : (
-                  <Navigate to="/login" replace />
-                )
+                <RequireAuth>
+                  {hasPermission(user, 'manage_employees') ? <AdminDashboard /> : <MainDashboard />}
+                </RequireAuth>
               }
             />
-            <Route path="/new-admission" element={user ? <NewPatientAdmission /> : <Navigate to="/login" replace />} />
-            <Route path="/discharge" element={user ? <PatientDischarge /> : <Navigate to="/login" replace />} />
-            <Route path="/patient/:mrn" element={user ? <PatientDetails /> : <Navigate to="/login" replace />} />
-            <Route path="/daily-report" element={user ? <DailyReportManagement /> : <Navigate to="/login" replace />} />
-            <Route path="/specialties" element={user ? <SpecialtiesManagement /> : <Navigate to="/login" replace />} />
+            <Route path="/new-admission" element={<RequireAuth permission="admit_patients"><NewPatientAdmission /></RequireAuth>} />
+            <Route path="/discharge" element={<RequireAuth permission="discharge_patients"><PatientDischarge /></RequireAuth>} />
+            <Route path="/patient/:mrn" element={<RequireAuth permission="view_patients"><PatientDetails /></RequireAuth>} />
+            <Route path="/daily-report" element={<RequireAuth permission="view_reports"><DailyReportManagement /></RequireAuth>} />
+            <Route path="/specialties" element={<RequireAuth permission="view_patients"><SpecialtiesManagement /></RequireAuth>} />
+            <Route path="/beds" element={<RequireAuth permission="view_patients"><BedBoard /></RequireAuth>} />
             <Route path="/about" element={<About />} />
-            <Route
-              path="/admin/report"
-              element={
-                user && user.isAdmin ? (
-                  <ReportGenerationPage user={user} />
-                ) : (
-                  <Navigate to="/login" replace />
-                )
-              }
-            />
-            <Route
-              path="/admin/create-employee"
-              element={
-                user && user.isAdmin ? (
-                  <EmployeeCreationPage user={user} />
-                ) : (
-                  <Navigate to="/login" replace />
-                )
-              }
-            />
-            <Route
-              path="/book-appointment"
-              element={user ? <ClinicAppointmentBooking /> : <Navigate to="/login" replace />}
-            />
+            <Route path="/admin/report" element={<RequireAuth permission="view_reports"><ReportGenerationPage /></RequireAuth>} />
+            <Route path="/admin/create-employee" element={<RequireAuth permission="manage_employees"><EmployeeCreationPage /></RequireAuth>} />
+            <Route path="/admin/settings" element={<RequireAuth permission="manage_settings"><SystemSettingsPage /></RequireAuth>} />
+            <Route path="/admin/note-templates" element={<RequireAuth permission="manage_settings"><NoteTemplatesPage /></RequireAuth>} />
+            <Route path="/admin/specialties" element={<RequireAuth permission="manage_settings"><SpecialtiesAdminPage /></RequireAuth>} />
+            <Route path="/admin/wards" element={<RequireAuth permission="manage_settings"><WardsAdminPage /></RequireAuth>} />
+            <Route path="/admin/clinics" element={<RequireAuth permission="manage_settings"><ClinicTemplatesPage /></RequireAuth>} />
+            <Route path="/admin/audit" element={<RequireAuth permission="view_audit_log"><AuditLogPage /></RequireAuth>} />
+            <Route path="/book-appointment" element={<RequireAuth permission="book_appointments"><ClinicAppointmentBooking /></RequireAuth>} />
+            <Route path="/appointments" element={<RequireAuth permission="view_patients"><AppointmentsPage /></RequireAuth>} />
+            <Route path="/waiting-list" element={<RequireAuth permission="view_patients"><WaitingListPage /></RequireAuth>} />
+            <Route path="/account" element={<RequireAuth><AccountSettings /></RequireAuth>} />
           </Routes>
         </div>
       </div>
@@ -109,7 +101,9 @@ function AppContent() {
 function App() {
   return (
     <Router>
-      <AppContent />
+      <SessionProvider>
+        <AppContent />
+      </SessionProvider>
     </Router>
   );
 }
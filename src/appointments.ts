@@ -0,0 +1,174 @@
+import { supabase } from './supabaseClient';
+import { ClinicSlot } from './clinics';
+
+export type AppointmentStatus = 'booked' | 'confirmed' | 'arrived' | 'seen' | 'no_show' | 'cancelled';
+
+export type AppointmentType = 'Urgent' | 'Regular';
+
+export interface ClinicAppointment {
+  appointment_id: number;
+  patient_name: string;
+  patient_medical_number: string;
+  clinic_specialty: string;
+  appointment_type: AppointmentType;
+  template_id: number | null;
+  appointment_date: string | null;
+  appointment_time: string | null;
+  status: AppointmentStatus;
+  status_changed_at: string | null;
+  status_changed_by_name: string | null;
+  cancellation_reason: string | null;
+  admission_id: string | null;
+  created_at: string;
+  clinic_templates: { name: string } | null;
+  admission: Pick<FollowUpAdmission, 'specialty' | 'diagnosis' | 'discharge_date'> | null;
+}
+
+// The admission a follow-up appointment was booked from
+export interface FollowUpAdmission {
+  id: string;
+  mrn: string;
+  patient_name: string;
+  specialty: string;
+  diagnosis: string | null;
+  admission_date: string;
+  discharge_date: string | null;
+}
+
+export interface AppointmentFilters {
+  search: string;
+  specialty: string;
+  fromDate: string;
+  toDate: string;
+  type: AppointmentType | '';
+  status: AppointmentStatus | '';
+}
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  confirmed: 'Confirmed',
+  arrived: 'Arrived',
+  seen: 'Seen',
+  no_show: 'No-show',
+  cancelled: 'Cancelled',
+};
+
+export const APPOINTMENT_STATUS_STYLES: Record<AppointmentStatus, string> = {
+  booked: 'bg-blue-100 text-blue-800',
+  confirmed: 'bg-indigo-100 text-indigo-800',
+  arrived: 'bg-yellow-100 text-yellow-800',
+  seen: 'bg-green-100 text-green-800',
+  no_show: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+// Mirrors check_appointment_status(); seen, no-show and cancelled are final.
+// Cancelling goes through cancelAppointment() so a reason is always given.
+export const NEXT_STATUSES: Record<AppointmentStatus, AppointmentStatus[]> = {
+  booked: ['confirmed', 'arrived', 'no_show', 'cancelled'],
+  confirmed: ['arrived', 'no_show', 'cancelled'],
+  arrived: ['seen'],
+  seen: [],
+  no_show: [],
+  cancelled: [],
+};
+
+const APPOINTMENT_COLUMNS = '*, clinic_templates(name), admission:patients(specialty, diagnosis, discharge_date)';
+
+export const isUpcoming = (appointment: Pick<ClinicAppointment, 'status'>) =>
+  appointment.status === 'booked' || appointment.status === 'confirmed';
+
+export const fetchAppointments = async (filters: AppointmentFilters): Promise<ClinicAppointment[]> => {
+  let query = supabase
+    .from('clinic_appointments')
+    .select(APPOINTMENT_COLUMNS)
+    .is('archived_at', null);
+
+  if (filters.search) {
+    const term = filters.search.replace(/[%,()]/g, '');
+    query = query.or(`patient_name.ilike.%${term}%,patient_medical_number.ilike.%${term}%`);
+  }
+  if (filters.specialty) query = query.eq('clinic_specialty', filters.specialty);
+  if (filters.fromDate) query = query.gte('appointment_date', filters.fromDate);
+  if (filters.toDate) query = query.lte('appointment_date', filters.toDate);
+  if (filters.type) query = query.eq('appointment_type', filters.type);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query
+    .order('appointment_date', { ascending: true, nullsFirst: false })
+    .order('appointment_time', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Archived appointments are included so the patient's history is complete
+export const fetchPatientAppointments = async (mrn: string): Promise<ClinicAppointment[]> => {
+  const { data, error } = await supabase
+    .from('clinic_appointments')
+    .select(APPOINTMENT_COLUMNS)
+    .eq('patient_medical_number', mrn)
+    .order('appointment_date', { ascending: false, nullsFirst: false })
+    .order('appointment_time', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const followUpLabel = (admission: Pick<FollowUpAdmission, 'specialty' | 'diagnosis'>) =>
+  `Follow-up after ${admission.specialty} admission${admission.diagnosis ? ` · ${admission.diagnosis}` : ''}`;
+
+export const fetchFollowUpAdmission = async (admissionId: string): Promise<FollowUpAdmission | null> => {
+  const { data, error } = await supabase
+    .from('patients')
+    .select('id, mrn, patient_name, specialty, diagnosis, admission_date, discharge_date')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const updateAppointmentStatus = async (appointmentId: number, status: AppointmentStatus): Promise<void> => {
+  const { error } = await supabase
+    .from('clinic_appointments')
+    .update({ status })
+    .eq('appointment_id', appointmentId);
+
+  if (error) throw error;
+};
+
+export const cancelAppointment = async (appointmentId: number, reason: string): Promise<void> => {
+  const { error } = await supabase
+    .from('clinic_appointments')
+    .update({ status: 'cancelled', cancellation_reason: reason })
+    .eq('appointment_id', appointmentId);
+
+  if (error) throw error;
+};
+
+// The slot is re-checked for room by the database; the appointment goes back to booked
+export const rescheduleAppointment = async (appointmentId: number, slot: ClinicSlot): Promise<void> => {
+  const { error } = await supabase
+    .from('clinic_appointments')
+    .update({
+      template_id: slot.template_id,
+      appointment_date: slot.slot_date,
+      appointment_time: slot.slot_time,
+    })
+    .eq('appointment_id', appointmentId);
+
+  if (error) throw error;
+};
+
+// Applies the retention policy now instead of waiting for the next booking
+export const archiveAppointments = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('archive_appointments');
+
+  if (error) throw error;
+
+  return data ?? 0;
+};
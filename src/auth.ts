@@ -0,0 +1,110 @@
+import { supabase } from './supabaseClient';
+import { Role, Permission } from './permissions';
+
+export interface User {
+  id: string;
+  employeeCode: string;
+  name: string;
+  role: Role;
+  specialty: string | null;
+  permissions: Permission[];
+}
+
+type EmployeeSignInRequest =
+  | { action: 'password'; employee_code: string; password: string }
+  | { action: 'send_otp'; employee_code: string }
+  | { action: 'verify_otp'; employee_code: string; token: string };
+
+interface EmployeeSignInResponse {
+  session?: { access_token: string; refresh_token: string } | null;
+  error?: string;
+}
+
+// Employees sign in with their code. Supabase Auth needs the linked email, which
+// the employee-sign-in edge function looks up so it never reaches the browser.
+const employeeSignIn = async (request: EmployeeSignInRequest): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke<EmployeeSignInResponse>('employee-sign-in', {
+    body: request,
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  if (data?.session) {
+    const { error: sessionError } = await supabase.auth.setSession(data.session);
+    if (sessionError) throw sessionError;
+  }
+};
+
+export const fetchEmployeeProfile = async (): Promise<User> => {
+  const { data: { user: authUser } } = await supabase.auth.getUser();
+  if (!authUser) throw new Error('Not signed in.');
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('auth_user_id', authUser.id)
+    .single();
+
+  if (error || !data) {
+    await supabase.auth.signOut();
+    throw new Error('This sign-in is not linked to an employee record. Please contact an administrator.');
+  }
+
+  const { data: permissions, error: permissionsError } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', data.role);
+
+  if (permissionsError) throw permissionsError;
+
+  return {
+    id: data.id,
+    employeeCode: data.employee_code,
+    name: data.employee_name,
+    role: data.role,
+    specialty: data.specialty,
+    permissions: (permissions || []).map((row) => row.permission),
+  };
+};
+
+export const signInWithPassword = async (employeeCode: string, password: string): Promise<User> => {
+  await employeeSignIn({ action: 'password', employee_code: employeeCode.trim(), password });
+
+  return fetchEmployeeProfile();
+};
+
+export const sendOneTimeCode = async (employeeCode: string): Promise<void> => {
+  await employeeSignIn({ action: 'send_otp', employee_code: employeeCode.trim() });
+};
+
+export const verifyOneTimeCode = async (employeeCode: string, token: string): Promise<User> => {
+  await employeeSignIn({ action: 'verify_otp', employee_code: employeeCode.trim(), token });
+
+  return fetchEmployeeProfile();
+};
+
+export const updatePassword = async (password: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser({ password });
+
+  if (error) throw error;
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) throw error;
+};
+
+// Restores the employee for a Supabase session persisted from an earlier visit
+export const restoreSession = async (): Promise<User | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+
+  try {
+    return await fetchEmployeeProfile();
+  } catch (error) {
+    console.error('Error restoring session:', error);
+    return null;
+  }
+};
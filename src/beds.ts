@@ -0,0 +1,68 @@
+import { supabase } from './supabaseClient';
+
+export type BedStatus = 'available' | 'occupied' | 'blocked' | 'cleaning';
+
+export interface BedOverview {
+  bed_id: number;
+  bed_label: string;
+  status: BedStatus;
+  status_note: string | null;
+  updated_at: string;
+  room_id: number;
+  room_name: string;
+  ward_id: number;
+  ward_name: string;
+  ward_sort_order: number;
+  ward_is_active: boolean;
+  occupant_mrn: string | null;
+  occupant_name: string | null;
+  occupant_specialty: string | null;
+}
+
+export const BED_STATUS_LABELS: Record<BedStatus, string> = {
+  available: 'Available',
+  occupied: 'Occupied',
+  blocked: 'Blocked',
+  cleaning: 'Cleaning',
+};
+
+export const bedLocation = (bed: BedOverview) => `${bed.ward_name} · ${bed.room_name} · Bed ${bed.bed_label}`;
+
+export const fetchBedOverview = async (): Promise<BedOverview[]> => {
+  const { data, error } = await supabase
+    .from('bed_overview')
+    .select('*')
+    .order('ward_sort_order')
+    .order('ward_name')
+    .order('room_name')
+    .order('bed_label');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchPatientBed = async (mrn: string): Promise<BedOverview | null> => {
+  const { data, error } = await supabase
+    .from('bed_overview')
+    .select('*')
+    .eq('occupant_mrn', mrn)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Moves the patient out of any bed they already hold
+export const assignBed = async (mrn: string, bedId: number): Promise<void> => {
+  const { error } = await supabase.rpc('assign_bed', { p_mrn: mrn, p_bed_id: bedId });
+
+  if (error) throw error;
+};
+
+export const setBedStatus = async (bedId: number, status: Exclude<BedStatus, 'occupied'>, note: string | null = null): Promise<void> => {
+  const { error } = await supabase.rpc('set_bed_status', { p_bed_id: bedId, p_status: status, p_note: note });
+
+  if (error) throw error;
+};
@@ -0,0 +1,78 @@
+import { supabase } from './supabaseClient';
+
+export interface ClinicTemplate {
+  id: number;
+  specialty: string;
+  name: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+  capacity: number;
+  is_active: boolean;
+}
+
+export interface ClinicSlot {
+  template_id: number;
+  clinic_name: string;
+  slot_date: string;
+  slot_time: string;
+  slot_minutes: number;
+  capacity: number;
+  booked: number;
+}
+
+// Indexed by weekday number, 0 = Sunday
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const formatTime = (time: string) => time.slice(0, 5);
+
+export const slotKey = (slot: Pick<ClinicSlot, 'template_id' | 'slot_date' | 'slot_time'>) =>
+  `${slot.template_id}-${slot.slot_date}-${slot.slot_time}`;
+
+// Calendar dates as YYYY-MM-DD in local time
+export const toDateString = (date: Date) => {
+  const local = new Date(date);
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset());
+  return local.toISOString().split('T')[0];
+};
+
+export const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return toDateString(next);
+};
+
+// Monday of the week containing the date
+export const weekStart = (date: string) => {
+  const day = new Date(`${date}T00:00:00`).getDay();
+  return addDays(date, -((day + 6) % 7));
+};
+
+export const isPastSlot = (slot: Pick<ClinicSlot, 'slot_date' | 'slot_time'>) =>
+  new Date(`${slot.slot_date}T${slot.slot_time}`).getTime() < Date.now();
+
+export const fetchClinicTemplates = async (): Promise<ClinicTemplate[]> => {
+  const { data, error } = await supabase
+    .from('clinic_templates')
+    .select('*')
+    .order('specialty')
+    .order('weekday')
+    .order('start_time');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchClinicSlots = async (specialty: string, from: string, to: string): Promise<ClinicSlot[]> => {
+  const { data, error } = await supabase.rpc('clinic_slots', {
+    p_specialty: specialty,
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((slot: ClinicSlot) => ({ ...slot, booked: Number(slot.booked) }));
+};
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { UserPlus, UserMinus, Users, User, FileText } from 'lucide-react';
+import { UserPlus, UserMinus, Users, User, FileText, Lock, Mail, Save, LogOut, Settings, History } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { useSession, useCurrentUser } from '../session';
+import { Role, ROLES } from '../permissions';
+import { useSpecialties } from '../specialties';
 import { toast } from 'react-toastify';
 import { Link } from 'react-router-dom';
 
@@ -8,23 +11,21 @@ interface Employee {
   id: string;
   employee_name: string;
   employee_code: string;
-  role: string;
+  role: Role;
+  specialty: string | null;
+  email: string | null;
+  auth_user_id: string | null;
+  locked_until: string | null;
 }
 
-interface User {
-  id: string;
-  employeeCode: string;
-  isAdmin: boolean;
-  name: string;
-}
-
-interface AdminDashboardProps {
-  user: User;
-}
-
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
+const AdminDashboard: React.FC = () => {
+  const user = useCurrentUser();
+  const { signOut } = useSession();
+  const { specialties } = useSpecialties();
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
+  const [editingEmailId, setEditingEmailId] = useState<string | null>(null);
+  const [emailDraft, setEmailDraft] = useState('');
 
   useEffect(() => {
     fetchEmployees();
@@ -66,9 +67,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
     }
   };
 
-  const handleToggleAdmin = async (id: string, currentRole: string) => {
+  const handleRoleChange = async (id: string, newRole: Role) => {
     try {
-      const newRole = currentRole === 'admin' ? 'authenticated_user' : 'admin';
       const { error } = await supabase
         .from('users')
         .update({ role: newRole })
@@ -86,6 +86,68 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
     }
   };
 
+  const handleSpecialtyChange = async (id: string, specialty: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ specialty })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setEmployees(employees.map(emp =>
+        emp.id === id ? { ...emp, specialty } : emp
+      ));
+      toast.success('Employee specialty updated successfully');
+    } catch (error) {
+      console.error('Error updating employee specialty:', error);
+      toast.error('Failed to update employee specialty');
+    }
+  };
+
+  const handleSaveEmail = async (id: string) => {
+    try {
+      const email = emailDraft.trim().toLowerCase() || null;
+      const { data, error } = await supabase
+        .from('users')
+        .update({ email })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setEmployees(employees.map(emp => (emp.id === id ? data : emp)));
+      setEditingEmailId(null);
+      toast.success(data.auth_user_id ? 'Email saved and sign-in linked' : 'Email saved. The sign-in will be linked on first login.');
+    } catch (error) {
+      console.error('Error updating employee email:', error);
+      toast.error('Failed to update employee email');
+    }
+  };
+
+  const handleUnlock = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ locked_until: null, failed_login_attempts: 0 })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setEmployees(employees.map(emp =>
+        emp.id === id ? { ...emp, locked_until: null } : emp
+      ));
+      toast.success('Employee account unlocked');
+    } catch (error) {
+      console.error('Error unlocking employee:', error);
+      toast.error('Failed to unlock employee');
+    }
+  };
+
+  const isLocked = (employee: Employee) =>
+    !!employee.locked_until && new Date(employee.locked_until) > new Date();
+
   if (loading) {
     return <div className="p-6">Loading...</div>;
   }
@@ -101,6 +163,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
               <p className="text-sm font-medium text-gray-900">{user.name}</p>
               <p className="text-xs text-gray-500">Code: {user.employeeCode}</p>
             </div>
+            <button
+              onClick={signOut}
+              className="ml-4 text-gray-500 hover:text-red-600"
+              title="Sign out"
+            >
+              <LogOut className="h-5 w-5" />
+            </button>
           </div>
           <Link
             to="/admin/report"
@@ -116,6 +185,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
             <UserPlus className="h-5 w-5 mr-2" />
             Create Employee
           </Link>
+          <Link
+            to="/admin/settings"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Settings className="h-5 w-5 mr-2" />
+            Settings
+          </Link>
+          <Link
+            to="/admin/audit"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <History className="h-5 w-5 mr-2" />
+            Audit Log
+          </Link>
         </div>
       </div>
 
@@ -133,19 +216,74 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
                     <div>
                       <p className="text-sm font-medium text-indigo-600">{employee.employee_name}</p>
                       <p className="text-sm text-gray-500">{employee.employee_code}</p>
+                      {editingEmailId === employee.id ? (
+                        <div className="mt-1 flex items-center">
+                          <input
+                            type="email"
+                            className="focus:ring-indigo-500 focus:border-indigo-500 block w-56 sm:text-sm border-gray-300 rounded-md"
+                            placeholder="Sign-in email"
+                            value={emailDraft}
+                            onChange={(e) => setEmailDraft(e.target.value)}
+                          />
+                          <button
+                            onClick={() => handleSaveEmail(employee.id)}
+                            className="ml-2 text-indigo-600 hover:text-indigo-900"
+                          >
+                            <Save className="h-5 w-5" />
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setEditingEmailId(employee.id);
+                            setEmailDraft(employee.email || '');
+                          }}
+                          className="mt-1 flex items-center text-xs text-gray-500 hover:text-indigo-600"
+                        >
+                          <Mail className="h-4 w-4 mr-1" />
+                          {employee.email || 'Add sign-in email'}
+                          {employee.email && !employee.auth_user_id && ' (not yet signed in)'}
+                        </button>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center space-x-4">
-                    <button
-                      onClick={() => handleToggleAdmin(employee.id, employee.role)}
-                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    {isLocked(employee) && (
+                      <button
+                        onClick={() => handleUnlock(employee.id)}
+                        className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200"
+                      >
+                        <Lock className="h-4 w-4 mr-1" />
+                        Locked - Unlock
+                      </button>
+                    )}
+                    <select
+                      value={employee.specialty || ''}
+                      onChange={(e) => handleSpecialtyChange(employee.id, e.target.value || null)}
+                      className="pl-3 pr-8 py-1 rounded-full text-xs font-medium border-0 bg-gray-100 text-gray-800 focus:ring-indigo-500"
+                    >
+                      <option value="">No specialty</option>
+                      {employee.specialty && !specialties.some((s) => s.name === employee.specialty) && (
+                        <option value={employee.specialty}>{employee.specialty}</option>
+                      )}
+                      {specialties.map((s) => (
+                        <option key={s.id} value={s.name}>{s.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={employee.role}
+                      onChange={(e) => handleRoleChange(employee.id, e.target.value as Role)}
+                      disabled={employee.id === user.id}
+                      className={`pl-3 pr-8 py-1 rounded-full text-xs font-medium border-0 focus:ring-indigo-500 ${
                         employee.role === 'admin'
                           ? 'bg-green-100 text-green-800'
                           : 'bg-gray-100 text-gray-800'
                       }`}
                     >
-                      {employee.role === 'admin' ? 'Admin' : 'Staff'}
-                    </button>
+                      {ROLES.map((role) => (
+                        <option key={role.value} value={role.value}>{role.label}</option>
+                      ))}
+                    </select>
                     <button
                       onClick={() => handleDeleteEmployee(employee.id)}
                       className="text-red-600 hover:text-red-900"
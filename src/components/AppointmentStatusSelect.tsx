@@ -0,0 +1,58 @@
+import React from 'react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import {
+  AppointmentStatus,
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_STATUS_STYLES,
+  NEXT_STATUSES,
+  updateAppointmentStatus,
+} from '../appointments';
+
+interface AppointmentStatusSelectProps {
+  appointmentId: number;
+  status: AppointmentStatus;
+  onChanged: (status: AppointmentStatus) => void;
+}
+
+const AppointmentStatusSelect: React.FC<AppointmentStatusSelectProps> = ({ appointmentId, status, onChanged }) => {
+  const { user } = useSession();
+  // Cancelling asks for a reason, so it is offered separately
+  const nextStatuses = NEXT_STATUSES[status].filter((next) => next !== 'cancelled');
+
+  const handleChange = async (next: AppointmentStatus) => {
+    try {
+      await updateAppointmentStatus(appointmentId, next);
+      onChanged(next);
+      toast.success(`Appointment marked ${APPOINTMENT_STATUS_LABELS[next].toLowerCase()}`);
+    } catch (error) {
+      console.error('Error updating appointment status:', error);
+      toast.error('Failed to update appointment status');
+    }
+  };
+
+  if (!hasPermission(user, 'book_appointments') || nextStatuses.length === 0) {
+    return (
+      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${APPOINTMENT_STATUS_STYLES[status]}`}>
+        {APPOINTMENT_STATUS_LABELS[status]}
+      </span>
+    );
+  }
+
+  return (
+    <select
+      aria-label="Appointment status"
+      className={`text-xs font-semibold rounded-full border-0 py-0.5 pl-2 pr-7 ${APPOINTMENT_STATUS_STYLES[status]}`}
+      value={status}
+      onChange={(e) => handleChange(e.target.value as AppointmentStatus)}
+    >
+      <option value={status}>{APPOINTMENT_STATUS_LABELS[status]}</option>
+      {nextStatuses.map((next) => (
+        <option key={next} value={next}>{APPOINTMENT_STATUS_LABELS[next]}</option>
+      ))}
+    </select>
+  );
+};
+
+export default AppointmentStatusSelect;
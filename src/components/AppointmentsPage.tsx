@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock, Search, Plus, XCircle } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { useSpecialties } from '../specialties';
+import { UNIQUE_VIOLATION } from '../persons';
+import { ClinicSlot, formatTime, toDateString } from '../clinics';
+import {
+  AppointmentFilters,
+  AppointmentStatus,
+  ClinicAppointment,
+  APPOINTMENT_STATUS_LABELS,
+  isUpcoming,
+  followUpLabel,
+  fetchAppointments,
+  cancelAppointment,
+  rescheduleAppointment,
+} from '../appointments';
+import AppointmentStatusSelect from './AppointmentStatusSelect';
+import ClinicSlotPicker from './ClinicSlotPicker';
+
+const DEFAULT_FILTERS: AppointmentFilters = {
+  search: '',
+  specialty: '',
+  fromDate: toDateString(new Date()),
+  toDate: '',
+  type: '',
+  status: '',
+};
+
+const AppointmentsPage: React.FC = () => {
+  const { user } = useSession();
+  const canBook = hasPermission(user, 'book_appointments');
+  const { specialties } = useSpecialties(false);
+  const [appointments, setAppointments] = useState<ClinicAppointment[]>([]);
+  const [filters, setFilters] = useState<AppointmentFilters>(DEFAULT_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AppointmentFilters>(DEFAULT_FILTERS);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [rescheduling, setRescheduling] = useState<ClinicAppointment | null>(null);
+  const [newSlot, setNewSlot] = useState<ClinicSlot | null>(null);
+  const [slotsVersion, setSlotsVersion] = useState(0);
+  const [freedSlot, setFreedSlot] = useState<ClinicAppointment | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAppointments(DEFAULT_FILTERS);
+  }, []);
+
+  const loadAppointments = async (activeFilters: AppointmentFilters) => {
+    try {
+      setLoading(true);
+      setAppliedFilters(activeFilters);
+      setAppointments(await fetchAppointments(activeFilters));
+    } catch (error) {
+      console.error('Error fetching appointments:', error);
+      toast.error('Failed to fetch appointments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadAppointments(filters);
+  };
+
+  const handleClear = () => {
+    setFilters(DEFAULT_FILTERS);
+    loadAppointments(DEFAULT_FILTERS);
+  };
+
+  const updateStatus = (appointmentId: number, status: AppointmentStatus) => {
+    setAppointments((current) => current.map((appointment) => (
+      appointment.appointment_id === appointmentId ? { ...appointment, status } : appointment
+    )));
+  };
+
+  const startCancelling = (appointment: ClinicAppointment) => {
+    setRescheduling(null);
+    setCancellingId(appointment.appointment_id);
+    setCancelReason('');
+  };
+
+  const startRescheduling = (appointment: ClinicAppointment) => {
+    setCancellingId(null);
+    setRescheduling(appointment);
+    setNewSlot(null);
+  };
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cancelled = appointments.find((appointment) => appointment.appointment_id === cancellingId);
+    if (!cancelled) return;
+
+    try {
+      await cancelAppointment(cancelled.appointment_id, cancelReason.trim());
+      toast.success('Appointment cancelled');
+      setCancellingId(null);
+      setFreedSlot(cancelled.appointment_date ? cancelled : null);
+      loadAppointments(appliedFilters);
+    } catch (error) {
+      console.error('Error cancelling appointment:', error);
+      toast.error('Failed to cancel appointment');
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling || !newSlot) return;
+
+    try {
+      await rescheduleAppointment(rescheduling.appointment_id, newSlot);
+      toast.success(`Appointment moved to ${newSlot.slot_date} at ${formatTime(newSlot.slot_time)}`);
+      setRescheduling(null);
+      loadAppointments(appliedFilters);
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        toast.error('That slot has just been taken, please pick another');
+        setNewSlot(null);
+        setSlotsVersion((version) => version + 1);
+        return;
+      }
+      console.error('Error rescheduling appointment:', error);
+      toast.error('Failed to reschedule appointment');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <CalendarClock className="h-8 w-8 mr-2 text-indigo-500" />
+            Appointments
+          </h1>
+          {canBook && (
+            <Link
+              to="/book-appointment"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Book Appointment
+            </Link>
+          )}
+        </div>
+
+        <form onSubmit={handleSearch} className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-7">
+          <div className="lg:col-span-2">
+            <label htmlFor="appointmentSearch" className="block text-sm font-medium text-gray-700">Patient name or MRN</label>
+            <input
+              type="text"
+              id="appointmentSearch"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="appointmentSpecialty" className="block text-sm font-medium text-gray-700">Specialty</label>
+            <select
+              id="appointmentSpecialty"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.specialty}
+              onChange={(e) => setFilters({ ...filters, specialty: e.target.value })}
+            >
+              <option value="">All</option>
+              {specialties.map((specialty) => (
+                <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="appointmentFrom" className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              id="appointmentFrom"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.fromDate}
+              onChange={(e) => setFilters({ ...filters, fromDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="appointmentTo" className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              id="appointmentTo"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.toDate}
+              onChange={(e) => setFilters({ ...filters, toDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="appointmentType" className="block text-sm font-medium text-gray-700">Type</label>
+            <select
+              id="appointmentType"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.type}
+              onChange={(e) => setFilters({ ...filters, type: e.target.value as AppointmentFilters['type'] })}
+            >
+              <option value="">All</option>
+              <option value="Urgent">Urgent</option>
+              <option value="Regular">Regular</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="appointmentStatus" className="block text-sm font-medium text-gray-700">Status</label>
+            <select
+              id="appointmentStatus"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as AppointmentFilters['status'] })}
+            >
+              <option value="">All</option>
+              {(Object.keys(APPOINTMENT_STATUS_LABELS) as AppointmentStatus[]).map((status) => (
+                <option key={status} value={status}>{APPOINTMENT_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end space-x-2 sm:col-span-3 lg:col-span-7">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </button>
+            <button
+              type="button"
+              onClick={handleClear}
+              className="px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {freedSlot && freedSlot.appointment_date && freedSlot.appointment_time && (
+          <div className="mb-6 p-4 rounded-md bg-indigo-50 border border-indigo-200 text-sm text-indigo-800 flex items-center justify-between">
+            <span>
+              {freedSlot.clinic_specialty} slot on {freedSlot.appointment_date} at {formatTime(freedSlot.appointment_time)} is free again.
+            </span>
+            <Link
+              to={`/waiting-list?specialty=${encodeURIComponent(freedSlot.clinic_specialty)}&date=${freedSlot.appointment_date}`}
+              className="font-medium text-indigo-600 hover:text-indigo-900"
+            >
+              Offer it from the waiting list
+            </Link>
+          </div>
+        )}
+
+        {rescheduling && (
+          <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+            <p className="text-sm text-gray-700 mb-4">
+              Rescheduling <span className="font-medium">{rescheduling.patient_name}</span>
+              {rescheduling.appointment_date && rescheduling.appointment_time
+                && ` from ${rescheduling.appointment_date} at ${formatTime(rescheduling.appointment_time)}`}
+            </p>
+            <ClinicSlotPicker
+              key={rescheduling.appointment_id}
+              specialty={rescheduling.clinic_specialty}
+              selected={newSlot}
+              onSelect={setNewSlot}
+              refreshKey={slotsVersion}
+              initialDate={rescheduling.appointment_date || undefined}
+            />
+            <div className="mt-4 flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setRescheduling(null)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Close
+              </button>
+              <button
+                type="button"
+                onClick={handleReschedule}
+                disabled={!newSlot}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                <CalendarClock className="h-5 w-5 mr-2" />
+                Move Appointment
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          {loading ? (
+            <div className="p-6">Loading...</div>
+          ) : appointments.length === 0 ? (
+            <div className="p-6 text-gray-500">No appointments match these filters.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slot</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Clinic</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th scope="col" className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {appointments.map((appointment) => (
+                    <React.Fragment key={appointment.appointment_id}>
+                      <tr>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {appointment.appointment_date && appointment.appointment_time
+                            ? `${appointment.appointment_date} ${formatTime(appointment.appointment_time)}`
+                            : 'Unscheduled'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <Link to={`/patient/${appointment.patient_medical_number}`} className="font-medium text-indigo-600 hover:text-indigo-900">
+                            {appointment.patient_name}
+                          </Link>
+                          <div className="text-gray-500">{appointment.patient_medical_number}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {appointment.clinic_specialty}
+                          {appointment.clinic_templates && <div className="text-xs">{appointment.clinic_templates.name}</div>}
+                          {appointment.admission && (
+                            <Link
+                              to={`/patient/${appointment.patient_medical_number}?admission=${appointment.admission_id}`}
+                              className="block text-xs text-indigo-600 hover:text-indigo-900"
+                            >
+                              {followUpLabel(appointment.admission)}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            appointment.appointment_type === 'Urgent' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                          }`}>
+                            {appointment.appointment_type}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500">
+                          <AppointmentStatusSelect
+                            appointmentId={appointment.appointment_id}
+                            status={appointment.status}
+                            onChanged={(status) => updateStatus(appointment.appointment_id, status)}
+                          />
+                          {appointment.cancellation_reason && (
+                            <div className="mt-1 text-xs text-gray-500">{appointment.cancellation_reason}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-2">
+                          {canBook && isUpcoming(appointment) && (
+                            <>
+                              <button
+                                onClick={() => startRescheduling(appointment)}
+                                className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                              >
+                                Reschedule
+                              </button>
+                              <button
+                                onClick={() => startCancelling(appointment)}
+                                className="inline-flex items-center px-3 py-1 border border-red-300 text-xs font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                      {cancellingId === appointment.appointment_id && (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 bg-red-50">
+                            <form onSubmit={handleCancel} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                              <input
+                                type="text"
+                                aria-label="Cancellation reason"
+                                placeholder="Reason for cancelling, e.g. Patient request"
+                                className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                                value={cancelReason}
+                                onChange={(e) => setCancelReason(e.target.value)}
+                                required
+                              />
+                              <button
+                                type="submit"
+                                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 whitespace-nowrap"
+                              >
+                                <XCircle className="h-5 w-5 mr-2" />
+                                Cancel Appointment
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setCancellingId(null)}
+                                className="px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                              >
+                                Keep
+                              </button>
+                            </form>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentsPage;
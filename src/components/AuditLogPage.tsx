@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { History, Search, ChevronDown, ChevronRight } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+
+interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  actor_name: string | null;
+  table_name: string;
+  row_id: string;
+  mrn: string | null;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+}
+
+interface AuditFilters {
+  mrn: string;
+  employee: string;
+  tableName: string;
+  fromDate: string;
+  toDate: string;
+}
+
+const PAGE_SIZE = 200;
+
+const TABLE_LABELS: Record<string, string> = {
+  patients: 'Admissions',
+  consultations: 'Consultations',
+  patient_notes: 'Patient notes',
+  daily_reports: 'Daily reports',
+  clinic_appointments: 'Clinic appointments',
+  users: 'Employees',
+  app_settings: 'Settings',
+};
+
+const EMPTY_FILTERS: AuditFilters = { mrn: '', employee: '', tableName: '', fromDate: '', toDate: '' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Fields whose value differs between the before and after images of a row
+const changedFields = (entry: AuditEntry) => {
+  const keys = new Set([...Object.keys(entry.old_values || {}), ...Object.keys(entry.new_values || {})]);
+  return [...keys]
+    .filter((key) => key !== 'updated_at')
+    .filter((key) => JSON.stringify(entry.old_values?.[key]) !== JSON.stringify(entry.new_values?.[key]));
+};
+
+const AuditLogPage: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEntries(EMPTY_FILTERS);
+  }, []);
+
+  const fetchEntries = async (activeFilters: AuditFilters) => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('occurred_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (activeFilters.mrn) query = query.ilike('mrn', `%${activeFilters.mrn.trim()}%`);
+      if (activeFilters.employee) query = query.ilike('actor_name', `%${activeFilters.employee.trim()}%`);
+      if (activeFilters.tableName) query = query.eq('table_name', activeFilters.tableName);
+      if (activeFilters.fromDate) query = query.gte('occurred_at', new Date(`${activeFilters.fromDate}T00:00:00`).toISOString());
+      if (activeFilters.toDate) query = query.lte('occurred_at', new Date(`${activeFilters.toDate}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchEntries(filters);
+  };
+
+  const handleClear = () => {
+    setFilters(EMPTY_FILTERS);
+    fetchEntries(EMPTY_FILTERS);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6 flex items-center">
+          <History className="h-8 w-8 mr-2 text-indigo-500" />
+          Audit Log
+        </h1>
+
+        <form onSubmit={handleSearch} className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+          <div>
+            <label htmlFor="auditMrn" className="block text-sm font-medium text-gray-700">MRN</label>
+            <input
+              type="text"
+              id="auditMrn"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.mrn}
+              onChange={(e) => setFilters({ ...filters, mrn: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="auditEmployee" className="block text-sm font-medium text-gray-700">Employee</label>
+            <input
+              type="text"
+              id="auditEmployee"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.employee}
+              onChange={(e) => setFilters({ ...filters, employee: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="auditTable" className="block text-sm font-medium text-gray-700">Record type</label>
+            <select
+              id="auditTable"
+              className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              value={filters.tableName}
+              onChange={(e) => setFilters({ ...filters, tableName: e.target.value })}
+            >
+              <option value="">All</option>
+              {Object.entries(TABLE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="auditFrom" className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              id="auditFrom"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.fromDate}
+              onChange={(e) => setFilters({ ...filters, fromDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="auditTo" className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              id="auditTo"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              value={filters.toDate}
+              onChange={(e) => setFilters({ ...filters, toDate: e.target.value })}
+            />
+          </div>
+          <div className="flex items-end space-x-2">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </button>
+            <button
+              type="button"
+              onClick={handleClear}
+              className="px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          {loading ? (
+            <div className="p-6">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="p-6 text-gray-500">No audit entries match these filters.</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">MRN</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 flex items-center">
+                        {expandedId === entry.id ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                        {new Date(entry.occurred_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.actor_name || 'System'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.action}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {TABLE_LABELS[entry.table_name] || entry.table_name} · {entry.row_id}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.mrn || '—'}</td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="pr-4 py-1 font-medium">Field</th>
+                                <th className="pr-4 py-1 font-medium">Before</th>
+                                <th className="py-1 font-medium">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {changedFields(entry).map((field) => (
+                                <tr key={field} className="align-top">
+                                  <td className="pr-4 py-1 font-medium text-gray-700">{field}</td>
+                                  <td className="pr-4 py-1 text-red-700 break-all">{formatValue(entry.old_values?.[field])}</td>
+                                  <td className="py-1 text-green-700 break-all">{formatValue(entry.new_values?.[field])}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        {entries.length === PAGE_SIZE && (
+          <p className="mt-2 text-sm text-gray-500">Showing the latest {PAGE_SIZE} entries. Narrow the filters to see older changes.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { BedDouble, ArrowRightLeft, Ban, SprayCan, CheckCircle } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { BedOverview, BedStatus, BED_STATUS_LABELS, fetchBedOverview, assignBed, setBedStatus } from '../beds';
+import BedSelect from './BedSelect';
+
+const STATUS_CLASSES: Record<BedStatus, string> = {
+  available: 'bg-green-50 border-green-300 text-green-800',
+  occupied: 'bg-indigo-50 border-indigo-300 text-indigo-900',
+  blocked: 'bg-gray-100 border-gray-400 text-gray-600',
+  cleaning: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+};
+
+const BedBoard: React.FC = () => {
+  const { user } = useSession();
+  const canManageBeds = hasPermission(user, 'manage_beds');
+  const [beds, setBeds] = useState<BedOverview[]>([]);
+  const [selectedWardId, setSelectedWardId] = useState<number | null>(null);
+  const [selectedBedId, setSelectedBedId] = useState<number | null>(null);
+  const [targetBedId, setTargetBedId] = useState<number | null>(null);
+  const [blockNote, setBlockNote] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadBeds();
+  }, []);
+
+  const loadBeds = async () => {
+    try {
+      const overview = await fetchBedOverview();
+      setBeds(overview);
+      setSelectedWardId((current) => current ?? overview[0]?.ward_id ?? null);
+    } catch (error) {
+      console.error('Error fetching beds:', error);
+      toast.error('Failed to fetch bed board');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runBedAction = async (action: () => Promise<void>, successMessage: string) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      setSelectedBedId(null);
+      setTargetBedId(null);
+      setBlockNote('');
+      loadBeds();
+    } catch (error) {
+      console.error('Error updating bed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update bed');
+    }
+  };
+
+  if (loading) return <div className="p-6">Loading...</div>;
+
+  const wards = [...new Map(beds.map((bed) => [bed.ward_id, bed.ward_name]))];
+  const wardBeds = beds.filter((bed) => bed.ward_id === selectedWardId);
+  const rooms = [...new Map(wardBeds.map((bed) => [bed.room_id, bed.room_name]))];
+  const selectedBed = beds.find((bed) => bed.bed_id === selectedBedId);
+  const countByStatus = (status: BedStatus) => wardBeds.filter((bed) => bed.status === status).length;
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6 flex items-center">
+        <BedDouble className="h-8 w-8 mr-2 text-indigo-500" />
+        Bed Board
+      </h1>
+
+      {wards.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-lg p-6 text-gray-500">
+          No wards have been set up yet.
+          {hasPermission(user, 'manage_settings') && (
+            <Link to="/admin/wards" className="ml-1 text-indigo-600 hover:text-indigo-900">Set up wards and beds</Link>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {wards.map(([wardId, wardName]) => (
+              <button
+                key={wardId}
+                onClick={() => {
+                  setSelectedWardId(wardId);
+                  setSelectedBedId(null);
+                }}
+                className={`px-4 py-2 text-sm font-medium rounded-md ${
+                  selectedWardId === wardId ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 shadow hover:bg-gray-50'
+                }`}
+              >
+                {wardName}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
+            <div className="bg-white shadow rounded-lg p-4">
+              <p className="text-sm text-gray-500">Occupancy</p>
+              <p className="text-2xl font-semibold text-gray-900">
+                {countByStatus('occupied')} / {wardBeds.length}
+              </p>
+            </div>
+            {(Object.keys(BED_STATUS_LABELS) as BedStatus[]).map((status) => (
+              <div key={status} className={`rounded-lg border p-4 ${STATUS_CLASSES[status]}`}>
+                <p className="text-sm">{BED_STATUS_LABELS[status]}</p>
+                <p className="text-2xl font-semibold">{countByStatus(status)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            {rooms.map(([roomId, roomName]) => (
+              <div key={roomId} className="bg-white shadow sm:rounded-lg p-4">
+                <h2 className="text-sm font-medium text-gray-700 mb-3">{roomName}</h2>
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                  {wardBeds
+                    .filter((bed) => bed.room_id === roomId)
+                    .map((bed) => (
+                      <button
+                        key={bed.bed_id}
+                        onClick={() => setSelectedBedId(bed.bed_id === selectedBedId ? null : bed.bed_id)}
+                        className={`text-left rounded-md border-2 p-3 ${STATUS_CLASSES[bed.status]} ${
+                          bed.bed_id === selectedBedId ? 'ring-2 ring-indigo-500' : ''
+                        }`}
+                      >
+                        <p className="text-sm font-semibold">Bed {bed.bed_label}</p>
+                        <p className="text-xs">{BED_STATUS_LABELS[bed.status]}</p>
+                        {bed.occupant_mrn && (
+                          <p className="mt-1 text-xs truncate">{bed.occupant_name} ({bed.occupant_mrn})</p>
+                        )}
+                        {bed.status_note && <p className="mt-1 text-xs italic truncate">{bed.status_note}</p>}
+                      </button>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {selectedBed && (
+            <div className="mt-6 bg-white shadow sm:rounded-lg p-4">
+              <h2 className="text-lg font-medium text-gray-900 mb-3">
+                {selectedBed.room_name} · Bed {selectedBed.bed_label}
+              </h2>
+              {selectedBed.status === 'occupied' && selectedBed.occupant_mrn && (
+                <div className="space-y-3">
+                  <Link to={`/patient/${selectedBed.occupant_mrn}`} className="text-indigo-600 hover:text-indigo-900 text-sm">
+                    {selectedBed.occupant_name} · {selectedBed.occupant_mrn} · {selectedBed.occupant_specialty}
+                  </Link>
+                  {canManageBeds && (
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <BedSelect value={targetBedId} onChange={setTargetBedId} placeholder="Move to bed..." />
+                      <button
+                        disabled={!targetBedId}
+                        onClick={() => runBedAction(
+                          () => assignBed(selectedBed.occupant_mrn!, targetBedId!),
+                          `${selectedBed.occupant_name} moved successfully`
+                        )}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        <ArrowRightLeft className="h-4 w-4 mr-2" />
+                        Transfer
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+              {canManageBeds && selectedBed.status !== 'occupied' && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  {selectedBed.status !== 'available' && (
+                    <button
+                      onClick={() => runBedAction(() => setBedStatus(selectedBed.bed_id, 'available'), 'Bed marked available')}
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      {selectedBed.status === 'cleaning' ? 'Cleaned – mark available' : 'Unblock'}
+                    </button>
+                  )}
+                  {selectedBed.status === 'available' && (
+                    <button
+                      onClick={() => runBedAction(() => setBedStatus(selectedBed.bed_id, 'cleaning'), 'Bed marked for cleaning')}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <SprayCan className="h-4 w-4 mr-2" />
+                      Needs cleaning
+                    </button>
+                  )}
+                  {selectedBed.status !== 'blocked' && (
+                    <>
+                      <input
+                        type="text"
+                        placeholder="Reason for blocking"
+                        className="focus:ring-indigo-500 focus:border-indigo-500 block sm:w-64 sm:text-sm border-gray-300 rounded-md"
+                        value={blockNote}
+                        onChange={(e) => setBlockNote(e.target.value)}
+                      />
+                      <button
+                        onClick={() => runBedAction(() => setBedStatus(selectedBed.bed_id, 'blocked', blockNote || null), 'Bed blocked')}
+                        className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Ban className="h-4 w-4 mr-2" />
+                        Block
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BedBoard;
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { BedOverview, fetchBedOverview } from '../beds';
+
+interface BedSelectProps {
+  id?: string;
+  value: number | null;
+  onChange: (bedId: number | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Dropdown of available beds on active wards, grouped by ward
+const BedSelect: React.FC<BedSelectProps> = ({ id, value, onChange, placeholder = 'No bed yet', className }) => {
+  const [beds, setBeds] = useState<BedOverview[]>([]);
+
+  useEffect(() => {
+    fetchBedOverview()
+      .then((overview) => setBeds(overview.filter((bed) => bed.ward_is_active && bed.status === 'available')))
+      .catch((error) => console.error('Error fetching beds:', error));
+  }, []);
+
+  const wards = [...new Set(beds.map((bed) => bed.ward_name))];
+
+  return (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      className={className || 'block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm'}
+    >
+      <option value="">{placeholder}</option>
+      {wards.map((ward) => (
+        <optgroup key={ward} label={ward}>
+          {beds
+            .filter((bed) => bed.ward_name === ward)
+            .map((bed) => (
+              <option key={bed.bed_id} value={bed.bed_id}>
+                {bed.room_name} · Bed {bed.bed_label}
+              </option>
+            ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+export default BedSelect;
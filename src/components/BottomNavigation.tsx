@@ -1,19 +1,33 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, UserPlus, UserMinus, Activity, FileText, Calendar } from 'lucide-react';
+import { Home, UserPlus, UserMinus, Activity, FileText, Calendar, CalendarClock, BedDouble, LucideIcon } from 'lucide-react';
+import { useSession } from '../session';
+import { Permission, hasPermission } from '../permissions';
+
+interface NavItem {
+  name: string;
+  icon: LucideIcon;
+  path: string;
+  permission?: Permission;
+}
 
 const BottomNavigation: React.FC = () => {
   const location = useLocation();
+  const { user } = useSession();
 
-  const navItems = [
+  const allNavItems: NavItem[] = [
     { name: 'Dashboard', icon: Home, path: '/dashboard' },
-    { name: 'New Admission', icon: UserPlus, path: '/new-admission' },
-    { name: 'Discharge', icon: UserMinus, path: '/discharge' },
-    { name: 'Specialties', icon: Activity, path: '/specialties' },
-    { name: 'Daily Report', icon: FileText, path: '/daily-report' },
-    { name: 'Book', icon: Calendar, path: '/book-appointment' },
+    { name: 'New Admission', icon: UserPlus, path: '/new-admission', permission: 'admit_patients' },
+    { name: 'Discharge', icon: UserMinus, path: '/discharge', permission: 'discharge_patients' },
+    { name: 'Specialties', icon: Activity, path: '/specialties', permission: 'view_patients' },
+    { name: 'Beds', icon: BedDouble, path: '/beds', permission: 'view_patients' },
+    { name: 'Daily Report', icon: FileText, path: '/daily-report', permission: 'view_reports' },
+    { name: 'Clinics', icon: CalendarClock, path: '/appointments', permission: 'view_patients' },
+    { name: 'Book', icon: Calendar, path: '/book-appointment', permission: 'book_appointments' },
   ];
 
+  const navItems = allNavItems.filter((item) => !item.permission || hasPermission(user, item.permission));
+
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-indigo-800 text-white lg:hidden z-50">
       <ul className="flex justify-around">
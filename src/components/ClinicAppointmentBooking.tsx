@@ -1,22 +1,13 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Calendar, Clock, User, FileText, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Calendar, User, FileText, CheckCircle, UserMinus } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { useSpecialties } from '../specialties';
+import { UNIQUE_VIOLATION } from '../persons';
 import { toast } from 'react-toastify';
-
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
+import { ClinicSlot, isPastSlot } from '../clinics';
+import { FollowUpAdmission, fetchFollowUpAdmission, followUpLabel } from '../appointments';
+import ClinicSlotPicker from './ClinicSlotPicker';
 
 interface AppointmentData {
   patient_name: string;
@@ -27,31 +18,87 @@ interface AppointmentData {
 
 const ClinicAppointmentBooking: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const admissionId = searchParams.get('admission');
+  const { specialties } = useSpecialties();
   const [appointmentData, setAppointmentData] = useState<AppointmentData>({
     patient_name: '',
     patient_medical_number: '',
     clinic_specialty: '',
     appointment_type: 'Regular',
   });
+  const [followUpOf, setFollowUpOf] = useState<FollowUpAdmission | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<ClinicSlot | null>(null);
+  const [slotsVersion, setSlotsVersion] = useState(0);
+
+  // Booked from a discharge: the patient and discharging specialty come from the admission
+  useEffect(() => {
+    setFollowUpOf(null);
+    if (!admissionId) return;
+
+    fetchFollowUpAdmission(admissionId)
+      .then((admission) => {
+        if (!admission) return;
+        setFollowUpOf(admission);
+        setSelectedSlot(null);
+        setAppointmentData((data) => ({
+          ...data,
+          patient_name: admission.patient_name,
+          patient_medical_number: admission.mrn,
+          clinic_specialty: admission.specialty,
+        }));
+      })
+      .catch((error) => {
+        console.error('Error fetching admission:', error);
+        toast.error('Failed to load the admission for this follow-up');
+      });
+  }, [admissionId]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setAppointmentData({ ...appointmentData, [name]: value });
+    if (name === 'clinic_specialty') {
+      setSelectedSlot(null);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!selectedSlot) {
+      toast.error('Please pick a clinic slot');
+      return;
+    }
+
+    if (isPastSlot(selectedSlot)) {
+      toast.error('That slot has already started, please pick another');
+      setSelectedSlot(null);
+      setSlotsVersion((version) => version + 1);
+      return;
+    }
+
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('clinic_appointments')
-        .insert([appointmentData])
-        .select();
+        .insert([{
+          ...appointmentData,
+          admission_id: followUpOf?.id ?? null,
+          template_id: selectedSlot.template_id,
+          appointment_date: selectedSlot.slot_date,
+          appointment_time: selectedSlot.slot_time,
+        }]);
 
       if (error) throw error;
 
       toast.success('Appointment booked successfully');
-      navigate('/dashboard');
+      navigate('/appointments');
     } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        toast.error('That slot has just been taken, please pick another');
+        setSelectedSlot(null);
+        setSlotsVersion((version) => version + 1);
+        return;
+      }
       toast.error('Failed to book appointment');
       console.error('Error:', error);
     }
@@ -61,6 +108,18 @@ const ClinicAppointmentBooking: React.FC = () => {
     <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
       <div className="px-4 py-6 sm:px-0">
         <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6">Book Clinic Appointment</h1>
+        {followUpOf && (
+          <div className="mb-6 p-4 rounded-md bg-indigo-50 border border-indigo-200 text-sm text-indigo-800 flex items-center justify-between">
+            <span className="flex items-center">
+              <UserMinus className="h-5 w-5 mr-2" />
+              {followUpLabel(followUpOf)}
+              {followUpOf.discharge_date && `, discharged ${followUpOf.discharge_date}`}
+            </span>
+            <Link to="/book-appointment" className="font-medium text-indigo-600 hover:text-indigo-900">
+              Book without linking
+            </Link>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="space-y-8 divide-y divide-gray-200">
           <div className="space-y-8 divide-y divide-gray-200">
             <div>
@@ -79,6 +138,7 @@ const ClinicAppointmentBooking: React.FC = () => {
                       id="patient_name"
                       value={appointmentData.patient_name}
                       onChange={handleInputChange}
+                      readOnly={!!followUpOf}
                       required
                       className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
                       placeholder="Enter patient name"
@@ -100,6 +160,7 @@ const ClinicAppointmentBooking: React.FC = () => {
                       id="patient_medical_number"
                       value={appointmentData.patient_medical_number}
                       onChange={handleInputChange}
+                      readOnly={!!followUpOf}
                       required
                       className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
                       placeholder="Enter medical number"
@@ -124,8 +185,8 @@ const ClinicAppointmentBooking: React.FC = () => {
                       className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
                     >
                       <option value="">Select specialty</option>
-                      {specialtiesList.map((specialty) => (
-                        <option key={specialty} value={specialty}>{specialty}</option>
+                      {specialties.map((specialty) => (
+                        <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
                       ))}
                     </select>
                   </div>
@@ -168,6 +229,18 @@ const ClinicAppointmentBooking: React.FC = () => {
             </div>
           </div>
 
+          {appointmentData.clinic_specialty && (
+            <div className="pt-8">
+              <ClinicSlotPicker
+                key={appointmentData.clinic_specialty}
+                specialty={appointmentData.clinic_specialty}
+                selected={selectedSlot}
+                onSelect={setSelectedSlot}
+                refreshKey={slotsVersion}
+              />
+            </div>
+          )}
+
           <div className="pt-5">
             <div className="flex justify-end">
               <button
@@ -179,7 +252,8 @@ const ClinicAppointmentBooking: React.FC = () => {
               </button>
               <button
                 type="submit"
-                className="ml-3 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                disabled={!selectedSlot}
+                className="ml-3 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
               >
                 <CheckCircle className="h-5 w-5 mr-2" />
                 Book Appointment
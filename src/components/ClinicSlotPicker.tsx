@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Clock, ChevronLeft, ChevronRight } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  ClinicSlot,
+  WEEKDAYS,
+  formatTime,
+  slotKey,
+  toDateString,
+  addDays,
+  weekStart,
+  isPastSlot,
+  fetchClinicSlots,
+} from '../clinics';
+
+interface ClinicSlotPickerProps {
+  specialty: string;
+  selected: ClinicSlot | null;
+  onSelect: (slot: ClinicSlot) => void;
+  // Bumped by the parent to reload availability, e.g. after a slot was taken
+  refreshKey?: number;
+  initialDate?: string;
+}
+
+const ClinicSlotPicker: React.FC<ClinicSlotPickerProps> = ({ specialty, selected, onSelect, refreshKey = 0, initialDate }) => {
+  const thisWeek = weekStart(toDateString(new Date()));
+  const [week, setWeek] = useState(() => (initialDate ? weekStart(initialDate) : thisWeek));
+  const [slots, setSlots] = useState<ClinicSlot[]>([]);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      // Slots that have already started cannot be booked, so they are not offered
+      const found = await fetchClinicSlots(specialty, week, addDays(week, 6));
+      setSlots(found.filter((slot) => !isPastSlot(slot)));
+    } catch (error) {
+      console.error('Error fetching clinic slots:', error);
+      toast.error('Failed to fetch clinic slots');
+    }
+  }, [specialty, week]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots, refreshKey]);
+
+  const days = Array.from({ length: 7 }, (_, index) => addDays(week, index));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <Clock className="h-5 w-5 mr-2 text-indigo-500" />
+          Pick a Slot
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => setWeek(addDays(week, -7))}
+            disabled={week <= thisWeek}
+            className="p-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <span className="text-sm text-gray-700">Week of {week}</span>
+          <button
+            type="button"
+            onClick={() => setWeek(addDays(week, 7))}
+            className="p-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            aria-label="Next week"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {slots.length === 0 ? (
+        <p className="mt-4 text-sm text-gray-500">No {specialty} clinic slots left this week.</p>
+      ) : (
+        <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-7">
+          {days.map((day) => (
+            <div key={day}>
+              <p className="text-sm font-medium text-gray-900">{WEEKDAYS[new Date(`${day}T00:00:00`).getDay()].slice(0, 3)}</p>
+              <p className="text-xs text-gray-500 mb-2">{day}</p>
+              <div className="space-y-1">
+                {slots.filter((slot) => slot.slot_date === day).map((slot) => {
+                  const left = slot.capacity - slot.booked;
+                  const isSelected = selected !== null && slotKey(selected) === slotKey(slot);
+
+                  return (
+                    <button
+                      key={slotKey(slot)}
+                      type="button"
+                      title={slot.clinic_name}
+                      onClick={() => onSelect(slot)}
+                      disabled={left <= 0}
+                      className={`w-full px-2 py-1 text-xs rounded-md border ${
+                        isSelected
+                          ? 'bg-indigo-600 border-indigo-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400'
+                      }`}
+                    >
+                      {formatTime(slot.slot_time)} · {left > 0 ? `${left} left` : 'Full'}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <p className="mt-4 text-sm text-gray-700">
+          {selected.clinic_name} on {selected.slot_date} at {formatTime(selected.slot_time)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ClinicSlotPicker;
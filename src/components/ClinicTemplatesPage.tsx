@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarDays, Plus } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+import { useSpecialties } from '../specialties';
+import { ClinicTemplate, WEEKDAYS, formatTime, fetchClinicTemplates } from '../clinics';
+
+type NewTemplate = Omit<ClinicTemplate, 'id' | 'is_active'>;
+
+const EMPTY_TEMPLATE: NewTemplate = {
+  specialty: '',
+  name: '',
+  weekday: 1,
+  start_time: '09:00',
+  end_time: '12:00',
+  slot_minutes: 15,
+  capacity: 1,
+};
+
+const ClinicTemplatesPage: React.FC = () => {
+  const { specialties } = useSpecialties();
+  const [templates, setTemplates] = useState<ClinicTemplate[]>([]);
+  const [newTemplate, setNewTemplate] = useState<NewTemplate>(EMPTY_TEMPLATE);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await fetchClinicTemplates());
+    } catch (error) {
+      console.error('Error fetching clinic templates:', error);
+      toast.error('Failed to fetch clinic templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Session times and slot length stay fixed once created so booked slots remain valid;
+  // a changed session is retired and added again
+  const handleChange = async (id: number, changes: Pick<Partial<ClinicTemplate>, 'capacity' | 'is_active'>) => {
+    try {
+      const { error } = await supabase
+        .from('clinic_templates')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setTemplates((current) => current.map((template) => (template.id === id ? { ...template, ...changes } : template)));
+    } catch (error) {
+      console.error('Error updating clinic template:', error);
+      toast.error('Failed to update clinic template');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newTemplate.end_time <= newTemplate.start_time) {
+      toast.error('The session must end after it starts');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('clinic_templates')
+        .insert([{ ...newTemplate, name: newTemplate.name.trim() }])
+        .select();
+
+      if (error) throw error;
+
+      setTemplates([...templates, data[0]]);
+      setNewTemplate({ ...EMPTY_TEMPLATE, specialty: newTemplate.specialty });
+      toast.success('Clinic session added successfully');
+    } catch (error) {
+      console.error('Error adding clinic template:', error);
+      toast.error('Failed to add clinic session');
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Clinic Sessions</h1>
+
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
+          {templates.length === 0 ? (
+            <p className="px-4 py-5 sm:px-6 text-sm text-gray-500">No clinic sessions have been set up yet.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Specialty</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Clinic</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Session</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slots</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Per Slot</th>
+                  <th scope="col" className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {templates.map((template) => (
+                  <tr key={template.id} className={template.is_active ? '' : 'text-gray-400'}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">{template.specialty}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${template.is_active ? 'text-gray-900' : 'line-through'}`}>
+                      {template.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {WEEKDAYS[template.weekday]} {formatTime(template.start_time)}–{formatTime(template.end_time)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">{template.slot_minutes} min</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <input
+                        type="number"
+                        min={1}
+                        max={50}
+                        aria-label={`${template.name} patients per slot`}
+                        className="w-20 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm border-gray-300 rounded-md"
+                        defaultValue={template.capacity}
+                        onBlur={(e) => {
+                          const capacity = parseInt(e.target.value, 10);
+                          if (capacity >= 1 && capacity <= 50 && capacity !== template.capacity) {
+                            handleChange(template.id, { capacity });
+                          }
+                        }}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => handleChange(template.id, { is_active: !template.is_active })}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        {template.is_active ? 'Retire' : 'Reinstate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <CalendarDays className="h-5 w-5 mr-2 text-indigo-500" />
+            Add Clinic Session
+          </h2>
+          <form onSubmit={handleAdd} className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div className="sm:col-span-2">
+              <label htmlFor="clinicSpecialty" className="block text-sm font-medium text-gray-700">Specialty</label>
+              <select
+                id="clinicSpecialty"
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                value={newTemplate.specialty}
+                onChange={(e) => setNewTemplate({ ...newTemplate, specialty: e.target.value })}
+                required
+              >
+                <option value="">Select specialty</option>
+                {specialties.map((specialty) => (
+                  <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="clinicName" className="block text-sm font-medium text-gray-700">Clinic Name</label>
+              <input
+                type="text"
+                id="clinicName"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                placeholder="e.g. Headache clinic"
+                value={newTemplate.name}
+                onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="clinicWeekday" className="block text-sm font-medium text-gray-700">Day</label>
+              <select
+                id="clinicWeekday"
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                value={newTemplate.weekday}
+                onChange={(e) => setNewTemplate({ ...newTemplate, weekday: parseInt(e.target.value, 10) })}
+              >
+                {WEEKDAYS.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="clinicStart" className="block text-sm font-medium text-gray-700">Starts</label>
+              <input
+                type="time"
+                id="clinicStart"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={newTemplate.start_time}
+                onChange={(e) => setNewTemplate({ ...newTemplate, start_time: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="clinicEnd" className="block text-sm font-medium text-gray-700">Ends</label>
+              <input
+                type="time"
+                id="clinicEnd"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={newTemplate.end_time}
+                onChange={(e) => setNewTemplate({ ...newTemplate, end_time: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="clinicSlotMinutes" className="block text-sm font-medium text-gray-700">Slot (min)</label>
+                <input
+                  type="number"
+                  id="clinicSlotMinutes"
+                  min={5}
+                  max={240}
+                  step={5}
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={newTemplate.slot_minutes}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, slot_minutes: parseInt(e.target.value, 10) || 0 })}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="clinicCapacity" className="block text-sm font-medium text-gray-700">Per slot</label>
+                <input
+                  type="number"
+                  id="clinicCapacity"
+                  min={1}
+                  max={50}
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={newTemplate.capacity}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, capacity: parseInt(e.target.value, 10) || 0 })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="sm:col-span-4">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add Session
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClinicTemplatesPage;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClipboardCheck, CheckCircle, Circle, Save } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import {
+  ConsultationWorkflow,
+  ConsultationReply,
+  CONSULTATION_STATES,
+  CONSULTATION_STATE_LABELS,
+  CONSULTATION_ACTION_LABELS,
+  REPLY_FIELDS,
+  nextConsultationState,
+  stateTimestamp,
+  fetchConsultationWorkflow,
+  advanceConsultation,
+} from '../consultations';
+
+interface ConsultationWorkflowPanelProps {
+  consultationId: string;
+  onChanged: () => void;
+}
+
+const emptyReply: ConsultationReply = { impression: '', recommendations: '', follow_up: '' };
+
+const ConsultationWorkflowPanel: React.FC<ConsultationWorkflowPanelProps> = ({ consultationId, onChanged }) => {
+  const { user } = useSession();
+  const canRespond = hasPermission(user, 'respond_consultations');
+  const [consultation, setConsultation] = useState<ConsultationWorkflow | null>(null);
+  const [reply, setReply] = useState<ConsultationReply>(emptyReply);
+  const [showReplyForm, setShowReplyForm] = useState(false);
+
+  const loadConsultation = useCallback(async () => {
+    try {
+      const data = await fetchConsultationWorkflow(consultationId);
+      setConsultation(data);
+      setReply({ ...emptyReply, ...data.reply });
+    } catch (error) {
+      console.error('Error fetching consultation workflow:', error);
+      toast.error('Failed to fetch consultation progress');
+    }
+  }, [consultationId]);
+
+  useEffect(() => {
+    loadConsultation();
+  }, [loadConsultation]);
+
+  if (!consultation) return null;
+
+  const nextState = nextConsultationState(consultation.workflow_state);
+
+  const handleAdvance = async () => {
+    if (!nextState || nextState === 'requested') return;
+
+    if (nextState === 'recommended') {
+      setShowReplyForm(true);
+      return;
+    }
+
+    try {
+      await advanceConsultation(consultationId, nextState);
+      toast.success(`Consultation ${CONSULTATION_STATE_LABELS[nextState].toLowerCase()}`);
+      loadConsultation();
+      onChanged();
+    } catch (error) {
+      console.error('Error advancing consultation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update consultation');
+    }
+  };
+
+  const handleSaveReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await advanceConsultation(consultationId, 'recommended', {
+        impression: reply.impression.trim(),
+        recommendations: reply.recommendations.trim(),
+        follow_up: reply.follow_up.trim(),
+      });
+      toast.success('Recommendations saved');
+      setShowReplyForm(false);
+      loadConsultation();
+      onChanged();
+    } catch (error) {
+      console.error('Error saving recommendations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save recommendations');
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <ClipboardCheck className="h-5 w-5 mr-2 text-indigo-500" />
+          Consultation Progress
+        </h3>
+        {canRespond && nextState && !showReplyForm && (
+          <div className="flex space-x-2">
+            {consultation.workflow_state === 'recommended' && (
+              <button
+                onClick={() => setShowReplyForm(true)}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Revise Recommendations
+              </button>
+            )}
+            <button
+              onClick={handleAdvance}
+              className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+            >
+              {CONSULTATION_ACTION_LABELS[consultation.workflow_state as keyof typeof CONSULTATION_ACTION_LABELS]}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ol className="bg-white shadow sm:rounded-lg divide-y divide-gray-200">
+        {CONSULTATION_STATES.map((state) => {
+          const { at, by } = stateTimestamp(consultation, state);
+
+          return (
+            <li key={state} className="px-4 py-3 flex items-center text-sm">
+              {at ? (
+                <CheckCircle className="h-5 w-5 mr-3 text-green-500" />
+              ) : (
+                <Circle className="h-5 w-5 mr-3 text-gray-300" />
+              )}
+              <span className={at ? 'text-gray-900 font-medium' : 'text-gray-400'}>{CONSULTATION_STATE_LABELS[state]}</span>
+              {at && (
+                <span className="ml-auto text-xs text-gray-500">
+                  {new Date(at).toLocaleString()}
+                  {by && ` · ${by}`}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {showReplyForm ? (
+        <form onSubmit={handleSaveReply} className="mt-4 bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 space-y-4">
+          {REPLY_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label htmlFor={`reply-${field.key}`} className="block text-sm font-medium text-gray-700">
+                {field.label}{field.required && ' *'}
+              </label>
+              <textarea
+                id={`reply-${field.key}`}
+                rows={field.key === 'recommendations' ? 4 : 2}
+                className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={reply[field.key]}
+                onChange={(e) => setReply({ ...reply, [field.key]: e.target.value })}
+                required={field.required}
+              />
+            </div>
+          ))}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowReplyForm(false);
+                setReply({ ...emptyReply, ...consultation.reply });
+              }}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Save className="h-5 w-5 mr-2" />
+              Save Recommendations
+            </button>
+          </div>
+        </form>
+      ) : (
+        consultation.reply && (
+          <dl className="mt-4 bg-white shadow sm:rounded-lg divide-y divide-gray-200">
+            {REPLY_FIELDS.filter((field) => consultation.reply?.[field.key]).map((field) => (
+              <div key={field.key} className="px-4 py-3 sm:grid sm:grid-cols-3 sm:gap-4">
+                <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2 whitespace-pre-wrap">{consultation.reply?.[field.key]}</dd>
+              </div>
+            ))}
+          </dl>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ConsultationWorkflowPanel;
@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Calendar, Filter, Download, Plus, FileText } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { useSpecialties } from '../specialties';
+import { formatTime } from '../clinics';
+import { AppointmentStatus, APPOINTMENT_STATUS_LABELS } from '../appointments';
+import AppointmentStatusSelect from './AppointmentStatusSelect';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import { Document, Page, Text, View, StyleSheet, PDFDownloadLink } from '@react-pdf/renderer';
@@ -33,28 +38,17 @@ interface DailyReport {
 }
 
 interface Appointment {
-  appointment_id: string;
+  appointment_id: number;
   patient_name: string;
   patient_medical_number: string;
   clinic_specialty: string;
   appointment_type: 'Urgent' | 'Regular';
+  appointment_date: string | null;
+  appointment_time: string | null;
+  status: AppointmentStatus;
   created_at: string;
 }
 
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
-
 // Define styles for PDF
 const styles = StyleSheet.create({
   page: { padding: 30 },
@@ -84,7 +78,7 @@ const MyDocument: React.FC<{ patients: (Patient | Consultation)[], appointments:
           <View style={styles.tableCol}><Text style={styles.tableCell}>Diagnosis/Department</Text></View>
         </View>
         {patients.map((patient) => (
-          <View style={styles.tableRow} key={patient.mrn}>
+          <View style={styles.tableRow} key={`${patient.mrn}-${(patient as Patient).admission_date}`}>
             <View style={styles.tableCol}><Text style={styles.tableCell}>{patient.mrn}</Text></View>
             <View style={styles.tableCol}><Text style={styles.tableCell}>{patient.patient_name}</Text></View>
             <View style={styles.tableCol}><Text style={styles.tableCell}>{(patient as Patient).specialty || (patient as Consultation).consultation_specialty}</Text></View>
@@ -101,6 +95,7 @@ const MyDocument: React.FC<{ patients: (Patient | Consultation)[], appointments:
           <View style={styles.tableCol}><Text style={styles.tableCell}>Medical Number</Text></View>
           <View style={styles.tableCol}><Text style={styles.tableCell}>Specialty</Text></View>
           <View style={styles.tableCol}><Text style={styles.tableCell}>Type</Text></View>
+          <View style={styles.tableCol}><Text style={styles.tableCell}>Status</Text></View>
 
         </View>
         {appointments.map((appointment) => (
@@ -109,6 +104,7 @@ const MyDocument: React.FC<{ patients: (Patient | Consultation)[], appointments:
             <View style={styles.tableCol}><Text style={styles.tableCell}>{appointment.patient_medical_number}</Text></View>
             <View style={styles.tableCol}><Text style={styles.tableCell}>{appointment.clinic_specialty}</Text></View>
             <View style={styles.tableCol}><Text style={styles.tableCell}>{appointment.appointment_type}</Text></View>
+            <View style={styles.tableCol}><Text style={styles.tableCell}>{APPOINTMENT_STATUS_LABELS[appointment.status]}</Text></View>
 
           </View>
         ))}
@@ -118,6 +114,7 @@ const MyDocument: React.FC<{ patients: (Patient | Consultation)[], appointments:
 );
 
 const DailyReportManagement: React.FC = () => {
+  const { specialties } = useSpecialties(false);
   const [patients, setPatients] = useState<(Patient | Consultation)[]>([]);
   const [filteredPatients, setFilteredPatients] = useState<(Patient | Consultation)[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
@@ -199,6 +196,9 @@ const DailyReportManagement: React.FC = () => {
       const { data, error } = await supabase
         .from('clinic_appointments')
         .select('*')
+        .is('archived_at', null)
+        .order('appointment_date', { ascending: true, nullsFirst: false })
+        .order('appointment_time', { ascending: true })
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -273,7 +273,12 @@ const DailyReportManagement: React.FC = () => {
 
   const renderAppointments = () => (
     <div className="mt-8">
-      <h2 className="text-xl font-semibold mb-4">Clinic Appointments</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Clinic Appointments</h2>
+        <Link to="/appointments" className="text-sm font-medium text-indigo-600 hover:text-indigo-900">
+          Search, reschedule or cancel
+        </Link>
+      </div>
       {appointments.length > 0 ? (
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -283,7 +288,8 @@ const DailyReportManagement: React.FC = () => {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Medical Number</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Specialty</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created At</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slot</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -299,7 +305,20 @@ const DailyReportManagement: React.FC = () => {
                       {appointment.appointment_type}
                     </span>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(appointment.created_at).toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {appointment.appointment_date && appointment.appointment_time
+                      ? `${appointment.appointment_date} ${formatTime(appointment.appointment_time)}`
+                      : `Booked ${new Date(appointment.created_at).toLocaleString()}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <AppointmentStatusSelect
+                      appointmentId={appointment.appointment_id}
+                      status={appointment.status}
+                      onChanged={(status) => setAppointments((current) => current.map((other) => (
+                        other.appointment_id === appointment.appointment_id ? { ...other, status } : other
+                      )))}
+                    />
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -334,8 +353,8 @@ const DailyReportManagement: React.FC = () => {
             className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm border-gray-300 rounded-md"
           >
             <option value="">All Specialties</option>
-            {specialtiesList.map((specialty) => (
-              <option key={specialty} value={specialty}>{specialty}</option>
+            {specialties.map((specialty) => (
+              <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
             ))}
           </select>
         </div>
@@ -360,7 +379,7 @@ const DailyReportManagement: React.FC = () => {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {filteredPatients.map((patient) => (
-                    <tr key={patient.mrn}>
+                    <tr key={`${patient.mrn}-${(patient as Patient).admission_date}`}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{patient.mrn}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.patient_name}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{(patient as Patient).specialty || (patient as Consultation).consultation_specialty}</td>
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarCheck, Save } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { fetchSetting, DEFAULT_DISCHARGE_CHECKLIST, DischargeChecklistItem } from '../settings';
+import {
+  ChecklistTick,
+  readiness,
+  fetchChecklistTicks,
+  tickChecklistItem,
+  untickChecklistItem,
+  setExpectedDischargeDate,
+} from '../dischargePlanning';
+
+interface DischargePlanningPanelProps {
+  admissionId: string;
+  admissionDate: string;
+  expectedDischargeDate: string | null;
+  onChanged: () => void;
+}
+
+const DischargePlanningPanel: React.FC<DischargePlanningPanelProps> = ({ admissionId, admissionDate, expectedDischargeDate, onChanged }) => {
+  const { user } = useSession();
+  const canPlan = hasPermission(user, 'plan_discharges');
+  const [items, setItems] = useState<DischargeChecklistItem[]>([]);
+  const [ticks, setTicks] = useState<ChecklistTick[]>([]);
+  const [expectedDate, setExpectedDate] = useState(expectedDischargeDate || '');
+
+  const loadChecklist = useCallback(async () => {
+    try {
+      const [checklist, ticksData] = await Promise.all([
+        fetchSetting('discharge_checklist', DEFAULT_DISCHARGE_CHECKLIST),
+        fetchChecklistTicks([admissionId]),
+      ]);
+      setItems(checklist.items);
+      setTicks(ticksData);
+    } catch (error) {
+      console.error('Error fetching discharge checklist:', error);
+      toast.error('Failed to fetch discharge checklist');
+    }
+  }, [admissionId]);
+
+  useEffect(() => {
+    loadChecklist();
+  }, [loadChecklist]);
+
+  useEffect(() => {
+    setExpectedDate(expectedDischargeDate || '');
+  }, [expectedDischargeDate]);
+
+  const handleSaveExpectedDate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (expectedDate && expectedDate < admissionDate) {
+      toast.error('Expected discharge cannot be before the admission date');
+      return;
+    }
+
+    try {
+      await setExpectedDischargeDate(admissionId, expectedDate || null);
+      toast.success(expectedDate ? 'Expected discharge date saved' : 'Expected discharge date cleared');
+      onChanged();
+    } catch (error) {
+      console.error('Error saving expected discharge date:', error);
+      toast.error('Failed to save expected discharge date');
+    }
+  };
+
+  const handleToggle = async (item: DischargeChecklistItem) => {
+    const tick = ticks.find((existing) => existing.item_key === item.key);
+
+    try {
+      if (tick) {
+        await untickChecklistItem(tick.id);
+        setTicks(ticks.filter((existing) => existing.id !== tick.id));
+      } else {
+        const added = await tickChecklistItem(admissionId, item.key);
+        setTicks([...ticks, added]);
+      }
+    } catch (error) {
+      console.error('Error updating discharge checklist:', error);
+      toast.error('Failed to update discharge checklist');
+    }
+  };
+
+  const { done, total } = readiness(items, ticks);
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <CalendarCheck className="h-5 w-5 mr-2 text-indigo-500" />
+          Discharge Planning
+        </h3>
+        {total > 0 && (
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${done === total ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+            {done === total ? 'Ready for discharge' : `${done} of ${total} ready`}
+          </span>
+        )}
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 space-y-6">
+        <form onSubmit={handleSaveExpectedDate} className="flex flex-wrap items-end gap-2">
+          <div>
+            <label htmlFor="expectedDischargeDate" className="block text-sm font-medium text-gray-700">
+              Expected Discharge Date
+            </label>
+            <input
+              type="date"
+              id="expectedDischargeDate"
+              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block sm:text-sm border-gray-300 rounded-md"
+              min={admissionDate}
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+              disabled={!canPlan}
+            />
+          </div>
+          {canPlan && expectedDate !== (expectedDischargeDate || '') && (
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Save className="h-5 w-5 mr-2" />
+              Save
+            </button>
+          )}
+        </form>
+
+        <ul className="space-y-2">
+          {items.map((item) => {
+            const tick = ticks.find((existing) => existing.item_key === item.key);
+
+            return (
+              <li key={item.key} className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  id={`checklist-${item.key}`}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  checked={!!tick}
+                  onChange={() => handleToggle(item)}
+                  disabled={!canPlan}
+                />
+                <label htmlFor={`checklist-${item.key}`} className={`ml-2 ${tick ? 'text-gray-900' : 'text-gray-600'}`}>
+                  {item.label}
+                </label>
+                {tick && (
+                  <span className="ml-auto text-xs text-gray-500">
+                    {tick.completed_by_name && `${tick.completed_by_name} · `}
+                    {new Date(tick.completed_at).toLocaleString()}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default DischargePlanningPanel;
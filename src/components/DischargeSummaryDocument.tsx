@@ -0,0 +1,67 @@
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
+import { DischargeAdmission, DischargeSummary, SUMMARY_FIELDS } from '../dischargeSummaries';
+import { DISPOSITION_LABELS } from '../dispositions';
+
+interface DischargeSummaryDocumentProps {
+  admission: DischargeAdmission;
+  summary: DischargeSummary;
+}
+
+const styles = StyleSheet.create({
+  page: { padding: 40, fontSize: 11 },
+  title: { fontSize: 20, marginBottom: 4, textAlign: 'center' },
+  draft: { fontSize: 12, marginBottom: 12, textAlign: 'center', color: '#b91c1c' },
+  header: { flexDirection: 'row', flexWrap: 'wrap', borderStyle: 'solid', borderWidth: 1, padding: 8, marginTop: 12, marginBottom: 16 },
+  headerItem: { width: '50%', marginBottom: 4 },
+  label: { color: '#6b7280' },
+  section: { marginBottom: 12 },
+  sectionTitle: { fontSize: 13, marginBottom: 4, borderBottomWidth: 1, borderBottomStyle: 'solid', paddingBottom: 2 },
+  sectionText: { lineHeight: 1.4 },
+  signature: { marginTop: 24, paddingTop: 8, borderTopWidth: 1, borderTopStyle: 'solid' }
+});
+
+const DischargeSummaryDocument: React.FC<DischargeSummaryDocumentProps> = ({ admission, summary }) => (
+  <Document>
+    <Page size="A4" style={styles.page}>
+      <Text style={styles.title}>Discharge Summary</Text>
+      {summary.status !== 'signed' && <Text style={styles.draft}>DRAFT - not signed</Text>}
+
+      <View style={styles.header}>
+        <Text style={styles.headerItem}><Text style={styles.label}>Patient: </Text>{admission.patient_name}</Text>
+        <Text style={styles.headerItem}><Text style={styles.label}>MRN: </Text>{admission.mrn}</Text>
+        <Text style={styles.headerItem}><Text style={styles.label}>Age / Gender: </Text>{admission.age} / {admission.gender}</Text>
+        <Text style={styles.headerItem}><Text style={styles.label}>Specialty: </Text>{admission.specialty}</Text>
+        <Text style={styles.headerItem}><Text style={styles.label}>Admitted: </Text>{admission.admission_date}</Text>
+        <Text style={styles.headerItem}><Text style={styles.label}>Discharged: </Text>{admission.discharge_date || 'Not yet discharged'}</Text>
+        {admission.discharge_disposition && (
+          <Text style={styles.headerItem}>
+            <Text style={styles.label}>Disposition: </Text>
+            {DISPOSITION_LABELS[admission.discharge_disposition]}
+            {admission.discharge_destination && ` (${admission.discharge_destination})`}
+          </Text>
+        )}
+        {admission.assigned_doctor && (
+          <Text style={styles.headerItem}><Text style={styles.label}>Attending: </Text>{admission.assigned_doctor}</Text>
+        )}
+      </View>
+
+      {SUMMARY_FIELDS.map((field) => (
+        <View style={styles.section} key={field.key}>
+          <Text style={styles.sectionTitle}>{field.label}</Text>
+          <Text style={styles.sectionText}>{summary[field.key].trim() || 'None'}</Text>
+        </View>
+      ))}
+
+      <View style={styles.signature}>
+        {summary.status === 'signed' && summary.signed_at ? (
+          <Text>Signed by {summary.signed_by_name} on {new Date(summary.signed_at).toLocaleString()}</Text>
+        ) : (
+          <Text>Prepared by {summary.created_by_name || 'unknown'} - awaiting sign-off</Text>
+        )}
+      </View>
+    </Page>
+  </Document>
+);
+
+export default DischargeSummaryDocument;
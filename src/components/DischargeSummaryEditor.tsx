@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PDFDownloadLink } from '@react-pdf/renderer';
+import { FileText, Save, PenTool, RefreshCw, Download } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import {
+  DischargeAdmission,
+  DischargeSummary,
+  DischargeSummaryContent,
+  EMPTY_SUMMARY,
+  SUMMARY_FIELDS,
+  toSummaryContent,
+  fetchDischargeAdmission,
+  fetchDischargeSummary,
+  prefillDischargeSummary,
+  saveDischargeSummary,
+  signDischargeSummary,
+} from '../dischargeSummaries';
+import DischargeSummaryDocument from './DischargeSummaryDocument';
+
+interface DischargeSummaryEditorProps {
+  admissionId: string;
+}
+
+const DischargeSummaryEditor: React.FC<DischargeSummaryEditorProps> = ({ admissionId }) => {
+  const { user } = useSession();
+  const [admission, setAdmission] = useState<DischargeAdmission | null>(null);
+  const [summary, setSummary] = useState<DischargeSummary | null>(null);
+  const [content, setContent] = useState<DischargeSummaryContent>(EMPTY_SUMMARY);
+  const [saving, setSaving] = useState(false);
+
+  const isSigned = summary?.status === 'signed';
+  const canEdit = hasPermission(user, 'discharge_patients') && !isSigned;
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const [admissionData, summaryData] = await Promise.all([
+        fetchDischargeAdmission(admissionId),
+        fetchDischargeSummary(admissionId),
+      ]);
+
+      setAdmission(admissionData);
+      setSummary(summaryData);
+      setContent(summaryData ? toSummaryContent(summaryData) : await prefillDischargeSummary(admissionData));
+    } catch (error) {
+      console.error('Error fetching discharge summary:', error);
+      toast.error('Failed to fetch discharge summary');
+    }
+  }, [admissionId]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  if (!admission) return null;
+
+  const handlePrefill = async () => {
+    try {
+      setContent(await prefillDischargeSummary(admission));
+    } catch (error) {
+      console.error('Error pre-filling discharge summary:', error);
+      toast.error('Failed to pre-fill discharge summary');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      setSummary(await saveDischargeSummary(admissionId, summary?.id ?? null, content));
+      toast.success('Discharge summary saved');
+    } catch (error) {
+      console.error('Error saving discharge summary:', error);
+      toast.error('Failed to save discharge summary');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!content.diagnoses.trim()) {
+      toast.error('Diagnoses are required before signing');
+      return;
+    }
+
+    if (!window.confirm('Sign this discharge summary? It cannot be changed afterwards.')) return;
+
+    setSaving(true);
+
+    try {
+      const saved = summary ?? await saveDischargeSummary(admissionId, null, content);
+      setSummary(await signDischargeSummary(saved.id, content));
+      toast.success('Discharge summary signed');
+    } catch (error) {
+      console.error('Error signing discharge summary:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sign discharge summary');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <FileText className="h-5 w-5 mr-2 text-indigo-500" />
+          Discharge Summary
+        </h3>
+        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${isSigned ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+          {isSigned ? 'Signed' : summary ? 'Draft' : 'Not started'}
+        </span>
+      </div>
+
+      {canEdit ? (
+        <form onSubmit={handleSave} className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 space-y-4">
+          {SUMMARY_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label htmlFor={`summary-${field.key}`} className="block text-sm font-medium text-gray-700">
+                {field.label}{field.required && ' *'}
+              </label>
+              <textarea
+                id={`summary-${field.key}`}
+                rows={field.rows}
+                className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={content[field.key]}
+                onChange={(e) => setContent({ ...content, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={handlePrefill}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <RefreshCw className="h-5 w-5 mr-2" />
+              Pre-fill from Record
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Save className="h-5 w-5 mr-2" />
+              Save Draft
+            </button>
+            <button
+              type="button"
+              onClick={handleSign}
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <PenTool className="h-5 w-5 mr-2" />
+              Sign Summary
+            </button>
+          </div>
+        </form>
+      ) : summary ? (
+        <dl className="bg-white shadow sm:rounded-lg divide-y divide-gray-200">
+          {SUMMARY_FIELDS.filter((field) => summary[field.key].trim()).map((field) => (
+            <div key={field.key} className="px-4 py-3 sm:grid sm:grid-cols-3 sm:gap-4">
+              <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+              <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2 whitespace-pre-wrap">{summary[field.key]}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-sm text-gray-500">No discharge summary has been written for this admission.</p>
+      )}
+
+      {summary && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-gray-500">
+            {isSigned && summary.signed_at
+              ? `Signed by ${summary.signed_by_name} on ${new Date(summary.signed_at).toLocaleString()}`
+              : `Last saved ${new Date(summary.updated_at).toLocaleString()}${summary.created_by_name ? ` · started by ${summary.created_by_name}` : ''}`}
+          </p>
+          <PDFDownloadLink
+            document={<DischargeSummaryDocument admission={admission} summary={summary} />}
+            fileName={`discharge_summary_${admission.mrn}_${admission.discharge_date || admission.admission_date}.pdf`}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Download className="mr-2 h-5 w-5" />
+            Download PDF
+          </PDFDownloadLink>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DischargeSummaryEditor;
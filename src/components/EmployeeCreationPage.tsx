@@ -1,47 +1,40 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { UserPlus, User } from 'lucide-react';
+import { UserPlus, User, Mail } from 'lucide-react';
 import { supabase } from '../supabaseClient';
 import { toast } from 'react-toastify';
+import { Role, ROLES } from '../permissions';
 
-interface User {
-  id: string;
-  employeeCode: string;
-  isAdmin: boolean;
-  name: string;
-}
-
-interface EmployeeCreationPageProps {
-  user: User;
-}
-
-const EmployeeCreationPage: React.FC<EmployeeCreationPageProps> = ({ user }) => {
+const EmployeeCreationPage: React.FC = () => {
   const [employeeName, setEmployeeName] = useState('');
   const [employeeCode, setEmployeeCode] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('resident');
   const [loading, setLoading] = useState(false);
-  const navigate = useNavigate();
 
   const handleCreateEmployee = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('users')
         .insert([
           {
             employee_name: employeeName,
             employee_code: employeeCode,
-            role: 'authenticated_user', // Set role to authenticated_user by default
+            email: email.trim().toLowerCase(),
+            role,
           },
         ])
         .select();
 
       if (error) throw error;
 
-      toast.success('Employee created successfully with authenticated_user role.');
+      toast.success('Employee created. They can now sign in with a one-time code sent to their email.');
       setEmployeeName('');
       setEmployeeCode('');
+      setEmail('');
+      setRole('resident');
     } catch (error) {
       console.error('Error creating employee:', error);
       toast.error('Failed to create employee. Please try again.');
@@ -50,11 +43,6 @@ const EmployeeCreationPage: React.FC<EmployeeCreationPageProps> = ({ user }) =>
     }
   };
 
-  if (!user.isAdmin) {
-    navigate('/dashboard');
-    return null;
-  }
-
   return (
     <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
       <div className="px-4 py-6 sm:px-0">
@@ -99,6 +87,43 @@ const EmployeeCreationPage: React.FC<EmployeeCreationPageProps> = ({ user }) =>
                 />
               </div>
             </div>
+            <div className="mb-4">
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Sign-in Email
+              </label>
+              <div className="mt-1 relative rounded-md shadow-sm">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Mail className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="email"
+                  id="email"
+                  className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+                  placeholder="Enter work email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                One-time sign-in codes are sent here. The employee can set a password after their first sign-in.
+              </p>
+            </div>
+            <div className="mb-4">
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                Role
+              </label>
+              <select
+                id="role"
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                value={role}
+                onChange={(e) => setRole(e.target.value as Role)}
+              >
+                {ROLES.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
             <div>
               <button
                 type="submit"
@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { History } from 'lucide-react';
+import { Encounter, fetchEncounters } from '../encounters';
+import ReadmissionBadge from './ReadmissionBadge';
+
+interface EncounterHistoryProps {
+  mrn: string;
+  // Admission or consultation id of the encounter already on screen
+  currentId?: string;
+}
+
+const encounterLink = (encounter: Encounter) =>
+  encounter.encounter_type === 'admission'
+    ? `/patient/${encounter.mrn}?admission=${encounter.admission_id}`
+    : `/patient/${encounter.mrn}?consultation=${encounter.consultation_id}`;
+
+const EncounterHistory: React.FC<EncounterHistoryProps> = ({ mrn, currentId }) => {
+  const [encounters, setEncounters] = useState<Encounter[]>([]);
+
+  useEffect(() => {
+    if (!mrn) return;
+
+    fetchEncounters(mrn)
+      .then(setEncounters)
+      .catch((error) => console.error('Error fetching encounters:', error));
+  }, [mrn]);
+
+  if (encounters.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium text-gray-900 flex items-center mb-2">
+        <History className="h-4 w-4 mr-1 text-indigo-500" />
+        Encounter History ({encounters.length})
+      </h4>
+      <ul className="bg-white border border-gray-200 rounded-md divide-y divide-gray-200">
+        {encounters.map((encounter) => {
+          const isCurrent = currentId !== undefined && (encounter.admission_id ?? encounter.consultation_id) === currentId;
+
+          return (
+            <li key={encounter.id} className={`px-4 py-2 text-sm flex items-center justify-between ${isCurrent ? 'bg-indigo-50' : ''}`}>
+              <div>
+                <Link to={encounterLink(encounter)} className="font-medium text-indigo-600 hover:text-indigo-900">
+                  {encounter.encounter_type === 'admission' ? 'Admission' : 'Consultation'} · {encounter.specialty}
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {new Date(encounter.started_at).toLocaleDateString()} –{' '}
+                  {encounter.ended_at ? new Date(encounter.ended_at).toLocaleDateString() : 'ongoing'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {encounter.is_readmission && <ReadmissionBadge />}
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                  encounter.status === 'Active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {encounter.status}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default EncounterHistory;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lock, LogOut, Mail } from 'lucide-react';
+import { signInWithPassword, sendOneTimeCode, verifyOneTimeCode } from '../auth';
+import { useCurrentUser, useSession, SESSION_STORAGE_PREFIX } from '../session';
+import { fetchSetting, DEFAULT_IDLE_TIMEOUT, IdleTimeoutSettings } from '../settings';
+
+const LOCKED_KEY = `${SESSION_STORAGE_PREFIX}locked`;
+const LAST_ACTIVITY_KEY = `${SESSION_STORAGE_PREFIX}last-activity`;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+const CHECK_INTERVAL_MS = 10 * 1000;
+
+const isLockedStored = () => sessionStorage.getItem(LOCKED_KEY) === 'true';
+
+const recordActivity = () => {
+  sessionStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+};
+
+// Locks the screen after a period of inactivity and signs out after a longer one.
+// The lock screen is an overlay, so the page underneath keeps its form state.
+const IdleLock: React.FC = () => {
+  const user = useCurrentUser();
+  const { signOut } = useSession();
+  const [settings, setSettings] = useState<IdleTimeoutSettings>(DEFAULT_IDLE_TIMEOUT);
+  const [locked, setLocked] = useState(isLockedStored);
+  const [method, setMethod] = useState<'password' | 'code'>('password');
+  const [password, setPassword] = useState('');
+  const [oneTimeCode, setOneTimeCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchSetting('idle_timeout', DEFAULT_IDLE_TIMEOUT)
+      .then(setSettings)
+      .catch((error) => console.error('Error fetching idle timeout settings:', error));
+  }, []);
+
+  const lock = useCallback(() => {
+    sessionStorage.setItem(LOCKED_KEY, 'true');
+    setLocked(true);
+  }, []);
+
+  useEffect(() => {
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      // Activity on the lock screen itself does not keep the session alive
+      if (isLockedStored() || Date.now() - lastRecorded < 1000) return;
+      lastRecorded = Date.now();
+      recordActivity();
+    };
+
+    if (!isLockedStored() && !sessionStorage.getItem(LAST_ACTIVITY_KEY)) {
+      recordActivity();
+    }
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const checkIdle = () => {
+      const lastActivity = Number(sessionStorage.getItem(LAST_ACTIVITY_KEY) || Date.now());
+      const idleMinutes = (Date.now() - lastActivity) / 60000;
+
+      if (idleMinutes >= settings.sign_out_after_minutes) {
+        signOut();
+      } else if (idleMinutes >= settings.lock_after_minutes && !isLockedStored()) {
+        lock();
+      }
+    };
+
+    checkIdle();
+    const interval = window.setInterval(checkIdle, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      window.clearInterval(interval);
+    };
+  }, [settings, signOut, lock]);
+
+  const unlock = () => {
+    sessionStorage.removeItem(LOCKED_KEY);
+    recordActivity();
+    setLocked(false);
+    setPassword('');
+    setOneTimeCode('');
+    setCodeSent(false);
+    setError('');
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+
+    try {
+      if (method === 'code' && !codeSent) {
+        await sendOneTimeCode(user.employeeCode);
+        setCodeSent(true);
+        return;
+      }
+
+      const reauthenticated = method === 'password'
+        ? await signInWithPassword(user.employeeCode, password)
+        : await verifyOneTimeCode(user.employeeCode, oneTimeCode);
+
+      if (reauthenticated.id !== user.id) {
+        await signOut();
+        return;
+      }
+
+      unlock();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to unlock.');
+      console.error('Error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!locked) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-90 px-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-xl p-6">
+        <div className="flex items-center mb-4">
+          <Lock className="h-6 w-6 text-indigo-600 mr-2" />
+          <h2 className="text-xl font-semibold text-gray-900">Workstation Locked</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Locked after {settings.lock_after_minutes} minutes of inactivity. Sign in again as{' '}
+          <span className="font-medium text-gray-900">{user.name}</span> ({user.employeeCode}) to continue where you left off.
+        </p>
+        <form onSubmit={handleUnlock} className="space-y-4">
+          {method === 'password' ? (
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              autoFocus
+              className="appearance-none block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          ) : codeSent && (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              autoFocus
+              className="appearance-none block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              placeholder="6-digit code"
+              value={oneTimeCode}
+              onChange={(e) => setOneTimeCode(e.target.value)}
+            />
+          )}
+
+          {error && <div className="text-red-500 text-sm">{error}</div>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex justify-center items-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {method === 'code' && !codeSent ? (
+              <>
+                <Mail className="h-5 w-5 mr-2" />
+                Send sign-in code
+              </>
+            ) : (
+              <>
+                <Lock className="h-5 w-5 mr-2" />
+                Unlock
+              </>
+            )}
+          </button>
+        </form>
+        <div className="mt-4 flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setMethod(method === 'password' ? 'code' : 'password');
+              setCodeSent(false);
+              setError('');
+            }}
+            className="text-indigo-600 hover:text-indigo-800"
+          >
+            {method === 'password' ? 'Use a one-time code instead' : 'Use password instead'}
+          </button>
+          <button
+            type="button"
+            onClick={signOut}
+            className="flex items-center text-gray-600 hover:text-red-600"
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdleLock;
@@ -1,55 +1,78 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { Lock, ArrowLeft } from 'lucide-react';
-import { supabase } from '../supabaseClient';
+import { useNavigate, useLocation, Link, Location, Navigate } from 'react-router-dom';
+import { Lock, ArrowLeft, Mail } from 'lucide-react';
+import { signInWithPassword, sendOneTimeCode, verifyOneTimeCode } from '../auth';
+import { useSession } from '../session';
 
-interface LoginProps {
-  setUser: (user: any) => void;
-}
-
-const Login: React.FC<LoginProps> = ({ setUser }) => {
+const Login: React.FC = () => {
+  const { user: currentUser, setUser } = useSession();
   const [employeeCode, setEmployeeCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [oneTimeCode, setOneTimeCode] = useState('');
+  const [method, setMethod] = useState<'password' | 'code'>('password');
+  const [codeSent, setCodeSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Route the user was sent away from by RequireAuth, if any
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/dashboard';
+
+  const handleMethodChange = (newMethod: 'password' | 'code') => {
+    setMethod(newMethod);
+    setCodeSent(false);
+    setPassword('');
+    setOneTimeCode('');
+    setError('');
+  };
+
+  const handleSendCode = async () => {
+    setError('');
+    setSubmitting(true);
+
+    try {
+      await sendOneTimeCode(employeeCode);
+      setCodeSent(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send a sign-in code.');
+      console.error('Error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
+    if (method === 'code' && !codeSent) {
+      await handleSendCode();
+      return;
+    }
+
+    setSubmitting(true);
+
     try {
-      // Check for employee code in users table
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('employee_code', employeeCode)
-        .single();
-
-      if (error) throw error;
-
-      if (data) {
-        // Successful login, set user with name included
-        setUser({
-          id: data.id,
-          employeeCode: data.employee_code,
-          isAdmin: data.role === 'admin',
-          name: data.employee_name,
-        });
-        
-        // Navigate based on user role
-        if (data.role === 'admin') {
-          navigate('/admin/dashboard');
-        } else {
-          navigate('/dashboard');
-        }
-      } else {
-        setError('Employee code not found. Please check and try again.');
-      }
+      const user = method === 'password'
+        ? await signInWithPassword(employeeCode, password)
+        : await verifyOneTimeCode(employeeCode, oneTimeCode);
+
+      setUser(user);
+      navigate(redirectTo, { replace: true });
     } catch (error) {
-      setError('Failed to log in. Please check your employee code.');
+      setError(error instanceof Error ? error.message : 'Failed to log in.');
       console.error('Error:', error);
+    } finally {
+      setSubmitting(false);
     }
   };
 
+  if (currentUser) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -64,8 +87,27 @@ const Login: React.FC<LoginProps> = ({ setUser }) => {
             className="mx-auto w-48 h-auto sm:w-64 md:w-80"
           />
         </div>
+        <div className="flex rounded-md shadow-sm">
+          <button
+            type="button"
+            onClick={() => handleMethodChange('password')}
+            className={`flex-1 py-2 px-4 text-sm font-medium rounded-l-md border ${
+              method === 'password' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            Password
+          </button>
+          <button
+            type="button"
+            onClick={() => handleMethodChange('code')}
+            className={`flex-1 py-2 px-4 text-sm font-medium rounded-r-md border ${
+              method === 'code' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            One-time code
+          </button>
+        </div>
         <form className="mt-8 space-y-6" onSubmit={handleLogin}>
-          <input type="hidden" name="remember" value="true" />
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="employee-code" className="sr-only">
@@ -76,14 +118,62 @@ const Login: React.FC<LoginProps> = ({ setUser }) => {
                 name="code"
                 type="text"
                 required
+                autoComplete="username"
+                disabled={method === 'code' && codeSent}
                 className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
                 placeholder="Employee Code"
                 value={employeeCode}
                 onChange={(e) => setEmployeeCode(e.target.value)}
               />
             </div>
+            {method === 'password' && (
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  autoComplete="current-password"
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            {method === 'code' && codeSent && (
+              <div>
+                <label htmlFor="one-time-code" className="sr-only">
+                  One-time Code
+                </label>
+                <input
+                  id="one-time-code"
+                  name="one-time-code"
+                  type="text"
+                  inputMode="numeric"
+                  required
+                  autoComplete="one-time-code"
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="6-digit code"
+                  value={oneTimeCode}
+                  onChange={(e) => setOneTimeCode(e.target.value)}
+                />
+              </div>
+            )}
           </div>
 
+          {method === 'code' && codeSent && (
+            <div className="text-sm text-gray-600">
+              If this employee code has a registered email, a sign-in code has been sent to it.{' '}
+              <button type="button" onClick={handleSendCode} className="text-indigo-600 hover:text-indigo-800">
+                Resend code
+              </button>
+            </div>
+          )}
+
           {error && (
             <div className="text-red-500 text-sm">{error}</div>
           )}
@@ -91,10 +181,20 @@ const Login: React.FC<LoginProps> = ({ setUser }) => {
           <div>
             <button
               type="submit"
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              disabled={submitting}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
             >
-              <Lock className="h-5 w-5 mr-2" />
-              Sign in
+              {method === 'code' && !codeSent ? (
+                <>
+                  <Mail className="h-5 w-5 mr-2" />
+                  Send sign-in code
+                </>
+              ) : (
+                <>
+                  <Lock className="h-5 w-5 mr-2" />
+                  Sign in
+                </>
+              )}
             </button>
           </div>
         </form>
@@ -1,43 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { Users, Activity, Clipboard, ArrowRight, User } from 'lucide-react';
+import { Users, Activity, Clipboard, ArrowRight, User, LogOut, AlertTriangle, ArrowRightLeft } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../supabaseClient';
+import { useSession, useCurrentUser } from '../session';
+import { hasPermission } from '../permissions';
+import { News2Score, isEscalated } from '../news2';
+import News2Badge from './News2Badge';
+import { fetchSpecialties } from '../specialties';
+import { PendingTransfer, fetchPendingTransfers } from '../transfers';
+import { ConsultationResponseTimes, fetchConsultationResponseTimes, formatMinutes } from '../consultations';
+import { DischargeOutcomes, fetchDischargeOutcomes, formatRate } from '../dispositions';
 
 interface SpecialtyStats {
   specialty: string;
+  colour: string;
   activePatients: number;
   totalPatients: number;
+  highestNews2: News2Score | null;
+  escalatedCount: number;
+  incomingTransfers: number;
+  averageStayDays: number | null;
+  consultResponse: ConsultationResponseTimes | null;
+  outcomes: DischargeOutcomes | null;
 }
 
-interface User {
-  id: string;
-  employeeCode: string;
-  isAdmin: boolean;
-  name: string;
-}
-
-interface MainDashboardProps {
-  user: User;
+interface EscalatedPatient {
+  mrn: string;
+  patient_name: string;
+  specialty: string;
+  score: News2Score;
 }
 
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
-
-const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
+const MainDashboard: React.FC = () => {
+  const user = useCurrentUser();
+  const { signOut } = useSession();
   const [totalPatients, setTotalPatients] = useState<number>(0);
   const [activePatients, setActivePatients] = useState<number>(0);
   const [specialtyStats, setSpecialtyStats] = useState<SpecialtyStats[]>([]);
+  const [escalatedPatients, setEscalatedPatients] = useState<EscalatedPatient[]>([]);
+  const [pendingTransfers, setPendingTransfers] = useState<PendingTransfer[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
 
   useEffect(() => {
@@ -78,8 +79,74 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
 
       setActivePatients((activePatientsCount || 0) + (activeConsultationsCount || 0));
 
+      // Latest NEWS2 score for every active patient
+      const { data: activeAdmissions, error: activeAdmissionsError } = await supabase
+        .from('patients')
+        .select('mrn, patient_name, specialty')
+        .eq('patient_status', 'Active');
+
+      const { data: activeConsultations, error: activeConsultationsListError } = await supabase
+        .from('consultations')
+        .select('mrn, patient_name, consultation_specialty')
+        .eq('status', 'Active');
+
+      if (activeAdmissionsError) throw activeAdmissionsError;
+      if (activeConsultationsListError) throw activeConsultationsListError;
+
+      const activeList = [
+        ...(activeAdmissions || []),
+        ...(activeConsultations || []).map((consultation) => ({
+          mrn: consultation.mrn,
+          patient_name: consultation.patient_name,
+          specialty: consultation.consultation_specialty,
+        })),
+      ];
+
+      const { data: news2Data, error: news2Error } = await supabase
+        .from('latest_news2_scores')
+        .select('*')
+        .in('mrn', activeList.map((patient) => patient.mrn));
+
+      if (news2Error) throw news2Error;
+
+      const news2ByMrn = new Map((news2Data || []).map((score: News2Score) => [score.mrn, score]));
+      const scoredPatients = activeList
+        .filter((patient) => news2ByMrn.has(patient.mrn))
+        .map((patient) => ({ ...patient, score: news2ByMrn.get(patient.mrn)! }));
+
+      // A patient with an admission and open consults is listed once, under the admitting team
+      setEscalatedPatients(
+        scoredPatients
+          .filter((patient, index) => scoredPatients.findIndex((other) => other.mrn === patient.mrn) === index)
+          .filter((patient) => isEscalated(patient.score.response_level))
+          .sort((a, b) => b.score.total_score - a.score.total_score)
+      );
+
+      // Transfers waiting for the receiving team to accept or reject
+      const transfers = await fetchPendingTransfers();
+      setPendingTransfers(transfers);
+
+      // Time spent under each team, including the part of a stay before a transfer
+      const { data: stayData, error: stayError } = await supabase
+        .from('specialty_length_of_stay')
+        .select('specialty, average_days');
+
+      if (stayError) throw stayError;
+
+      const averageStayBySpecialty = new Map((stayData || []).map((row) => [row.specialty, Number(row.average_days)]));
+
+      // How quickly each team answers the consultations sent to it
+      const responseTimes = await fetchConsultationResponseTimes();
+      const responseTimesBySpecialty = new Map(responseTimes.map((row) => [row.specialty, row]));
+
+      // Mortality and AMA rates over the last 30 days of discharges
+      const outcomesFrom = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const outcomes = await fetchDischargeOutcomes(outcomesFrom);
+      const outcomesBySpecialty = new Map(outcomes.map((row) => [row.specialty, row]));
+
       // Fetch specialty statistics
-      const specialtyStatsPromises = specialtiesList.map(async (specialty) => {
+      const specialties = await fetchSpecialties();
+      const specialtyStatsPromises = specialties.map(async ({ name: specialty, colour }) => {
         const { count: activePatientsCount, error: activePatientsError } = await supabase
           .from('patients')
           .select('*', { count: 'exact', head: true })
@@ -105,10 +172,24 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
         if (activePatientsError || activeConsultationsError || totalPatientsError || totalConsultationsError) 
           throw activePatientsError || activeConsultationsError || totalPatientsError || totalConsultationsError;
 
+        const specialtyScores = scoredPatients
+          .filter((patient) => patient.specialty === specialty)
+          .map((patient) => patient.score);
+
         return {
           specialty,
+          colour,
           activePatients: (activePatientsCount || 0) + (activeConsultationsCount || 0),
           totalPatients: (totalPatientsCount || 0) + (totalConsultationsCount || 0),
+          highestNews2: specialtyScores.reduce<News2Score | null>(
+            (highest, score) => (!highest || score.total_score > highest.total_score ? score : highest),
+            null
+          ),
+          escalatedCount: specialtyScores.filter((score) => isEscalated(score.response_level)).length,
+          incomingTransfers: transfers.filter((transfer) => transfer.to_specialty === specialty).length,
+          averageStayDays: averageStayBySpecialty.get(specialty) ?? null,
+          consultResponse: responseTimesBySpecialty.get(specialty) ?? null,
+          outcomes: outcomesBySpecialty.get(specialty) ?? null,
         };
       });
 
@@ -137,9 +218,59 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
               <p className="text-sm font-medium text-gray-900">{user.name}</p>
               <p className="text-xs text-gray-500">Code: {user.employeeCode}</p>
             </div>
+            <button
+              onClick={signOut}
+              className="ml-4 text-gray-500 hover:text-red-600"
+              title="Sign out"
+            >
+              <LogOut className="h-5 w-5" />
+            </button>
           </div>
         </div>
         
+        {escalatedPatients.length > 0 && (
+          <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4">
+            <h2 className="text-sm font-semibold text-red-800 flex items-center mb-2">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              {escalatedPatients.length} patient{escalatedPatients.length === 1 ? '' : 's'} need escalation
+            </h2>
+            <ul className="space-y-1">
+              {escalatedPatients.map((patient) => (
+                <li key={patient.mrn} className="flex items-center text-sm text-red-900">
+                  <News2Badge score={patient.score.total_score} responseLevel={patient.score.response_level} />
+                  <Link to={`/patient/${patient.mrn}`} className="ml-2 font-medium hover:underline">
+                    {patient.patient_name}
+                  </Link>
+                  <span className="ml-2 text-red-700">
+                    {patient.mrn} · {patient.specialty} · {patient.score.response_level} response
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {pendingTransfers.length > 0 && (
+          <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+            <h2 className="text-sm font-semibold text-yellow-800 flex items-center mb-2">
+              <ArrowRightLeft className="h-5 w-5 mr-2" />
+              {pendingTransfers.length} transfer{pendingTransfers.length === 1 ? '' : 's'} awaiting the receiving team
+            </h2>
+            <ul className="space-y-1">
+              {pendingTransfers.map((transfer) => (
+                <li key={transfer.id} className="text-sm text-yellow-900">
+                  <Link to={`/patient/${transfer.mrn}`} className="font-medium hover:underline">
+                    {transfer.persons?.patient_name || transfer.mrn}
+                  </Link>
+                  <span className="ml-2 text-yellow-700">
+                    {transfer.from_specialty} → {transfer.to_specialty} ({transfer.to_consultant})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
           <div className="bg-white overflow-hidden shadow rounded-lg">
             <div className="p-5">
@@ -187,34 +318,36 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
             </div>
           </div>
 
-          <div className="bg-white overflow-hidden shadow rounded-lg">
-            <div className="p-5">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <Clipboard className="h-6 w-6 text-gray-400" aria-hidden="true" />
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 truncate">Daily Report</dt>
-                    <dd className="text-lg font-semibold text-gray-900">Generate Report</dd>
-                  </dl>
+          {hasPermission(user, 'view_reports') && (
+            <div className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-5">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <Clipboard className="h-6 w-6 text-gray-400" aria-hidden="true" />
+                  </div>
+                  <div className="ml-5 w-0 flex-1">
+                    <dl>
+                      <dt className="text-sm font-medium text-gray-500 truncate">Daily Report</dt>
+                      <dd className="text-lg font-semibold text-gray-900">Generate Report</dd>
+                    </dl>
+                  </div>
                 </div>
               </div>
-            </div>
-            <div className="bg-gray-50 px-5 py-3">
-              <div className="text-sm">
-                <Link to="/daily-report" className="font-medium text-indigo-700 hover:text-indigo-900">
-                  Go to Daily Report
-                </Link>
+              <div className="bg-gray-50 px-5 py-3">
+                <div className="text-sm">
+                  <Link to="/daily-report" className="font-medium text-indigo-700 hover:text-indigo-900">
+                    Go to Daily Report
+                  </Link>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         <h2 className="text-2xl font-bold text-gray-900 mt-8 mb-4">Specialty Statistics</h2>
         <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
           {specialtyStats.map((stat) => (
-            <div key={stat.specialty} className="bg-white overflow-hidden shadow rounded-lg">
+            <div key={stat.specialty} className="bg-white overflow-hidden shadow rounded-lg border-t-4" style={{ borderTopColor: stat.colour }}>
               <div className="p-5">
                 <div className="flex items-center">
                   <div className="w-0 flex-1">
@@ -223,6 +356,14 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
                       <dd className="mt-1 text-3xl font-semibold text-gray-900">{stat.activePatients}</dd>
                     </dl>
                   </div>
+                  {stat.highestNews2 && (
+                    <div className="text-right">
+                      <News2Badge score={stat.highestNews2.total_score} responseLevel={stat.highestNews2.response_level} />
+                      {stat.escalatedCount > 0 && (
+                        <p className="mt-1 text-xs text-red-600">{stat.escalatedCount} escalated</p>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="mt-4">
                   <div className="flex items-center justify-between">
@@ -235,6 +376,39 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ user }) => {
                       style={{ width: `${(stat.activePatients / stat.totalPatients) * 100}%` }}
                     ></div>
                   </div>
+                  {(stat.averageStayDays !== null || stat.incomingTransfers > 0) && (
+                    <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                      <span>{stat.averageStayDays !== null && `Avg. ${stat.averageStayDays} days under team`}</span>
+                      {stat.incomingTransfers > 0 && (
+                        <span className="text-yellow-700">{stat.incomingTransfers} incoming transfer{stat.incomingTransfers === 1 ? '' : 's'}</span>
+                      )}
+                    </div>
+                  )}
+                  {stat.consultResponse && (
+                    <div className="mt-2 text-xs text-gray-500">
+                      <p>
+                        Consults: {stat.consultResponse.open_consultations} open of {stat.consultResponse.consultations}
+                      </p>
+                      {stat.consultResponse.average_minutes_to_acknowledge !== null && (
+                        <p>
+                          Avg. {formatMinutes(stat.consultResponse.average_minutes_to_acknowledge)} to acknowledge
+                          {stat.consultResponse.average_minutes_to_seen !== null &&
+                            ` · ${formatMinutes(stat.consultResponse.average_minutes_to_seen)} to see`}
+                          {stat.consultResponse.average_minutes_to_sign_off !== null &&
+                            ` · ${formatMinutes(stat.consultResponse.average_minutes_to_sign_off)} to sign off`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {stat.outcomes && (
+                    <div className="mt-2 text-xs text-gray-500">
+                      <p>
+                        Last 30 days: {stat.outcomes.discharges} discharge{stat.outcomes.discharges === 1 ? '' : 's'}
+                        {' · '}Mortality {formatRate(stat.outcomes.mortality_rate)}
+                        {' · '}AMA {formatRate(stat.outcomes.ama_rate)}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
               <div className="bg-gray-50 px-5 py-3">
@@ -1,8 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { UserPlus, Calendar, Clock, User, Users, Activity, FileText, Building, MapPin } from 'lucide-react';
+import { useNavigate, Link } from 'react-router-dom';
+import { UserPlus, Calendar, Clock, User, Users, Activity, FileText, Building, MapPin, BedDouble, AlertCircle } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { useSpecialties } from '../specialties';
 import { toast } from 'react-toastify';
+import { useDraftState } from '../drafts';
+import { assignBed } from '../beds';
+import { fetchSetting, DEFAULT_MRN_FORMAT, MrnFormatSettings } from '../settings';
+import {
+  PersonMatch,
+  ActiveAdmission,
+  UNIQUE_VIOLATION,
+  normalizeMrn,
+  mrnFormatError,
+  searchPersons,
+  fetchKnownDetails,
+  fetchActiveAdmission,
+} from '../persons';
+import BedSelect from './BedSelect';
+import EncounterHistory from './EncounterHistory';
 
 interface PatientData {
   mrn: string;
@@ -28,27 +44,14 @@ interface ConsultationData {
   consultation_specialty: string;
 }
 
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
-
 const regularShifts = ['Morning', 'Evening', 'Night'];
 const weekendShifts = ['Morning 12 hours', 'Night 12 hours'];
 
 const NewPatientAdmission: React.FC = () => {
   const navigate = useNavigate();
-  const [formType, setFormType] = useState<'admission' | 'consultation'>('admission');
-  const [patientData, setPatientData] = useState<PatientData>({
+  const { specialties } = useSpecialties();
+  const [formType, setFormType, clearFormTypeDraft] = useDraftState<'admission' | 'consultation'>('new-admission.form-type', 'admission');
+  const [patientData, setPatientData, clearPatientDraft] = useDraftState<PatientData>('new-admission.patient', {
     mrn: '',
     patient_name: '',
     age: 0,
@@ -61,7 +64,7 @@ const NewPatientAdmission: React.FC = () => {
     specialty: '',
     diagnosis: '',
   });
-  const [consultationData, setConsultationData] = useState<ConsultationData>({
+  const [consultationData, setConsultationData, clearConsultationDraft] = useDraftState<ConsultationData>('new-admission.consultation', {
     mrn: '',
     patient_name: '',
     age: 0,
@@ -70,18 +73,74 @@ const NewPatientAdmission: React.FC = () => {
     patient_location: '',
     consultation_specialty: '',
   });
+  const [bedId, setBedId, clearBedDraft] = useDraftState<number | null>('new-admission.bed', null);
+  const [historyMrn, setHistoryMrn] = useState('');
+  const [mrnFormat, setMrnFormat] = useState<MrnFormatSettings>(DEFAULT_MRN_FORMAT);
+  const [matches, setMatches] = useState<PersonMatch[]>([]);
+  const [activeAdmission, setActiveAdmission] = useState<ActiveAdmission | null>(null);
+
+  const mrn = formType === 'admission' ? patientData.mrn : consultationData.mrn;
+  // MRNs registered before the format was set are exempt; picking the match keeps them as stored
+  const isKnownMrn = matches.some((match) => match.mrn === mrn);
+  const formatError = isKnownMrn ? null : mrnFormatError(mrn, mrnFormat);
+  // Hide the suggestions once the typed MRN has been picked
+  const showMatches = matches.length > 0 && !(historyMrn === mrn && matches.every((match) => match.mrn === mrn));
 
   useEffect(() => {
-    if (formType === 'consultation') {
-      setConsultationData(prevData => ({
-        ...prevData,
-        mrn: prevData.mrn.startsWith('C-') ? prevData.mrn : `C-${prevData.mrn}`
-      }));
+    fetchSetting('mrn_format', DEFAULT_MRN_FORMAT)
+      .then(setMrnFormat)
+      .catch((error) => console.error('Error fetching MRN format:', error));
+  }, []);
+
+  // Look up known patients as the MRN is typed, once typing pauses
+  useEffect(() => {
+    setMatches([]);
+    setActiveAdmission(null);
+    if (mrn.length < 2) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const [found, admission] = await Promise.all([searchPersons(mrn), fetchActiveAdmission(mrn)]);
+        if (cancelled) return;
+        setMatches(found);
+        setActiveAdmission(admission);
+      } catch (error) {
+        console.error('Error looking up MRN:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mrn]);
+
+  const handlePickPerson = async (match: PersonMatch) => {
+    try {
+      const details = await fetchKnownDetails(match.mrn);
+      const known = {
+        mrn: match.mrn,
+        patient_name: details?.patient_name ?? match.patient_name,
+        gender: details?.gender ?? match.gender,
+        ...(details?.age != null && { age: details.age }),
+      };
+
+      if (formType === 'admission') {
+        setPatientData({ ...patientData, ...known });
+      } else {
+        setConsultationData({ ...consultationData, ...known });
+      }
+      setHistoryMrn(match.mrn);
+    } catch (error) {
+      console.error('Error fetching patient details:', error);
+      toast.error('Failed to load previous patient details');
     }
-  }, [formType]);
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value, type } = e.target;
+    const { name, type } = e.target;
+    const value = name === 'mrn' ? normalizeMrn(e.target.value, mrnFormat) : e.target.value;
     if (formType === 'admission') {
       if (type === 'checkbox') {
         const checked = (e.target as HTMLInputElement).checked;
@@ -94,8 +153,26 @@ const NewPatientAdmission: React.FC = () => {
     }
   };
 
+  const clearDrafts = () => {
+    clearFormTypeDraft();
+    clearPatientDraft();
+    clearConsultationDraft();
+    clearBedDraft();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (formatError) {
+      toast.error(formatError);
+      return;
+    }
+
+    if (formType === 'admission' && activeAdmission) {
+      toast.error(`${mrn} is already admitted under ${activeAdmission.specialty}`);
+      return;
+    }
+
     try {
       if (formType === 'admission') {
         const { data: patientInsert, error: patientError } = await supabase
@@ -110,6 +187,15 @@ const NewPatientAdmission: React.FC = () => {
 
         if (patientError) throw patientError;
         toast.success('Patient admitted successfully');
+
+        if (bedId) {
+          try {
+            await assignBed(patientData.mrn, bedId);
+          } catch (bedError) {
+            console.error('Error assigning bed:', bedError);
+            toast.warning('Patient admitted, but the bed could not be assigned. Assign one from the bed board.');
+          }
+        }
       } else {
         const { data: consultationInsert, error: consultationError } = await supabase
           .from('consultations')
@@ -124,10 +210,17 @@ const NewPatientAdmission: React.FC = () => {
         if (consultationError) throw consultationError;
         toast.success('Consultation request submitted successfully');
       }
+      clearDrafts();
       navigate('/dashboard');
     } catch (error) {
       console.error('Error:', error);
-      toast.error(formType === 'admission' ? 'Failed to admit patient' : 'Failed to submit consultation request');
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        toast.error(formType === 'admission'
+          ? `${mrn} already has an active admission. Discharge it before admitting again.`
+          : `${mrn} already has an open consultation with ${consultationData.consultation_specialty}.`);
+      } else {
+        toast.error(formType === 'admission' ? 'Failed to admit patient' : 'Failed to submit consultation request');
+      }
     }
   };
 
@@ -167,13 +260,45 @@ const NewPatientAdmission: React.FC = () => {
                       type="text"
                       name="mrn"
                       id="mrn"
-                      value={formType === 'admission' ? patientData.mrn : consultationData.mrn}
+                      value={mrn}
                       onChange={handleInputChange}
+                      onBlur={(e) => setHistoryMrn(e.target.value.trim())}
                       required
+                      autoComplete="off"
                       className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
-                      placeholder="Enter MRN"
+                      placeholder={`Enter MRN, e.g. ${mrnFormat.example}`}
                     />
                   </div>
+                  {formatError && <p className="mt-1 text-sm text-red-600">{formatError}</p>}
+                  {showMatches && (
+                    <ul className="mt-1 bg-white border border-gray-200 rounded-md shadow-sm divide-y divide-gray-200 text-sm">
+                      {matches.map((match) => (
+                        <li key={match.mrn}>
+                          <button
+                            type="button"
+                            onClick={() => handlePickPerson(match)}
+                            className="w-full text-left px-3 py-2 hover:bg-indigo-50"
+                          >
+                            <span className="font-medium text-gray-900">{match.mrn}</span>
+                            <span className="ml-2 text-gray-500">{match.patient_name} · {match.gender}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {formType === 'admission' && activeAdmission && (
+                    <div className="mt-2 rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-800 flex">
+                      <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                      <p>
+                        {mrn} is already admitted under {activeAdmission.specialty} since{' '}
+                        {new Date(activeAdmission.admission_date).toLocaleDateString()}. A patient can only have one
+                        active admission; discharge or transfer the current one instead.{' '}
+                        <Link to={`/patient/${mrn}?admission=${activeAdmission.id}`} className="font-medium underline">
+                          Open admission
+                        </Link>
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {/* Patient Name Field */}
@@ -198,6 +323,12 @@ const NewPatientAdmission: React.FC = () => {
                   </div>
                 </div>
 
+                {historyMrn && (
+                  <div className="sm:col-span-6 -mt-4">
+                    <EncounterHistory mrn={historyMrn} />
+                  </div>
+                )}
+
                 {/* Age Field */}
                 <div className="sm:col-span-3">
                   <label htmlFor="age" className="block text-sm font-medium text-gray-700">
@@ -369,13 +500,31 @@ const NewPatientAdmission: React.FC = () => {
                           className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
                         >
                           <option value="">Select specialty</option>
-                          {specialtiesList.map((specialty) => (
-                            <option key={specialty} value={specialty}>{specialty}</option>
+                          {specialties.map((specialty) => (
+                            <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
                           ))}
                         </select>
                       </div>
                     </div>
 
+                    {/* Bed Field */}
+                    <div className="sm:col-span-3">
+                      <label htmlFor="bed" className="block text-sm font-medium text-gray-700">
+                        Bed
+                      </label>
+                      <div className="mt-1 relative rounded-md shadow-sm">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <BedDouble className="h-5 w-5 text-gray-400" aria-hidden="true" />
+                        </div>
+                        <BedSelect
+                          id="bed"
+                          value={bedId}
+                          onChange={setBedId}
+                          className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+                        />
+                      </div>
+                    </div>
+
                     {/* Diagnosis Field */}
                     <div className="sm:col-span-6">
                       <label htmlFor="diagnosis" className="block text-sm font-medium text-gray-700">
@@ -464,8 +613,8 @@ const NewPatientAdmission: React.FC = () => {
                           className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
                         >
                           <option value="">Select specialty</option>
-                          {specialtiesList.map((specialty) => (
-                            <option key={specialty} value={specialty}>{specialty}</option>
+                          {specialties.map((specialty) => (
+                            <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
                           ))}
                         </select>
                       </div>
@@ -480,14 +629,18 @@ const NewPatientAdmission: React.FC = () => {
             <div className="flex justify-end">
               <button
                 type="button"
-                onClick={() => navigate('/dashboard')}
+                onClick={() => {
+                  clearDrafts();
+                  navigate('/dashboard');
+                }}
                 className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
               >
                 Cancel
               </button>
               <button
                 type="submit"
-                className="ml-3 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                disabled={!!formatError || (formType === 'admission' && !!activeAdmission)}
+                className="ml-3 disabled:opacity-50 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
               >
                 <UserPlus className="h-5 w-5 mr-2" />
                 {formType === 'admission' ? 'Admit Patient' : 'Submit Consultation Request'}
@@ -0,0 +1,25 @@
+import React from 'react';
+import { ResponseLevel } from '../news2';
+
+interface News2BadgeProps {
+  score: number;
+  responseLevel: ResponseLevel;
+}
+
+const LEVEL_CLASSES: Record<ResponseLevel, string> = {
+  Low: 'bg-green-100 text-green-800',
+  'Low-medium': 'bg-yellow-100 text-yellow-800',
+  Medium: 'bg-orange-100 text-orange-800',
+  High: 'bg-red-600 text-white',
+};
+
+const News2Badge: React.FC<News2BadgeProps> = ({ score, responseLevel }) => (
+  <span
+    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${LEVEL_CLASSES[responseLevel]}`}
+    title={`NEWS2 ${score} – ${responseLevel} risk`}
+  >
+    NEWS2 {score}
+  </span>
+);
+
+export default News2Badge;
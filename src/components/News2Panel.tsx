@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, AlertTriangle, Save } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import {
+  News2Input,
+  News2Score,
+  Consciousness,
+  CONSCIOUSNESS_LEVELS,
+  RESPONSE_GUIDANCE,
+  calculateNews2,
+  isEscalated,
+} from '../news2';
+import News2Badge from './News2Badge';
+
+interface News2PanelProps {
+  mrn: string;
+}
+
+interface News2Form {
+  respiratory_rate: string;
+  spo2: string;
+  spo2_scale: 1 | 2;
+  on_oxygen: boolean;
+  systolic_bp: string;
+  heart_rate: string;
+  consciousness: Consciousness;
+  temperature: string;
+}
+
+const EMPTY_FORM: News2Form = {
+  respiratory_rate: '',
+  spo2: '',
+  spo2_scale: 1,
+  on_oxygen: false,
+  systolic_bp: '',
+  heart_rate: '',
+  consciousness: 'A',
+  temperature: '',
+};
+
+const NUMERIC_FIELDS: { key: 'respiratory_rate' | 'spo2' | 'systolic_bp' | 'heart_rate' | 'temperature'; label: string; step?: string }[] = [
+  { key: 'respiratory_rate', label: 'Resp. Rate (/min)' },
+  { key: 'spo2', label: 'SpO2 (%)' },
+  { key: 'systolic_bp', label: 'Systolic BP (mmHg)' },
+  { key: 'heart_rate', label: 'Pulse (bpm)' },
+  { key: 'temperature', label: 'Temperature (°C)', step: '0.1' },
+];
+
+const toInput = (form: News2Form): News2Input | null => {
+  if (NUMERIC_FIELDS.some((field) => form[field.key] === '')) return null;
+
+  return {
+    respiratory_rate: Number(form.respiratory_rate),
+    spo2: Number(form.spo2),
+    spo2_scale: form.spo2_scale,
+    on_oxygen: form.on_oxygen,
+    systolic_bp: Number(form.systolic_bp),
+    heart_rate: Number(form.heart_rate),
+    consciousness: form.consciousness,
+    temperature: Number(form.temperature),
+  };
+};
+
+const News2Panel: React.FC<News2PanelProps> = ({ mrn }) => {
+  const { user } = useSession();
+  const canRecord = hasPermission(user, 'record_observations');
+  const [scores, setScores] = useState<News2Score[]>([]);
+  const [form, setForm] = useState<News2Form>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchScores = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('news2_scores')
+          .select('*')
+          .eq('mrn', mrn)
+          .order('recorded_at', { ascending: false })
+          .limit(20);
+
+        if (error) throw error;
+        setScores(data || []);
+      } catch (error) {
+        console.error('Error fetching NEWS2 scores:', error);
+        toast.error('Failed to fetch NEWS2 scores');
+      }
+    };
+
+    fetchScores();
+  }, [mrn]);
+
+  const input = toInput(form);
+  const preview = input ? calculateNews2(input) : null;
+  const latest = scores[0];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input || !preview) {
+      toast.error('All seven NEWS2 parameters are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('news2_scores')
+        .insert([{ mrn, ...input }])
+        .select();
+
+      if (error) throw error;
+
+      setScores([data[0], ...scores]);
+      setForm(EMPTY_FORM);
+      toast.success('NEWS2 score recorded successfully');
+    } catch (error) {
+      console.error('Error recording NEWS2 score:', error);
+      toast.error('Failed to record NEWS2 score');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 flex items-center">
+        <Gauge className="h-5 w-5 mr-2 text-indigo-500" />
+        NEWS2
+        {latest && (
+          <span className="ml-3">
+            <News2Badge score={latest.total_score} responseLevel={latest.response_level} />
+          </span>
+        )}
+      </h3>
+
+      {latest && isEscalated(latest.response_level) && (
+        <div className={`mb-4 rounded-md px-4 py-3 text-sm flex ${
+          latest.response_level === 'High' ? 'bg-red-600 text-white' : 'bg-orange-50 border border-orange-200 text-orange-900'
+        }`}>
+          <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <div>
+            <p className="font-semibold">
+              {latest.response_level} clinical risk – NEWS2 {latest.total_score}
+              {latest.has_red_score && latest.response_level === 'Low-medium' && ' (score of 3 in a single parameter)'}
+            </p>
+            <p>{RESPONSE_GUIDANCE[latest.response_level]}</p>
+          </div>
+        </div>
+      )}
+
+      {canRecord && (
+        <form onSubmit={handleSubmit} className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 mb-4">
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {NUMERIC_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label htmlFor={`news2-${field.key}`} className="block text-sm font-medium text-gray-700">{field.label}</label>
+                <input
+                  type="number"
+                  id={`news2-${field.key}`}
+                  step={field.step || '1'}
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                  required
+                />
+              </div>
+            ))}
+            <div>
+              <label htmlFor="news2-consciousness" className="block text-sm font-medium text-gray-700">Consciousness</label>
+              <select
+                id="news2-consciousness"
+                className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={form.consciousness}
+                onChange={(e) => setForm({ ...form, consciousness: e.target.value as Consciousness })}
+              >
+                {CONSCIOUSNESS_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>{level.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="news2-scale" className="block text-sm font-medium text-gray-700">SpO2 scale</label>
+              <select
+                id="news2-scale"
+                className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={form.spo2_scale}
+                onChange={(e) => setForm({ ...form, spo2_scale: Number(e.target.value) as 1 | 2 })}
+              >
+                <option value={1}>Scale 1</option>
+                <option value={2}>Scale 2 (hypercapnic)</option>
+              </select>
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-gray-300 text-indigo-600"
+                  checked={form.on_oxygen}
+                  onChange={(e) => setForm({ ...form, on_oxygen: e.target.checked })}
+                />
+                On supplemental oxygen
+              </label>
+            </div>
+          </div>
+          <div className="mt-4 flex items-center justify-between">
+            <div className="text-sm text-gray-700">
+              {preview ? (
+                <>
+                  Score: <News2Badge score={preview.totalScore} responseLevel={preview.responseLevel} />{' '}
+                  <span className="ml-1">{preview.responseLevel} risk</span>
+                </>
+              ) : (
+                'Enter all parameters to calculate the score'
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !preview}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <Save className="h-5 w-5 mr-2" />
+              Save Score
+            </button>
+          </div>
+        </form>
+      )}
+
+      {scores.length > 0 && (
+        <div className="bg-white shadow overflow-x-auto sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">RR / SpO2 / BP / HR / Temp / ACVPU</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {scores.map((score) => (
+                <tr key={score.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{new Date(score.recorded_at).toLocaleString()}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    <News2Badge score={score.total_score} responseLevel={score.response_level} />
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {score.respiratory_rate} / {score.spo2}%{score.on_oxygen ? ' (O2)' : ''} / {score.systolic_bp} / {score.heart_rate} / {score.temperature} / {score.consciousness}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{score.recorded_by_name}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default News2Panel;
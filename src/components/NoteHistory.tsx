@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { History, X } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+import { diffWords } from '../textDiff';
+
+interface NoteVersion {
+  note_id: string;
+  version: number;
+  content: string;
+  edited_by_name: string;
+  created_at: string;
+}
+
+interface NoteHistoryProps {
+  noteId: string;
+  onClose: () => void;
+}
+
+const NoteHistory: React.FC<NoteHistoryProps> = ({ noteId, onClose }) => {
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('patient_note_versions')
+          .select('*')
+          .eq('note_id', noteId)
+          .order('version', { ascending: false });
+
+        if (error) throw error;
+        setVersions(data || []);
+      } catch (error) {
+        console.error('Error fetching note history:', error);
+        toast.error('Failed to fetch note history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVersions();
+  }, [noteId]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-gray-900 bg-opacity-50 px-4">
+      <div className="max-w-2xl w-full max-h-[80vh] overflow-y-auto bg-white rounded-lg shadow-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <History className="h-5 w-5 mr-2 text-indigo-500" />
+            Note History
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        {loading ? (
+          <div>Loading...</div>
+        ) : (
+          versions.map((version, index) => {
+            const previous = versions[index + 1];
+            return (
+              <div key={version.version} className="border-t border-gray-200 py-3">
+                <p className="text-xs text-gray-500 mb-1">
+                  Version {version.version} · {new Date(version.created_at).toLocaleString()} by {version.edited_by_name}
+                </p>
+                <p className="text-sm text-gray-900 whitespace-pre-wrap">
+                  {previous
+                    ? diffWords(previous.content, version.content).map((segment, segmentIndex) => (
+                      <span
+                        key={segmentIndex}
+                        className={
+                          segment.type === 'added'
+                            ? 'bg-green-100 text-green-800'
+                            : segment.type === 'removed'
+                              ? 'bg-red-100 text-red-800 line-through'
+                              : ''
+                        }
+                      >
+                        {segment.text}
+                      </span>
+                    ))
+                    : version.content}
+                </p>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoteHistory;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { NoteTemplate, NoteSectionValues } from '../noteTemplates';
+
+interface NoteSectionFieldsProps {
+  template: NoteTemplate;
+  values: NoteSectionValues;
+  onChange: (values: NoteSectionValues) => void;
+}
+
+const NoteSectionFields: React.FC<NoteSectionFieldsProps> = ({ template, values, onChange }) => (
+  <div className="space-y-3">
+    {template.sections.map((section) => (
+      <div key={section.key}>
+        <label htmlFor={`section-${section.key}`} className="block text-sm font-medium text-gray-700">
+          {section.label}
+          {section.required && <span className="text-red-500"> *</span>}
+        </label>
+        <textarea
+          id={`section-${section.key}`}
+          rows={2}
+          className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          value={values[section.key] || ''}
+          onChange={(e) => onChange({ ...values, [section.key]: e.target.value })}
+        ></textarea>
+      </div>
+    ))}
+  </div>
+);
+
+export default NoteSectionFields;
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Plus, Save, Trash2, ArrowUp, ArrowDown, Edit } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+import { NoteTemplate, NoteSection, fetchNoteTemplates, sectionKeyFromLabel } from '../noteTemplates';
+
+interface TemplateForm {
+  id: string | null;
+  name: string;
+  sort_order: number;
+  sections: NoteSection[];
+}
+
+const EMPTY_FORM: TemplateForm = {
+  id: null,
+  name: '',
+  sort_order: 0,
+  sections: [{ key: '', label: '', required: true }],
+};
+
+const NoteTemplatesPage: React.FC = () => {
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await fetchNoteTemplates(false));
+    } catch (error) {
+      console.error('Error fetching note templates:', error);
+      toast.error('Failed to fetch note templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSection = (index: number, changes: Partial<NoteSection>) => {
+    setForm({
+      ...form,
+      sections: form.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const sections = [...form.sections];
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    setForm({ ...form, sections });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Existing sections keep their key so notes written earlier still render after a rename
+    const sections = form.sections
+      .filter((section) => section.label.trim())
+      .map((section) => ({
+        key: section.key || sectionKeyFromLabel(section.label),
+        label: section.label.trim(),
+        required: section.required,
+      }));
+
+    if (sections.length === 0) {
+      toast.error('A template needs at least one section');
+      return;
+    }
+
+    if (new Set(sections.map((section) => section.key)).size !== sections.length) {
+      toast.error('Section names must be unique');
+      return;
+    }
+
+    const values = { name: form.name.trim(), sort_order: form.sort_order, sections, updated_at: new Date().toISOString() };
+
+    try {
+      const { error } = form.id
+        ? await supabase.from('note_templates').update(values).eq('id', form.id)
+        : await supabase.from('note_templates').insert([values]);
+
+      if (error) throw error;
+
+      toast.success('Note template saved successfully');
+      setForm(EMPTY_FORM);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error saving note template:', error);
+      toast.error('Failed to save note template');
+    }
+  };
+
+  const handleToggleActive = async (template: NoteTemplate) => {
+    try {
+      const { error } = await supabase
+        .from('note_templates')
+        .update({ is_active: !template.is_active, updated_at: new Date().toISOString() })
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      setTemplates(templates.map((t) => (t.id === template.id ? { ...t, is_active: !t.is_active } : t)));
+    } catch (error) {
+      console.error('Error updating note template:', error);
+      toast.error('Failed to update note template');
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Note Templates</h1>
+
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
+          <ul className="divide-y divide-gray-200">
+            {templates.map((template) => (
+              <li key={template.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-medium ${template.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                    {template.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {template.sections.map((section) => section.label + (section.required ? ' *' : '')).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setForm({ id: template.id, name: template.name, sort_order: template.sort_order, sections: template.sections })}
+                    className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                  >
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(template)}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    {template.is_active ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <FileText className="h-5 w-5 mr-2 text-indigo-500" />
+            {form.id ? 'Edit Template' : 'New Template'}
+          </h2>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="sm:col-span-2">
+                <label htmlFor="templateName" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  id="templateName"
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateOrder" className="block text-sm font-medium text-gray-700">Display order</label>
+                <input
+                  type="number"
+                  id="templateOrder"
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={form.sort_order}
+                  onChange={(e) => setForm({ ...form, sort_order: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Sections</p>
+              {form.sections.map((section, index) => (
+                <div key={index} className="flex items-center space-x-2 mb-2">
+                  <input
+                    type="text"
+                    placeholder="Section name"
+                    className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                    value={section.label}
+                    onChange={(e) => updateSection(index, { label: e.target.value })}
+                  />
+                  <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      className="mr-1 rounded border-gray-300 text-indigo-600"
+                      checked={section.required}
+                      onChange={(e) => updateSection(index, { required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  <button type="button" onClick={() => moveSection(index, -1)} className="text-gray-500 hover:text-gray-700" title="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => moveSection(index, 1)} className="text-gray-500 hover:text-gray-700" title="Move down">
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, sections: form.sections.filter((_, i) => i !== index) })}
+                    className="text-red-500 hover:text-red-700"
+                    title="Remove section"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, sections: [...form.sections, { key: '', label: '', required: false }] })}
+                className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add section
+              </button>
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save Template
+              </button>
+              {form.id && (
+                <button
+                  type="button"
+                  onClick={() => setForm(EMPTY_FORM)}
+                  className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NoteTemplatesPage;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock } from 'lucide-react';
+import { formatTime, toDateString } from '../clinics';
+import {
+  ClinicAppointment,
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_STATUS_STYLES,
+  isUpcoming,
+  followUpLabel,
+  fetchPatientAppointments,
+} from '../appointments';
+
+interface PatientAppointmentsProps {
+  mrn: string;
+}
+
+const AppointmentList: React.FC<{ title: string; appointments: ClinicAppointment[] }> = ({ title, appointments }) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-700 mb-2">{title} ({appointments.length})</h4>
+    {appointments.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ul className="bg-white border border-gray-200 rounded-md divide-y divide-gray-200">
+        {appointments.map((appointment) => (
+          <li key={appointment.appointment_id} className="px-4 py-2 text-sm flex items-center justify-between">
+            <div>
+              <p className="font-medium text-gray-900">
+                {appointment.clinic_templates?.name || appointment.clinic_specialty}
+                {appointment.clinic_templates && <span className="font-normal text-gray-500"> · {appointment.clinic_specialty}</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                {appointment.appointment_date && appointment.appointment_time
+                  ? `${appointment.appointment_date} at ${formatTime(appointment.appointment_time)}`
+                  : `Booked ${new Date(appointment.created_at).toLocaleDateString()}`}
+                {' · '}{appointment.appointment_type}
+                {appointment.cancellation_reason && ` · ${appointment.cancellation_reason}`}
+              </p>
+              {appointment.admission && (
+                <Link
+                  to={`/patient/${appointment.patient_medical_number}?admission=${appointment.admission_id}`}
+                  className="text-xs text-indigo-600 hover:text-indigo-900"
+                >
+                  {followUpLabel(appointment.admission)}
+                </Link>
+              )}
+            </div>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${APPOINTMENT_STATUS_STYLES[appointment.status]}`}>
+              {APPOINTMENT_STATUS_LABELS[appointment.status]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const PatientAppointments: React.FC<PatientAppointmentsProps> = ({ mrn }) => {
+  const [appointments, setAppointments] = useState<ClinicAppointment[]>([]);
+
+  useEffect(() => {
+    if (!mrn) return;
+
+    fetchPatientAppointments(mrn)
+      .then(setAppointments)
+      .catch((error) => console.error('Error fetching patient appointments:', error));
+  }, [mrn]);
+
+  const today = toDateString(new Date());
+  const upcoming = appointments
+    .filter((appointment) => isUpcoming(appointment) && (!appointment.appointment_date || appointment.appointment_date >= today))
+    .reverse();
+  const past = appointments.filter((appointment) => !upcoming.includes(appointment));
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+        <CalendarClock className="h-5 w-5 mr-2 text-indigo-500" />
+        Clinic Appointments
+      </h3>
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <AppointmentList title="Upcoming" appointments={upcoming} />
+        <AppointmentList title="Past" appointments={past} />
+      </div>
+    </div>
+  );
+};
+
+export default PatientAppointments;
@@ -1,11 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { User, Calendar, Activity, FileText, Plus, Edit, ArrowLeft, ArrowRight, Save, MapPin, Building } from 'lucide-react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { User, Calendar, Activity, FileText, Plus, Edit, ArrowLeft, ArrowRight, Save, MapPin, Building, History, MessageSquarePlus, Search, BedDouble } from 'lucide-react';
 import { supabase } from '../supabaseClient';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import NoteHistory from './NoteHistory';
+import NoteSectionFields from './NoteSectionFields';
+import VitalsPanel from './VitalsPanel';
+import News2Panel from './News2Panel';
+import SpecialtyTransferPanel from './SpecialtyTransferPanel';
+import ConsultationWorkflowPanel from './ConsultationWorkflowPanel';
+import DischargeSummaryEditor from './DischargeSummaryEditor';
+import DischargePlanningPanel from './DischargePlanningPanel';
+import EncounterHistory from './EncounterHistory';
+import PatientAppointments from './PatientAppointments';
+import { BedOverview, bedLocation, fetchPatientBed } from '../beds';
+import { fetchEncounters } from '../encounters';
+import { ConsultationState, CONSULTATION_STATE_LABELS } from '../consultations';
+import { DischargeDisposition, DISPOSITION_LABELS } from '../dispositions';
+import { NoteTemplate, NoteSectionValues, fetchNoteTemplates, missingRequiredSections, composeNoteContent } from '../noteTemplates';
 
 interface Patient {
+  id: string;
   mrn: string;
   patient_name: string;
   age: number;
@@ -14,9 +32,17 @@ interface Patient {
   specialty: string;
   assigned_doctor: string;
   diagnosis: string;
+  patient_status: string;
+  expected_discharge_date: string | null;
+  discharge_date: string | null;
+  discharge_disposition: DischargeDisposition | null;
+  discharge_destination: string | null;
+  death_at: string | null;
+  cause_of_death: string | null;
 }
 
 interface Consultation {
+  id: string;
   mrn: string;
   patient_name: string;
   age: number;
@@ -26,6 +52,7 @@ interface Consultation {
   requesting_department: string;
   patient_location: string;
   status: string;
+  workflow_state: ConsultationState;
 }
 
 interface Note {
@@ -34,43 +61,99 @@ interface Note {
   content: string;
   created_at: string;
   created_by: string;
+  author_id: string | null;
+  version: number;
+  updated_at: string;
+  parent_note_id: string | null;
+  template_id: string | null;
+  sections: NoteSectionValues | null;
+}
+
+interface NoteValues {
+  content: string;
+  template_id?: string | null;
+  sections?: NoteSectionValues | null;
+  parent_note_id?: string | null;
 }
 
 const PatientDetails: React.FC = () => {
   const { mrn } = useParams<{ mrn: string }>();
+  const [searchParams] = useSearchParams();
+  const admissionId = searchParams.get('admission');
+  const consultationId = searchParams.get('consultation');
   const navigate = useNavigate();
+  const { user } = useSession();
+  const canEditNotes = hasPermission(user, 'edit_notes');
   const [patientData, setPatientData] = useState<Patient | Consultation | null>(null);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
   const [newNote, setNewNote] = useState('');
+  const [newNoteTemplateId, setNewNoteTemplateId] = useState('');
+  const [newNoteSections, setNewNoteSections] = useState<NoteSectionValues>({});
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
   const [editedNoteContent, setEditedNoteContent] = useState('');
+  const [editedSections, setEditedSections] = useState<NoteSectionValues>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchSection, setSearchSection] = useState('');
+  const [addendumParentId, setAddendumParentId] = useState<string | null>(null);
+  const [addendumContent, setAddendumContent] = useState('');
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const [currentBed, setCurrentBed] = useState<BedOverview | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchPatientData();
     fetchPatientNotes();
-  }, [mrn]);
+    if (mrn) {
+      fetchPatientBed(mrn)
+        .then(setCurrentBed)
+        .catch((error) => console.error('Error fetching bed:', error));
+    }
+  }, [mrn, admissionId, consultationId]);
+
+  useEffect(() => {
+    // Inactive templates are still needed to render notes written with them
+    fetchNoteTemplates(false)
+      .then(setTemplates)
+      .catch((error) => console.error('Error fetching note templates:', error));
+  }, []);
 
   const fetchPatientData = async () => {
     try {
       setLoading(true);
       let data;
       let error;
+      let consultation = consultationId;
+      let admission = admissionId;
 
-      if (mrn?.startsWith('C-')) {
-        // Fetch consultation data
+      // Without a specific encounter, open the person's most recent admission or consultation
+      if (mrn && !consultation && !admission) {
+        const [latest] = await fetchEncounters(mrn);
+        consultation = latest?.consultation_id ?? null;
+        admission = latest?.admission_id ?? null;
+      }
+
+      if (consultation) {
         ({ data, error } = await supabase
           .from('consultations')
           .select('*')
           .eq('mrn', mrn)
+          .eq('id', consultation)
           .single());
       } else {
-        // Fetch patient data
-        ({ data, error } = await supabase
+        // Fetch the requested admission, or the most recent one for this MRN
+        let query = supabase
           .from('patients')
           .select('*')
-          .eq('mrn', mrn)
+          .eq('mrn', mrn);
+
+        if (admission) query = query.eq('id', admission);
+
+        ({ data, error } = await query
+          .order('admission_date', { ascending: false })
+          .order('created_at', { ascending: false })
+          .limit(1)
           .single());
       }
 
@@ -102,21 +185,42 @@ const PatientDetails: React.FC = () => {
     }
   };
 
-  const handleAddNote = async () => {
-    if (!newNote.trim() || !mrn) return;
+  const findTemplate = (templateId: string | null) => templates.find((template) => template.id === templateId);
 
-    try {
-      const { data, error } = await supabase
-        .from('patient_notes')
-        .insert([
-          { mrn: mrn, content: newNote, created_by: 'Current User' } // Replace 'Current User' with actual user info
-        ])
-        .select();
+  // The database stamps the author from the session; created_by is sent for clarity only
+  const insertNote = async (values: NoteValues) => {
+    const { data, error } = await supabase
+      .from('patient_notes')
+      .insert([
+        { mrn: mrn, created_by: user?.name, ...values }
+      ])
+      .select();
 
-      if (error) throw error;
+    if (error) throw error;
+
+    setNotes([data[0], ...notes]);
+  };
 
-      setNotes([data[0], ...notes]);
+  const handleAddNote = async () => {
+    if (!mrn) return;
+
+    const template = findTemplate(newNoteTemplateId);
+    if (template) {
+      const missing = missingRequiredSections(template, newNoteSections);
+      if (missing.length > 0) {
+        toast.error(`Please complete: ${missing.map((section) => section.label).join(', ')}`);
+        return;
+      }
+    } else if (!newNote.trim()) {
+      return;
+    }
+
+    try {
+      await insertNote(template
+        ? { content: composeNoteContent(template, newNoteSections), template_id: template.id, sections: newNoteSections }
+        : { content: newNote });
       setNewNote('');
+      setNewNoteSections({});
       toast.success('Note added successfully');
     } catch (error) {
       console.error('Error adding note:', error);
@@ -124,24 +228,57 @@ const PatientDetails: React.FC = () => {
     }
   };
 
-  const handleEditNote = (id: string, content: string) => {
-    setEditingNoteId(id);
-    setEditedNoteContent(content);
+  const handleAddAddendum = async () => {
+    if (!addendumContent.trim() || !addendumParentId) return;
+
+    try {
+      await insertNote({ content: addendumContent, parent_note_id: addendumParentId });
+      setAddendumParentId(null);
+      setAddendumContent('');
+      toast.success('Addendum added successfully');
+    } catch (error) {
+      console.error('Error adding addendum:', error);
+      toast.error('Failed to add addendum');
+    }
+  };
+
+  const handleEditNote = (note: Note) => {
+    setEditingNoteId(note.id);
+    setEditedNoteContent(note.content);
+    setEditedSections(note.sections || {});
   };
 
   const handleSaveEdit = async () => {
     if (!editingNoteId) return;
 
+    const template = findTemplate(notes.find((note) => note.id === editingNoteId)?.template_id ?? null);
+    if (template) {
+      const missing = missingRequiredSections(template, editedSections);
+      if (missing.length > 0) {
+        toast.error(`Please complete: ${missing.map((section) => section.label).join(', ')}`);
+        return;
+      }
+    }
+
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('patient_notes')
-        .update({ content: editedNoteContent })
-        .eq('id', editingNoteId);
+        .update(template
+          ? { content: composeNoteContent(template, editedSections), sections: editedSections }
+          : { content: editedNoteContent })
+        .eq('id', editingNoteId)
+        .select();
 
       if (error) throw error;
 
-      setNotes(notes.map(note => 
-        note.id === editingNoteId ? { ...note, content: editedNoteContent } : note
+      // Row-level security filters out notes written by someone else
+      if (!data || data.length === 0) {
+        toast.error('Only the author can edit this note. Add an addendum instead.');
+        return;
+      }
+
+      setNotes(notes.map(note =>
+        note.id === editingNoteId ? data[0] : note
       ));
       setEditingNoteId(null);
       toast.success('Note updated successfully');
@@ -156,6 +293,22 @@ const PatientDetails: React.FC = () => {
   if (!patientData) return <div className="p-4">Patient not found</div>;
 
   const isConsultation = 'consultation_specialty' in patientData;
+  const activeTemplates = templates.filter((template) => template.is_active);
+  const newNoteTemplate = findTemplate(newNoteTemplateId);
+  const searchableSections = [...new Map(
+    templates.flatMap((template) => template.sections).map((section) => [section.key, section.label])
+  )];
+  const matchesSearch = (note: Note) => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return true;
+    const text = searchSection ? note.sections?.[searchSection] : note.content;
+    return !!text && text.toLowerCase().includes(term);
+  };
+  const topLevelNotes = notes.filter((note) => !note.parent_note_id && matchesSearch(note));
+  const addendaFor = (noteId: string) =>
+    notes
+      .filter((note) => note.parent_note_id === noteId)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
 
   return (
     <div className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
@@ -209,11 +362,20 @@ const PatientDetails: React.FC = () => {
                 </div>
                 <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Status</dt>
-                  <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">{patientData.status}</dd>
+                  <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                    {patientData.status} · {CONSULTATION_STATE_LABELS[patientData.workflow_state]}
+                  </dd>
                 </div>
               </>
             ) : (
               <>
+                <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                  <dt className="text-sm font-medium text-gray-500">Bed</dt>
+                  <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2 flex items-center">
+                    <BedDouble className="h-4 w-4 mr-1 text-gray-400" />
+                    {currentBed && patientData.patient_status === 'Active' ? bedLocation(currentBed) : 'No bed assigned'}
+                  </dd>
+                </div>
                 <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Assigned Doctor</dt>
                   <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">{patientData.assigned_doctor}</dd>
@@ -222,71 +384,251 @@ const PatientDetails: React.FC = () => {
                   <dt className="text-sm font-medium text-gray-500">Diagnosis</dt>
                   <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">{patientData.diagnosis}</dd>
                 </div>
+                {patientData.discharge_disposition && (
+                  <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                    <dt className="text-sm font-medium text-gray-500">Discharge</dt>
+                    <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                      {patientData.discharge_date} · {DISPOSITION_LABELS[patientData.discharge_disposition]}
+                      {patientData.discharge_destination && ` · ${patientData.discharge_destination}`}
+                      {patientData.death_at && (
+                        <p className="mt-1 text-gray-700">
+                          Died {new Date(patientData.death_at).toLocaleString()} · {patientData.cause_of_death}
+                        </p>
+                      )}
+                    </dd>
+                  </div>
+                )}
               </>
             )}
           </dl>
         </div>
       </div>
 
+      <EncounterHistory mrn={patientData.mrn} currentId={patientData.id} />
+
+      {isConsultation ? (
+        <ConsultationWorkflowPanel consultationId={patientData.id} onChanged={fetchPatientData} />
+      ) : (
+        <SpecialtyTransferPanel
+          mrn={patientData.mrn}
+          specialty={patientData.specialty}
+          isActive={patientData.patient_status === 'Active'}
+          onTransferred={fetchPatientData}
+        />
+      )}
+
+      {!isConsultation && patientData.patient_status === 'Active' && (
+        <DischargePlanningPanel
+          admissionId={patientData.id}
+          admissionDate={patientData.admission_date}
+          expectedDischargeDate={patientData.expected_discharge_date}
+          onChanged={fetchPatientData}
+        />
+      )}
+
+      {!isConsultation && patientData.patient_status === 'Discharged' && (
+        <DischargeSummaryEditor admissionId={patientData.id} />
+      )}
+
+      <PatientAppointments mrn={patientData.mrn} />
+
+      <News2Panel mrn={patientData.mrn} />
+
+      <VitalsPanel mrn={patientData.mrn} />
+
       <div className="mt-8">
         <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Patient Notes</h3>
-        <div className="mb-4">
-          <textarea
-            rows={3}
-            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
-            placeholder="Add a new note..."
-            value={newNote}
-            onChange={(e) => setNewNote(e.target.value)}
-          ></textarea>
-          <button
-            onClick={handleAddNote}
-            className="mt-2 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        {canEditNotes && (
+          <div className="mb-4">
+            <select
+              aria-label="Note type"
+              className="mb-2 block w-full sm:w-64 py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              value={newNoteTemplateId}
+              onChange={(e) => {
+                setNewNoteTemplateId(e.target.value);
+                setNewNoteSections({});
+              }}
+            >
+              <option value="">Free text</option>
+              {activeTemplates.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            {newNoteTemplate ? (
+              <NoteSectionFields template={newNoteTemplate} values={newNoteSections} onChange={setNewNoteSections} />
+            ) : (
+              <textarea
+                rows={3}
+                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                placeholder="Add a new note..."
+                value={newNote}
+                onChange={(e) => setNewNote(e.target.value)}
+              ></textarea>
+            )}
+            <button
+              onClick={handleAddNote}
+              className="mt-2 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Add Note
+            </button>
+          </div>
+        )}
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              className="pl-9 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="Search notes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <select
+            aria-label="Search in section"
+            className="block w-full sm:w-48 py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            value={searchSection}
+            onChange={(e) => setSearchSection(e.target.value)}
           >
-            <Plus className="h-5 w-5 mr-2" />
-            Add Note
-          </button>
+            <option value="">All text</option>
+            {searchableSections.map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
         </div>
-        {notes.map((note) => (
-          <div key={note.id} className="bg-white shadow overflow-hidden sm:rounded-lg mb-4">
-            <div className="px-4 py-5 sm:p-6">
-              {editingNoteId === note.id ? (
-                <>
-                  <textarea
-                    rows={3}
-                    className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md mb-2"
-                    value={editedNoteContent}
-                    onChange={(e) => setEditedNoteContent(e.target.value)}
-                  ></textarea>
-                  <button
-                    onClick={handleSaveEdit}
-                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                  >
-                    <Save className="h-5 w-5 mr-2" />
-                    Save
-                  </button>
-                </>
-              ) : (
-                <>
-                  <p className="text-sm text-gray-900">{note.content}</p>
-                  <div className="mt-2 flex justify-between items-center">
+        {topLevelNotes.map((note) => {
+          const noteTemplate = findTemplate(note.template_id);
+          return (
+            <div key={note.id} className="bg-white shadow overflow-hidden sm:rounded-lg mb-4">
+              <div className="px-4 py-5 sm:p-6">
+                {editingNoteId === note.id ? (
+                  <>
+                    {noteTemplate ? (
+                      <div className="mb-2">
+                        <NoteSectionFields template={noteTemplate} values={editedSections} onChange={setEditedSections} />
+                      </div>
+                    ) : (
+                      <textarea
+                        rows={3}
+                        className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md mb-2"
+                        value={editedNoteContent}
+                        onChange={(e) => setEditedNoteContent(e.target.value)}
+                      ></textarea>
+                    )}
+                    <button
+                      onClick={handleSaveEdit}
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                      <Save className="h-5 w-5 mr-2" />
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingNoteId(null)}
+                      className="ml-2 inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {noteTemplate && note.sections ? (
+                      <div>
+                        <p className="text-xs font-medium text-indigo-700 mb-1">{noteTemplate.name}</p>
+                        <dl className="space-y-2">
+                          {noteTemplate.sections
+                            .filter((section) => note.sections?.[section.key]?.trim())
+                            .map((section) => (
+                              <div key={section.key}>
+                                <dt className="text-sm font-medium text-gray-700">{section.label}</dt>
+                                <dd className="text-sm text-gray-900 whitespace-pre-wrap">{note.sections?.[section.key]}</dd>
+                              </div>
+                            ))}
+                        </dl>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-900 whitespace-pre-wrap">{note.content}</p>
+                    )}
+                    <div className="mt-2 flex justify-between items-center">
+                      <span className="text-xs text-gray-500">
+                        {new Date(note.created_at).toLocaleString()} by {note.created_by}
+                        {note.version > 1 && ` · edited ${new Date(note.updated_at).toLocaleString()}`}
+                      </span>
+                      <div className="flex space-x-2">
+                        {note.version > 1 && (
+                          <button
+                            onClick={() => setHistoryNoteId(note.id)}
+                            className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                          >
+                            <History className="h-4 w-4 mr-1" />
+                            History (v{note.version})
+                          </button>
+                        )}
+                        {canEditNotes && (note.author_id === user?.id ? (
+                          <button
+                            onClick={() => handleEditNote(note)}
+                            className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                          >
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              setAddendumParentId(note.id);
+                              setAddendumContent('');
+                            }}
+                            className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                          >
+                            <MessageSquarePlus className="h-4 w-4 mr-1" />
+                            Addendum
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+                {addendaFor(note.id).map((addendum) => (
+                  <div key={addendum.id} className="mt-3 ml-4 pl-3 border-l-2 border-indigo-200">
+                    <p className="text-xs font-medium text-indigo-700">Addendum</p>
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{addendum.content}</p>
                     <span className="text-xs text-gray-500">
-                      {new Date(note.created_at).toLocaleString()} by {note.created_by}
+                      {new Date(addendum.created_at).toLocaleString()} by {addendum.created_by}
                     </span>
+                  </div>
+                ))}
+                {addendumParentId === note.id && (
+                  <div className="mt-3 ml-4">
+                    <textarea
+                      rows={2}
+                      className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md mb-2"
+                      placeholder="Add an addendum..."
+                      value={addendumContent}
+                      onChange={(e) => setAddendumContent(e.target.value)}
+                    ></textarea>
+                    <button
+                      onClick={handleAddAddendum}
+                      className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Addendum
+                    </button>
                     <button
-                      onClick={() => handleEditNote(note.id, note.content)}
-                      className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      onClick={() => setAddendumParentId(null)}
+                      className="ml-2 inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
                     >
-                      <Edit className="h-4 w-4 mr-1" />
-                      Edit
+                      Cancel
                     </button>
                   </div>
-                </>
-              )}
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
+      {historyNoteId && <NoteHistory noteId={historyNoteId} onClose={() => setHistoryNoteId(null)} />}
+
       <div className="mt-8 flex justify-between">
         <button
           onClick={() => navigate(-1)}
@@ -1,67 +1,98 @@
 import React, { useState, useEffect } from 'react';
-import { UserMinus, Search, Clock, Calendar, Activity } from 'lucide-react';
+import { UserMinus, Search, Clock, Calendar, CalendarCheck, Activity, BedDouble, ClipboardCheck } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../supabaseClient';
+import { useSpecialties } from '../specialties';
 import { toast } from 'react-toastify';
+import { useDraftState } from '../drafts';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { ConsultationState, CONSULTATION_STATE_LABELS, advanceConsultation } from '../consultations';
+import { BedOverview, bedLocation, fetchPatientBed } from '../beds';
+import { fetchReadmissionIds } from '../encounters';
+import { DischargeDisposition, DISPOSITION_LABELS, DISPOSITION_OPTIONS, takesDestination } from '../dispositions';
+import { fetchSetting, DEFAULT_DISCHARGE_CHECKLIST, DischargeChecklistItem } from '../settings';
+import { ChecklistTick, readiness, localDate, expectedDischargeLabel, fetchChecklistTicks } from '../dischargePlanning';
+import EncounterHistory from './EncounterHistory';
+import ReadmissionBadge from './ReadmissionBadge';
+import DischargeSummaryEditor from './DischargeSummaryEditor';
 
 interface Patient {
+  id: string;
   mrn: string;
   patient_name: string;
   admission_date: string;
   admission_time: string;
   patient_status: string;
   specialty: string;
+  expected_discharge_date: string | null;
   type: 'patient';
 }
 
 interface Consultation {
+  id: string;
   mrn: string;
   patient_name: string;
   created_at: string;
   status: string;
+  workflow_state: ConsultationState;
   consultation_specialty: string;
   type: 'consultation';
 }
 
 type CombinedRecord = Patient | Consultation;
 
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
-
 const PatientDischarge: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const canSignOff = hasPermission(user, 'respond_consultations');
+  const canBook = hasPermission(user, 'book_appointments');
+  const { specialties } = useSpecialties(false);
   const [records, setRecords] = useState<CombinedRecord[]>([]);
-  const [selectedRecord, setSelectedRecord] = useState<CombinedRecord | null>(null);
-  const [dischargeDate, setDischargeDate] = useState('');
-  const [dischargeTime, setDischargeTime] = useState('');
-  const [dischargeNote, setDischargeNote] = useState('');
+  const [selectedRecord, setSelectedRecord] = useDraftState<CombinedRecord | null>('discharge.record', null);
+  const [dischargeDate, setDischargeDate] = useDraftState('discharge.date', '');
+  const [dischargeTime, setDischargeTime] = useDraftState('discharge.time', '');
+  const [dischargeNote, setDischargeNote] = useDraftState('discharge.note', '');
+  const [disposition, setDisposition] = useDraftState<DischargeDisposition | ''>('discharge.disposition', '');
+  const [destination, setDestination] = useDraftState('discharge.destination', '');
+  const [deathAt, setDeathAt] = useDraftState('discharge.deathAt', '');
+  const [causeOfDeath, setCauseOfDeath] = useDraftState('discharge.causeOfDeath', '');
+  const [coronerReferral, setCoronerReferral] = useDraftState('discharge.coronerReferral', false);
+  const [bookFollowUp, setBookFollowUp] = useDraftState('discharge.bookFollowUp', false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSpecialty, setSelectedSpecialty] = useState<string>('');
+  const [currentBed, setCurrentBed] = useState<BedOverview | null>(null);
+  const [readmissionIds, setReadmissionIds] = useState<Set<string>>(new Set());
+  const [view, setView] = useState<'all' | 'planned'>('all');
+  const [checklistItems, setChecklistItems] = useState<DischargeChecklistItem[]>([]);
+  const [checklistTicks, setChecklistTicks] = useState<ChecklistTick[]>([]);
 
   useEffect(() => {
     fetchActiveRecords();
   }, []);
 
+  useEffect(() => {
+    setCurrentBed(null);
+    if (selectedRecord?.type !== 'patient') return;
+
+    fetchPatientBed(selectedRecord.mrn)
+      .then(setCurrentBed)
+      .catch((error) => console.error('Error fetching bed:', error));
+  }, [selectedRecord?.type, selectedRecord?.mrn]);
+
   const fetchActiveRecords = async () => {
     try {
       const { data: patientsData, error: patientsError } = await supabase
         .from('patients')
         .select(`
+          id,
           mrn,
           patient_name,
           admission_date,
           admission_time,
           patient_status,
-          specialty
+          specialty,
+          expected_discharge_date
         `)
         .eq('patient_status', 'Active')
         .order('admission_date', { ascending: false });
@@ -69,10 +100,12 @@ const PatientDischarge: React.FC = () => {
       const { data: consultationsData, error: consultationsError } = await supabase
         .from('consultations')
         .select(`
+          id,
           mrn,
           patient_name,
           created_at,
           status,
+          workflow_state,
           consultation_specialty
         `)
         .eq('status', 'Active')
@@ -92,6 +125,18 @@ const PatientDischarge: React.FC = () => {
       }));
 
       setRecords([...formattedPatientsData, ...formattedConsultationsData]);
+      setReadmissionIds(await fetchReadmissionIds());
+
+      // Readiness is only shown for admissions planned to leave by tomorrow
+      const plannedIds = formattedPatientsData
+        .filter((patient) => patient.expected_discharge_date && patient.expected_discharge_date <= localDate(1))
+        .map((patient) => patient.id);
+      const [checklist, ticks] = await Promise.all([
+        fetchSetting('discharge_checklist', DEFAULT_DISCHARGE_CHECKLIST),
+        fetchChecklistTicks(plannedIds),
+      ]);
+      setChecklistItems(checklist.items);
+      setChecklistTicks(ticks);
     } catch (error) {
       console.error('Error fetching active patients and consultations:', error);
       toast.error('Failed to fetch active patients and consultations');
@@ -103,53 +148,96 @@ const PatientDischarge: React.FC = () => {
     setDischargeDate(new Date().toISOString().split('T')[0]);
     setDischargeTime(new Date().toTimeString().split(' ')[0].slice(0, 5));
     setDischargeNote('');
+    clearDisposition();
+  };
+
+  const clearDisposition = () => {
+    setDisposition('');
+    setDestination('');
+    setDeathAt('');
+    setCauseOfDeath('');
+    setCoronerReferral(false);
+    setBookFollowUp(false);
+  };
+
+  const handleDispositionChange = (value: DischargeDisposition | '') => {
+    setDisposition(value);
+    if (!takesDestination(value)) setDestination('');
+    if (value === 'deceased') {
+      setBookFollowUp(false);
+      setDeathAt(deathAt || `${dischargeDate}T${dischargeTime}`);
+    } else {
+      setDeathAt('');
+      setCauseOfDeath('');
+      setCoronerReferral(false);
+    }
   };
 
   const handleDischarge = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedRecord || !dischargeDate || !dischargeTime) {
+    if (!selectedRecord || selectedRecord.type !== 'patient' || !dischargeDate || !dischargeTime || !disposition) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (disposition === 'deceased' && (!deathAt || !causeOfDeath.trim())) {
+      toast.error('Time and cause of death are required');
+      return;
+    }
+
     try {
-      if (selectedRecord.type === 'patient') {
-        const { error } = await supabase
-          .from('patients')
-          .update({ 
-            patient_status: 'Discharged',
-            discharge_date: dischargeDate,
-            discharge_time: dischargeTime,
-            updated_at: new Date().toISOString(),
-            discharge_note: dischargeNote
-          })
-          .eq('mrn', selectedRecord.mrn);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('consultations')
-          .update({ 
-            status: 'Completed',
-            updated_at: new Date().toISOString()
-          })
-          .eq('mrn', selectedRecord.mrn);
-
-        if (error) throw error;
-      }
-
-      toast.success(`${selectedRecord.type === 'patient' ? 'Patient' : 'Consultation'} ${selectedRecord.patient_name} has been successfully discharged.`);
-      setRecords(records.filter(record => record.mrn !== selectedRecord.mrn));
-      setSelectedRecord(null);
-      setDischargeDate('');
-      setDischargeTime('');
-      setDischargeNote('');
+      const { error } = await supabase
+        .from('patients')
+        .update({ 
+          patient_status: 'Discharged',
+          discharge_date: dischargeDate,
+          discharge_time: dischargeTime,
+          updated_at: new Date().toISOString(),
+          discharge_note: dischargeNote,
+          discharge_disposition: disposition,
+          discharge_destination: takesDestination(disposition) ? destination.trim() || null : null,
+          death_at: disposition === 'deceased' ? new Date(deathAt).toISOString() : null,
+          cause_of_death: disposition === 'deceased' ? causeOfDeath.trim() : null,
+          coroner_referral: disposition === 'deceased' && coronerReferral
+        })
+        .eq('id', selectedRecord.id);
+
+      if (error) throw error;
+
+      toast.success(`Patient ${selectedRecord.patient_name} has been successfully discharged.`);
+      const followUpAdmissionId = bookFollowUp ? selectedRecord.id : null;
+      clearSelection();
+      if (followUpAdmissionId) navigate(`/book-appointment?admission=${followUpAdmissionId}`);
     } catch (error) {
       toast.error('Failed to discharge');
       console.error('Error:', error);
     }
   };
 
+  // Consultations are completed by signing off the written recommendations
+  const handleSignOff = async () => {
+    if (!selectedRecord || selectedRecord.type !== 'consultation') return;
+
+    try {
+      await advanceConsultation(selectedRecord.id, 'signed_off');
+      toast.success(`Consultation ${selectedRecord.patient_name} has been signed off.`);
+      clearSelection();
+    } catch (error) {
+      console.error('Error signing off consultation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sign off consultation');
+    }
+  };
+
+  const clearSelection = () => {
+    if (!selectedRecord) return;
+    setRecords(records.filter(record => record.id !== selectedRecord.id));
+    setSelectedRecord(null);
+    setDischargeDate('');
+    setDischargeTime('');
+    setDischargeNote('');
+    clearDisposition();
+  };
+
   const filteredRecords = records.filter(record =>
     record.patient_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     record.mrn.includes(searchTerm)
@@ -159,6 +247,23 @@ const PatientDischarge: React.FC = () => {
     (record.type === 'consultation' && record.consultation_specialty === selectedSpecialty)
   );
 
+  const readinessOf = (record: Patient) =>
+    readiness(checklistItems, checklistTicks.filter((tick) => tick.admission_id === record.id));
+
+  const readinessRatio = (record: Patient) => {
+    const { done, total } = readinessOf(record);
+    return total === 0 ? 0 : done / total;
+  };
+
+  // Closest to ready first, then whoever was expected to leave earliest
+  const plannedRecords = filteredRecords
+    .filter((record): record is Patient =>
+      record.type === 'patient' && !!record.expected_discharge_date && record.expected_discharge_date <= localDate(1))
+    .sort((a, b) =>
+      readinessRatio(b) - readinessRatio(a) || (a.expected_discharge_date || '').localeCompare(b.expected_discharge_date || ''));
+
+  const visibleRecords: CombinedRecord[] = view === 'planned' ? plannedRecords : filteredRecords;
+
   return (
     <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
       <h1 className="text-3xl font-bold text-gray-900 mb-6">Patient and Consultation Discharge</h1>
@@ -179,6 +284,22 @@ const PatientDischarge: React.FC = () => {
                 <Search className="h-5 w-5 text-gray-400" />
               </div>
             </div>
+            <div className="mt-2 flex rounded-md shadow-sm">
+              <button
+                type="button"
+                onClick={() => setView('all')}
+                className={`flex-1 px-3 py-2 text-sm font-medium rounded-l-md border ${view === 'all' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                All Active
+              </button>
+              <button
+                type="button"
+                onClick={() => setView('planned')}
+                className={`flex-1 px-3 py-2 text-sm font-medium rounded-r-md border-t border-b border-r ${view === 'planned' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Planned Today/Tomorrow
+              </button>
+            </div>
             <div className="mt-2">
               <select
                 className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
@@ -186,24 +307,30 @@ const PatientDischarge: React.FC = () => {
                 onChange={(e) => setSelectedSpecialty(e.target.value)}
               >
                 <option value="">All Specialties</option>
-                {specialtiesList.map((specialty) => (
-                  <option key={specialty} value={specialty}>{specialty}</option>
+                {specialties.map((specialty) => (
+                  <option key={specialty.id} value={specialty.name}>{specialty.name}</option>
                 ))}
               </select>
             </div>
           </div>
           <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
-            {filteredRecords.map((record) => (
+            {view === 'planned' && plannedRecords.length === 0 && (
+              <li className="px-4 py-4 sm:px-6 text-sm text-gray-500">No discharges are planned for today or tomorrow.</li>
+            )}
+            {visibleRecords.map((record) => (
               <li
-                key={record.mrn}
+                key={record.id}
                 className="px-4 py-4 sm:px-6 hover:bg-gray-50 cursor-pointer"
                 onClick={() => handleRecordSelect(record)}
               >
                 <div className="flex items-center justify-between">
                   <p className="text-sm font-medium text-indigo-600 truncate">{record.patient_name}</p>
                   <div className="ml-2 flex-shrink-0 flex">
+                    {record.type === 'patient' && readmissionIds.has(record.id) && (
+                      <span className="mr-2"><ReadmissionBadge /></span>
+                    )}
                     <p className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                      {record.type === 'patient' ? 'Patient' : 'Consultation'}
+                      {record.type === 'patient' ? 'Patient' : `Consultation · ${CONSULTATION_STATE_LABELS[record.workflow_state]}`}
                     </p>
                   </div>
                 </div>
@@ -222,6 +349,19 @@ const PatientDischarge: React.FC = () => {
                     </p>
                   </div>
                 </div>
+                {record.type === 'patient' && record.expected_discharge_date && (
+                  <div className="mt-2 flex items-center justify-between text-sm text-gray-500">
+                    <p className="flex items-center">
+                      <CalendarCheck className="flex-shrink-0 mr-1.5 h-5 w-5 text-gray-400" />
+                      Expected: {expectedDischargeLabel(record.expected_discharge_date)}
+                    </p>
+                    {view === 'planned' && checklistItems.length > 0 && (
+                      <p className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${readinessRatio(record) === 1 ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                        {readinessOf(record).done} of {readinessOf(record).total} ready
+                      </p>
+                    )}
+                  </div>
+                )}
               </li>
             ))}
           </ul>
@@ -231,46 +371,161 @@ const PatientDischarge: React.FC = () => {
           <div className="bg-white shadow sm:rounded-lg">
             <div className="px-4 py-5 sm:p-6">
               <h3 className="text-lg leading-6 font-medium text-gray-900">
-                Discharge {selectedRecord.type === 'patient' ? 'Patient' : 'Consultation'}: {selectedRecord.patient_name}
+                {selectedRecord.type === 'patient' ? 'Discharge Patient' : 'Sign Off Consultation'}: {selectedRecord.patient_name}
               </h3>
-              <form onSubmit={handleDischarge} className="mt-5 space-y-4">
-                <div>
-                  <label htmlFor="dischargeDate" className="block text-sm font-medium text-gray-700">
-                    Discharge Date
-                  </label>
-                  <div className="mt-1 relative rounded-md shadow-sm">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Calendar className="h-5 w-5 text-gray-400" />
+              {currentBed && (
+                <p className="mt-2 text-sm text-gray-500 flex items-center">
+                  <BedDouble className="h-4 w-4 mr-1 text-gray-400" />
+                  {bedLocation(currentBed)} will be released for cleaning.
+                </p>
+              )}
+              <EncounterHistory mrn={selectedRecord.mrn} currentId={selectedRecord.id} />
+              {selectedRecord.type === 'consultation' ? (
+                <div className="mt-5 space-y-4">
+                  <p className="text-sm text-gray-700">
+                    Current step: <span className="font-medium">{CONSULTATION_STATE_LABELS[selectedRecord.workflow_state]}</span>
+                  </p>
+                  {selectedRecord.workflow_state === 'recommended' ? (
+                    canSignOff && (
+                      <button
+                        type="button"
+                        onClick={handleSignOff}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      >
+                        <ClipboardCheck className="h-5 w-5 mr-2" />
+                        Sign Off Consultation
+                      </button>
+                    )
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      Recommendations must be written before this consultation can be signed off.{' '}
+                      <Link to={`/patient/${selectedRecord.mrn}?consultation=${selectedRecord.id}`} className="font-medium text-indigo-600 hover:text-indigo-900">
+                        Open consultation
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <form onSubmit={handleDischarge} className="mt-5 space-y-4">
+                  <div>
+                    <label htmlFor="dischargeDate" className="block text-sm font-medium text-gray-700">
+                      Discharge Date
+                    </label>
+                    <div className="mt-1 relative rounded-md shadow-sm">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <Calendar className="h-5 w-5 text-gray-400" />
+                      </div>
+                      <input
+                        type="date"
+                        id="dischargeDate"
+                        className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+                        value={dischargeDate}
+                        onChange={(e) => setDischargeDate(e.target.value)}
+                        required
+                      />
                     </div>
-                    <input
-                      type="date"
-                      id="dischargeDate"
-                      className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
-                      value={dischargeDate}
-                      onChange={(e) => setDischargeDate(e.target.value)}
-                      required
-                    />
                   </div>
-                </div>
-                <div>
-                  <label htmlFor="dischargeTime" className="block text-sm font-medium text-gray-700">
-                    Discharge Time
-                  </label>
-                  <div className="mt-1 relative rounded-md shadow-sm">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Clock className="h-5 w-5 text-gray-400" />
+                  <div>
+                    <label htmlFor="dischargeTime" className="block text-sm font-medium text-gray-700">
+                      Discharge Time
+                    </label>
+                    <div className="mt-1 relative rounded-md shadow-sm">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <Clock className="h-5 w-5 text-gray-400" />
+                      </div>
+                      <input
+                        type="time"
+                        id="dischargeTime"
+                        className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+                        value={dischargeTime}
+                        onChange={(e) => setDischargeTime(e.target.value)}
+                        required
+                      />
                     </div>
-                    <input
-                      type="time"
-                      id="dischargeTime"
-                      className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
-                      value={dischargeTime}
-                      onChange={(e) => setDischargeTime(e.target.value)}
+                  </div>
+                  <div>
+                    <label htmlFor="disposition" className="block text-sm font-medium text-gray-700">
+                      Disposition
+                    </label>
+                    <select
+                      id="disposition"
+                      className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                      value={disposition}
+                      onChange={(e) => handleDispositionChange(e.target.value as DischargeDisposition | '')}
                       required
-                    />
+                    >
+                      <option value="">Select disposition</option>
+                      {DISPOSITION_OPTIONS.map((option) => (
+                        <option key={option} value={option}>{DISPOSITION_LABELS[option]}</option>
+                      ))}
+                    </select>
                   </div>
-                </div>
-                {selectedRecord.type === 'patient' && (
+                  {takesDestination(disposition) && (
+                    <div>
+                      <label htmlFor="destination" className="block text-sm font-medium text-gray-700">
+                        Destination Facility
+                      </label>
+                      <input
+                        type="text"
+                        id="destination"
+                        className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                        placeholder="Optional"
+                        value={destination}
+                        onChange={(e) => setDestination(e.target.value)}
+                      />
+                    </div>
+                  )}
+                  {disposition === 'deceased' && (
+                    <div className="rounded-md border border-gray-200 bg-gray-50 p-4 space-y-4">
+                      <div>
+                        <label htmlFor="deathAt" className="block text-sm font-medium text-gray-700">
+                          Time of Death
+                        </label>
+                        <input
+                          type="datetime-local"
+                          id="deathAt"
+                          className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                          value={deathAt}
+                          onChange={(e) => setDeathAt(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="causeOfDeath" className="block text-sm font-medium text-gray-700">
+                          Cause of Death
+                        </label>
+                        <textarea
+                          id="causeOfDeath"
+                          rows={2}
+                          className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                          value={causeOfDeath}
+                          onChange={(e) => setCauseOfDeath(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <label className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-2"
+                          checked={coronerReferral}
+                          onChange={(e) => setCoronerReferral(e.target.checked)}
+                        />
+                        Referred to the coroner
+                      </label>
+                    </div>
+                  )}
+                  {canBook && disposition !== 'deceased' && (
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-2"
+                        checked={bookFollowUp}
+                        onChange={(e) => setBookFollowUp(e.target.checked)}
+                      />
+                      <CalendarCheck className="h-4 w-4 mr-1 text-gray-400" />
+                      Book a {selectedRecord.specialty} clinic follow-up after discharge
+                    </label>
+                  )}
                   <div>
                     <label htmlFor="dischargeNote" className="block text-sm font-medium text-gray-700">
                       Discharge Note
@@ -285,17 +540,18 @@ const PatientDischarge: React.FC = () => {
                       />
                     </div>
                   </div>
-                )}
-                <div>
-                  <button
-                    type="submit"
-                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                  >
-                    <UserMinus className="h-5 w-5 mr-2" />
-                    Discharge {selectedRecord.type === 'patient' ? 'Patient' : 'Consultation'}
-                  </button>
-                </div>
-              </form>
+                  <div>
+                    <button
+                      type="submit"
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                      <UserMinus className="h-5 w-5 mr-2" />
+                      Discharge Patient
+                    </button>
+                  </div>
+                </form>
+              )}
+              {selectedRecord.type === 'patient' && <DischargeSummaryEditor admissionId={selectedRecord.id} />}
             </div>
           </div>
         )}
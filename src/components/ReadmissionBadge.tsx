@@ -0,0 +1,12 @@
+import React from 'react';
+
+const ReadmissionBadge: React.FC = () => (
+  <span
+    className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800"
+    title="Admitted within 30 days of a previous discharge"
+  >
+    Readmission
+  </span>
+);
+
+export default ReadmissionBadge;
@@ -1,10 +1,10 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Calendar, FileText, Download, User } from 'lucide-react';
+import { Calendar, FileText, Download } from 'lucide-react';
 import { supabase } from '../supabaseClient';
 import { toast } from 'react-toastify';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import { DischargeOutcomes, DISPOSITION_LABELS, fetchDischargeOutcomes, formatRate } from '../dispositions';
 
 interface Patient {
   mrn: string;
@@ -15,40 +15,16 @@ interface Patient {
   assigned_doctor: string;
   specialty: string;
   diagnosis: string;
+  disposition: string;
   type: 'Admission' | 'Consultation';
 }
 
-interface User {
-  id: string;
-  employeeCode: string;
-  isAdmin: boolean;
-  name: string;
-}
-
-interface ReportGenerationPageProps {
-  user: User;
-}
-
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
-
-const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) => {
+const ReportGenerationPage: React.FC = () => {
   const [fromDate, setFromDate] = useState('');
   const [toDate, setToDate] = useState('');
   const [patients, setPatients] = useState<Patient[]>([]);
+  const [outcomes, setOutcomes] = useState<DischargeOutcomes[]>([]);
   const [loading, setLoading] = useState(false);
-  const navigate = useNavigate();
 
   const generateReport = async () => {
     if (!fromDate || !toDate) {
@@ -74,7 +50,9 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
           patient_name,
           age,
           gender,
-          assigned_doctor
+          assigned_doctor,
+          patient_status,
+          discharge_disposition
         `)
         .gte('admission_date', fromDate)
         .lte('admission_date', toDate)
@@ -108,6 +86,9 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
         assigned_doctor: patient.assigned_doctor,
         specialty: patient.specialty,
         diagnosis: patient.diagnosis,
+        disposition: patient.discharge_disposition
+          ? DISPOSITION_LABELS[patient.discharge_disposition as keyof typeof DISPOSITION_LABELS]
+          : patient.patient_status,
         type: 'Admission' as const
       }));
 
@@ -120,10 +101,14 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
         assigned_doctor: consultation.requesting_department,
         specialty: consultation.consultation_specialty,
         diagnosis: 'Consultation',
+        disposition: '',
         type: 'Consultation' as const
       }));
 
       setPatients([...formattedPatientData, ...formattedConsultationData]);
+
+      // Outcomes are counted by discharge date, so they can include stays admitted before the range
+      setOutcomes(await fetchDischargeOutcomes(fromDate, toDate));
     } catch (error) {
       console.error('Error fetching report data:', error);
       toast.error('Failed to generate report');
@@ -137,7 +122,7 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
     doc.text('Patient Report', 14, 15);
     doc.text(`From: ${fromDate} To: ${toDate}`, 14, 25);
 
-    const tableColumn = ["MRN", "Name", "Age", "Gender", "Admission Date", "Doctor", "Specialty", "Diagnosis", "Type"];const tableRows = patients.map(patient => [
+    const tableColumn = ["MRN", "Name", "Age", "Gender", "Admission Date", "Doctor", "Specialty", "Diagnosis", "Disposition", "Type"];const tableRows = patients.map(patient => [
       patient.mrn,
       patient.patient_name,
       patient.age,
@@ -146,6 +131,7 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
       patient.assigned_doctor,
       patient.specialty,
       patient.diagnosis,
+      patient.disposition,
       patient.type
     ]);
 
@@ -155,14 +141,27 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
       startY: 35,
     });
 
+    if (outcomes.length > 0) {
+      const tables = doc as jsPDF & { autoTable: (options: object) => void; lastAutoTable: { finalY: number } };
+      tables.autoTable({
+        head: [["Specialty", "Discharges", "Home", "Transferred", "Left AMA", "Deaths", "Mortality", "AMA Rate"]],
+        body: outcomes.map((row) => [
+          row.specialty,
+          row.discharges,
+          row.home,
+          row.transferred_out,
+          row.left_ama,
+          row.deaths,
+          formatRate(row.mortality_rate),
+          formatRate(row.ama_rate),
+        ]),
+        startY: tables.lastAutoTable.finalY + 10,
+      });
+    }
+
     doc.save(`patient_report_${fromDate}_to_${toDate}.pdf`);
   };
 
-  if (!user.isAdmin) {
-    navigate('/dashboard');
-    return null;
-  }
-
   return (
     <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
       <div className="px-4 py-6 sm:px-0">
@@ -234,12 +233,13 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned Doctor</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Specialty</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Diagnosis</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Disposition</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {patients.map((patient) => (
-                    <tr key={patient.mrn}>
+                    <tr key={`${patient.type}-${patient.mrn}-${patient.admission_date}`}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{patient.mrn}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.patient_name}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.age}</td>
@@ -248,12 +248,52 @@ const ReportGenerationPage: React.FC<ReportGenerationPageProps> = ({ user }) =>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.assigned_doctor}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.specialty}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.diagnosis}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.disposition}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{patient.type}</td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
+
+            {outcomes.length > 0 && (
+              <>
+                <h2 className="text-xl font-semibold mt-8 mb-4">Discharge Outcomes by Specialty</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Specialty</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discharges</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Home</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transferred Out</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Left AMA</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deaths</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mortality</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">AMA Rate</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {outcomes.map((row) => (
+                        <tr key={row.specialty}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.specialty}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {row.discharges}
+                            {row.coded_discharges < row.discharges && ` (${row.discharges - row.coded_discharges} not coded)`}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.home}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.transferred_out}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.left_ama}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.deaths}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatRate(row.mortality_rate)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatRate(row.ama_rate)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
           </div>
         )}
 
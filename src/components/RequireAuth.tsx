@@ -0,0 +1,31 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useSession } from '../session';
+import { Permission, hasPermission } from '../permissions';
+
+interface RequireAuthProps {
+  children: React.ReactElement;
+  permission?: Permission;
+}
+
+const RequireAuth: React.FC<RequireAuthProps> = ({ children, permission }) => {
+  const { user, loading } = useSession();
+  const location = useLocation();
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  if (!user) {
+    // Remember where the user was heading so Login can send them back there
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (permission && !hasPermission(user, permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return children;
+};
+
+export default RequireAuth;
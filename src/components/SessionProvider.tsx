@@ -0,0 +1,42 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../supabaseClient';
+import { User, restoreSession, signOut as endSession } from '../auth';
+import { SessionContext, clearSessionState } from '../session';
+
+const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    restoreSession()
+      .then(setUser)
+      .finally(() => setLoading(false));
+
+    // Drop the user when the token expires without refresh or another tab signs out
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        clearSessionState();
+        setUser(null);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await endSession();
+    } finally {
+      clearSessionState();
+      setUser(null);
+    }
+  }, []);
+
+  return (
+    <SessionContext.Provider value={{ user, loading, setUser, signOut }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export default SessionProvider;
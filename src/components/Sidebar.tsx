@@ -1,14 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, UserPlus, UserMinus, Activity, FileText, Menu, X, Info, Calendar } from 'lucide-react';
+import { Home, UserPlus, UserMinus, Activity, FileText, Menu, X, Info, Calendar, CalendarClock, ListOrdered, KeyRound, LogOut, History, BedDouble, LucideIcon } from 'lucide-react';
+import { useSession } from '../session';
+import { Permission, hasPermission } from '../permissions';
 
 interface SidebarProps {
   isExpanded: boolean;
   setIsExpanded: (isExpanded: boolean) => void;
 }
 
+interface NavItem {
+  name: string;
+  icon: LucideIcon;
+  path: string;
+  permission?: Permission;
+}
+
 const Sidebar: React.FC<SidebarProps> = ({ isExpanded, setIsExpanded }) => {
   const location = useLocation();
+  const { user, signOut } = useSession();
   const [isMobile, setIsMobile] = useState(window.innerWidth < 1024);
 
   useEffect(() => {
@@ -20,16 +30,23 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, setIsExpanded }) => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const navItems = [
+  const allNavItems: NavItem[] = [
     { name: 'Dashboard', icon: Home, path: '/dashboard' },
-    { name: 'New Admission', icon: UserPlus, path: '/new-admission' },
-    { name: 'Discharge', icon: UserMinus, path: '/discharge' },
-    { name: 'Specialties', icon: Activity, path: '/specialties' },
-    { name: 'Daily Report', icon: FileText, path: '/daily-report' },
-    { name: 'Book Appointment', icon: Calendar, path: '/book-appointment' },
+    { name: 'New Admission', icon: UserPlus, path: '/new-admission', permission: 'admit_patients' },
+    { name: 'Discharge', icon: UserMinus, path: '/discharge', permission: 'discharge_patients' },
+    { name: 'Specialties', icon: Activity, path: '/specialties', permission: 'view_patients' },
+    { name: 'Bed Board', icon: BedDouble, path: '/beds', permission: 'view_patients' },
+    { name: 'Daily Report', icon: FileText, path: '/daily-report', permission: 'view_reports' },
+    { name: 'Appointments', icon: CalendarClock, path: '/appointments', permission: 'view_patients' },
+    { name: 'Waiting List', icon: ListOrdered, path: '/waiting-list', permission: 'view_patients' },
+    { name: 'Book Appointment', icon: Calendar, path: '/book-appointment', permission: 'book_appointments' },
+    { name: 'Audit Log', icon: History, path: '/admin/audit', permission: 'view_audit_log' },
+    { name: 'Account', icon: KeyRound, path: '/account' },
     { name: 'About', icon: Info, path: '/about' },
   ];
 
+  const navItems = allNavItems.filter((item) => !item.permission || hasPermission(user, item.permission));
+
   if (isMobile) {
     return null; // Bottom navigation will be rendered separately
   }
@@ -69,6 +86,15 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, setIsExpanded }) => {
             ))}
           </ul>
         </nav>
+        <div className="p-2 border-t border-indigo-700">
+          <button
+            onClick={signOut}
+            className="flex items-center w-full p-2 rounded-lg hover:bg-indigo-700"
+          >
+            <LogOut className="h-6 w-6 flex-shrink-0" />
+            {isExpanded && <span className="ml-3">Sign out</span>}
+          </button>
+        </div>
       </div>
     </div>
   );
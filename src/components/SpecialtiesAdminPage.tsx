@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, Plus, Save, ArrowUp, ArrowDown, Edit } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+import { Specialty, fetchSpecialties } from '../specialties';
+
+const DEFAULT_COLOUR = '#6366F1';
+
+const SpecialtiesAdminPage: React.FC = () => {
+  const [specialties, setSpecialties] = useState<Specialty[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newColour, setNewColour] = useState(DEFAULT_COLOUR);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSpecialties();
+  }, []);
+
+  const loadSpecialties = async () => {
+    try {
+      setLoading(true);
+      setSpecialties(await fetchSpecialties(false));
+    } catch (error) {
+      console.error('Error fetching specialties:', error);
+      toast.error('Failed to fetch specialties');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSpecialty = async (id: number, changes: Partial<Specialty>) => {
+    const { error } = await supabase
+      .from('specialties')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+
+    setSpecialties((current) => current.map((specialty) => (specialty.id === id ? { ...specialty, ...changes } : specialty)));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const sortOrder = Math.max(0, ...specialties.map((specialty) => specialty.sort_order)) + 1;
+      const { data, error } = await supabase
+        .from('specialties')
+        .insert([{ name: newName.trim(), colour: newColour, sort_order: sortOrder }])
+        .select();
+
+      if (error) throw error;
+
+      setSpecialties([...specialties, data[0]]);
+      setNewName('');
+      setNewColour(DEFAULT_COLOUR);
+      toast.success('Specialty added successfully');
+    } catch (error) {
+      console.error('Error adding specialty:', error);
+      toast.error('Failed to add specialty. The name may already exist.');
+    }
+  };
+
+  // Renaming cascades to every admission, consultation and appointment that uses the old name
+  const handleRename = async (id: number) => {
+    if (!nameDraft.trim()) return;
+
+    try {
+      await updateSpecialty(id, { name: nameDraft.trim() });
+      setEditingId(null);
+      toast.success('Specialty renamed successfully');
+    } catch (error) {
+      console.error('Error renaming specialty:', error);
+      toast.error('Failed to rename specialty. The name may already exist.');
+    }
+  };
+
+  const handleChange = async (id: number, changes: Partial<Specialty>) => {
+    try {
+      await updateSpecialty(id, changes);
+    } catch (error) {
+      console.error('Error updating specialty:', error);
+      toast.error('Failed to update specialty');
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= specialties.length) return;
+
+    const reordered = [...specialties];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      // Renumber the whole list so ties from older data cannot keep two rows in place
+      await Promise.all(
+        reordered
+          .map((specialty, position) => ({ specialty, sortOrder: position + 1 }))
+          .filter(({ specialty, sortOrder }) => specialty.sort_order !== sortOrder)
+          .map(({ specialty, sortOrder }) => updateSpecialty(specialty.id, { sort_order: sortOrder }))
+      );
+      setSpecialties(reordered.map((specialty, position) => ({ ...specialty, sort_order: position + 1 })));
+    } catch (error) {
+      console.error('Error reordering specialties:', error);
+      toast.error('Failed to reorder specialties');
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Specialties</h1>
+
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
+          <ul className="divide-y divide-gray-200">
+            {specialties.map((specialty, index) => (
+              <li key={specialty.id} className="px-4 py-3 sm:px-6 flex items-center justify-between">
+                <div className="flex items-center flex-1">
+                  <input
+                    type="color"
+                    aria-label={`${specialty.name} colour`}
+                    className="h-8 w-8 mr-3 rounded border border-gray-300"
+                    value={specialty.colour}
+                    onChange={(e) => handleChange(specialty.id, { colour: e.target.value.toUpperCase() })}
+                  />
+                  {editingId === specialty.id ? (
+                    <div className="flex items-center">
+                      <input
+                        type="text"
+                        className="focus:ring-indigo-500 focus:border-indigo-500 block w-64 sm:text-sm border-gray-300 rounded-md"
+                        value={nameDraft}
+                        onChange={(e) => setNameDraft(e.target.value)}
+                        autoFocus
+                      />
+                      <button onClick={() => handleRename(specialty.id)} className="ml-2 text-indigo-600 hover:text-indigo-900" title="Save name">
+                        <Save className="h-5 w-5" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="ml-2 text-sm text-gray-500 hover:text-gray-700">
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <span className={`text-sm font-medium ${specialty.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      {specialty.name}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => handleMove(index, -1)} className="text-gray-500 hover:text-gray-700" title="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => handleMove(index, 1)} className="text-gray-500 hover:text-gray-700" title="Move down">
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingId(specialty.id);
+                      setNameDraft(specialty.name);
+                    }}
+                    className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                  >
+                    <Edit className="h-4 w-4 mr-1" />
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleChange(specialty.id, { is_active: !specialty.is_active })}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    {specialty.is_active ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <Activity className="h-5 w-5 mr-2 text-indigo-500" />
+            Add Specialty
+          </h2>
+          <form onSubmit={handleAdd} className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label htmlFor="specialtyName" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                id="specialtyName"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="specialtyColour" className="block text-sm font-medium text-gray-700">Colour</label>
+              <input
+                type="color"
+                id="specialtyColour"
+                className="mt-1 h-9 w-12 rounded border border-gray-300"
+                value={newColour}
+                onChange={(e) => setNewColour(e.target.value.toUpperCase())}
+              />
+            </div>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Add
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecialtiesAdminPage;
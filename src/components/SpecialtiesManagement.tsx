@@ -3,8 +3,15 @@ import { Activity, Users, CheckCircle, XCircle, Search, ArrowUpDown, Calendar, F
 import { Link } from 'react-router-dom';
 import { supabase } from '../supabaseClient';
 import { toast } from 'react-toastify';
+import { News2Score } from '../news2';
+import { fetchSpecialties } from '../specialties';
+import News2Badge from './News2Badge';
+import { fetchPendingTransfers } from '../transfers';
+import { fetchReadmissionIds } from '../encounters';
+import ReadmissionBadge from './ReadmissionBadge';
 
 interface Patient {
+  id: string;
   mrn: string;
   patient_name: string;
   admission_date: string;
@@ -16,6 +23,7 @@ interface Patient {
 }
 
 interface Consultation {
+  id: string;
   mrn: string;
   patient_name: string;
   created_at: string;
@@ -27,25 +35,15 @@ interface Consultation {
 
 interface SpecialtyData {
   specialty: string;
+  colour: string;
   patients: (Patient | Consultation)[];
 }
 
-const specialtiesList = [
-  'General Internal Medicine',
-  'Respiratory Medicine',
-  'Infectious Diseases',
-  'Neurology',
-  'Gastroenterology',
-  'Rheumatology',
-  'Hematology',
-  'Thrombosis Medicine',
-  'Immunology & Allergy',
-  'Safety Admission',
-  'Medical Consultations'
-];
-
 const SpecialtiesManagement: React.FC = () => {
   const [specialtiesData, setSpecialtiesData] = useState<SpecialtyData[]>([]);
+  const [news2ByMrn, setNews2ByMrn] = useState<Record<string, News2Score>>({});
+  const [pendingTransferByMrn, setPendingTransferByMrn] = useState<Record<string, string>>({});
+  const [readmissionIds, setReadmissionIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -65,6 +63,7 @@ const SpecialtiesManagement: React.FC = () => {
       const { data: patientsData, error: patientsError } = await supabase
         .from('patients')
         .select(`
+          id,
           mrn,
           patient_name,
           admission_date,
@@ -79,6 +78,7 @@ const SpecialtiesManagement: React.FC = () => {
       const { data: consultationsData, error: consultationsError } = await supabase
         .from('consultations')
         .select(`
+          id,
           mrn,
           patient_name,
           created_at,
@@ -89,8 +89,20 @@ const SpecialtiesManagement: React.FC = () => {
         `)
         .order('created_at', { ascending: false });
 
+      const { data: news2Data, error: news2Error } = await supabase
+        .from('latest_news2_scores')
+        .select('*');
+
       if (patientsError) throw patientsError;
       if (consultationsError) throw consultationsError;
+      if (news2Error) throw news2Error;
+
+      const specialties = await fetchSpecialties(false);
+      const pendingTransfers = await fetchPendingTransfers();
+      setReadmissionIds(await fetchReadmissionIds());
+
+      setPendingTransferByMrn(Object.fromEntries(pendingTransfers.map((transfer) => [transfer.mrn, transfer.to_specialty])));
+      setNews2ByMrn(Object.fromEntries((news2Data || []).map((score: News2Score) => [score.mrn, score])));
 
       if (!patientsData && !consultationsData) {
         setSpecialtiesData([]);
@@ -114,10 +126,14 @@ const SpecialtiesManagement: React.FC = () => {
         })),
       ];
 
-      const groupedData = specialtiesList.map(specialty => ({
-        specialty,
-        patients: allData.filter(item => item.specialty === specialty)
-      }));
+      // Retired specialties are listed only while they still have patients
+      const groupedData = specialties
+        .filter(specialty => specialty.is_active || allData.some(item => item.specialty === specialty.name))
+        .map(specialty => ({
+          specialty: specialty.name,
+          colour: specialty.colour,
+          patients: allData.filter(item => item.specialty === specialty.name)
+        }));
 
       setSpecialtiesData(groupedData);
     } catch (error) {
@@ -203,8 +219,8 @@ const SpecialtiesManagement: React.FC = () => {
               onChange={(e) => setSelectedSpecialty(e.target.value)}
             >
               <option value="">All Specialties</option>
-              {specialtiesList.map((specialty) => (
-                <option key={specialty} value={specialty}>{specialty}</option>
+              {specialtiesData.map((specialty) => (
+                <option key={specialty.specialty} value={specialty.specialty}>{specialty.specialty}</option>
               ))}
             </select>
           </div>
@@ -212,10 +228,10 @@ const SpecialtiesManagement: React.FC = () => {
       </div>
 
       {filteredData.map((specialty) => (
-        <div key={specialty.specialty} className="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
+        <div key={specialty.specialty} className="bg-white shadow overflow-hidden sm:rounded-lg mb-6 border-l-4" style={{ borderLeftColor: specialty.colour }}>
           <div className="px-4 py-5 sm:px-6">
             <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
-              <Activity className="h-5 w-5 mr-2 text-indigo-500" />
+              <Activity className="h-5 w-5 mr-2" style={{ color: specialty.colour }} />
               {specialty.specialty}
             </h2>
           </div>
@@ -245,6 +261,9 @@ const SpecialtiesManagement: React.FC = () => {
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      NEWS2
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       <button onClick={() => handleSort('diagnosis')} className="flex items-center">
                         Diagnosis/Department
@@ -261,9 +280,13 @@ const SpecialtiesManagement: React.FC = () => {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {sortedData(specialty.patients).map((patient) => (
-                    <tr key={patient.mrn}>
+                    <tr key={patient.id}>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">{patient.patient_name}</div>
+                        {readmissionIds.has(patient.id) && <ReadmissionBadge />}
+                        {!('consultation_specialty' in patient) && pendingTransferByMrn[patient.mrn] && (
+                          <div className="text-xs text-yellow-700">Transfer to {pendingTransferByMrn[patient.mrn]} pending</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-500">{patient.mrn}</div>
@@ -283,6 +306,16 @@ const SpecialtiesManagement: React.FC = () => {
                           {patient.patient_status}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {(patient as Patient).patient_status === 'Active' && news2ByMrn[patient.mrn] ? (
+                          <News2Badge
+                            score={news2ByMrn[patient.mrn].total_score}
+                            responseLevel={news2ByMrn[patient.mrn].response_level}
+                          />
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-900">{patient.diagnosis}</div>
                       </td>
@@ -291,7 +324,7 @@ const SpecialtiesManagement: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <Link
-                          to={`/patient/${patient.mrn}`}
+                          to={`/patient/${patient.mrn}?${'consultation_specialty' in patient ? 'consultation' : 'admission'}=${patient.id}`}
                           className="text-indigo-600 hover:text-indigo-900 flex items-center"
                         >
                           <Eye className="h-4 w-4 mr-1" />
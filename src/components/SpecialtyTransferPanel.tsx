@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowRightLeft, Check, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { useSpecialties } from '../specialties';
+import {
+  SpecialtyTransfer,
+  SpecialtyStay,
+  Consultant,
+  TransferStatus,
+  TRANSFER_STATUS_LABELS,
+  stayDays,
+  fetchTransfers,
+  fetchStays,
+  fetchConsultants,
+  requestTransfer,
+  respondToTransfer,
+} from '../transfers';
+
+interface SpecialtyTransferPanelProps {
+  mrn: string;
+  specialty: string;
+  isActive: boolean;
+  onTransferred: () => void;
+}
+
+const SpecialtyTransferPanel: React.FC<SpecialtyTransferPanelProps> = ({ mrn, specialty, isActive, onTransferred }) => {
+  const { user } = useSession();
+  const canTransfer = hasPermission(user, 'admit_patients');
+  const { specialties } = useSpecialties();
+  const [transfers, setTransfers] = useState<SpecialtyTransfer[]>([]);
+  const [stays, setStays] = useState<SpecialtyStay[]>([]);
+  const [consultants, setConsultants] = useState<Consultant[]>([]);
+  const [toSpecialty, setToSpecialty] = useState('');
+  const [toConsultant, setToConsultant] = useState('');
+  const [reason, setReason] = useState('');
+  const [responseNote, setResponseNote] = useState('');
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    if (!canTransfer) return;
+
+    fetchConsultants()
+      .then(setConsultants)
+      .catch((error) => console.error('Error fetching consultants:', error));
+  }, [canTransfer]);
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      const [transferData, stayData] = await Promise.all([fetchTransfers(mrn), fetchStays(mrn)]);
+      setTransfers(transferData);
+      setStays(stayData);
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+      toast.error('Failed to fetch transfer history');
+    }
+  }, [mrn]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const pending = transfers.find((transfer) => transfer.status === 'pending');
+  const isRequester = pending?.requested_by === user?.id;
+  // Mirrors respond_to_specialty_transfer: the named consultant or anyone in the receiving specialty
+  const isReceiver = !!pending && !!user && (pending.to_consultant === user.name || pending.to_specialty === user.specialty);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await requestTransfer(mrn, toSpecialty, toConsultant, reason.trim());
+      toast.success(`Transfer to ${toSpecialty} requested`);
+      setShowForm(false);
+      setToSpecialty('');
+      setToConsultant('');
+      setReason('');
+      loadTransfers();
+    } catch (error) {
+      console.error('Error requesting transfer:', error);
+      toast.error('Failed to request transfer');
+    }
+  };
+
+  const handleRespond = async (status: Exclude<TransferStatus, 'pending'>) => {
+    if (!pending) return;
+
+    try {
+      await respondToTransfer(pending.id, status, responseNote || null);
+      toast.success(`Transfer ${TRANSFER_STATUS_LABELS[status].toLowerCase()}`);
+      setResponseNote('');
+      loadTransfers();
+      if (status === 'accepted') onTransferred();
+    } catch (error) {
+      console.error('Error responding to transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to transfer');
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <ArrowRightLeft className="h-5 w-5 mr-2 text-indigo-500" />
+          Specialty Transfers
+        </h3>
+        {canTransfer && isActive && !pending && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+          >
+            Request Transfer
+          </button>
+        )}
+      </div>
+
+      {pending && (
+        <div className="mb-4 rounded-md bg-yellow-50 border border-yellow-200 px-4 py-3 text-sm text-yellow-900">
+          <p className="font-semibold">
+            Transfer to {pending.to_specialty} ({pending.to_consultant}) awaiting the receiving team
+          </p>
+          <p className="mt-1">{pending.reason}</p>
+          <p className="mt-1 text-xs text-yellow-700">
+            Requested by {pending.requested_by_name} on {new Date(pending.requested_at).toLocaleString()}
+          </p>
+          {canTransfer && (isRequester || isReceiver) && (
+            <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2">
+              {isRequester ? (
+                <button
+                  onClick={() => handleRespond('cancelled')}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel Request
+                </button>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    placeholder="Response note (optional)"
+                    className="focus:ring-indigo-500 focus:border-indigo-500 block sm:w-64 sm:text-sm border-gray-300 rounded-md"
+                    value={responseNote}
+                    onChange={(e) => setResponseNote(e.target.value)}
+                  />
+                  <button
+                    onClick={() => handleRespond('accepted')}
+                    className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => handleRespond('rejected')}
+                    className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleRequest} className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 mb-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="transfer-specialty" className="block text-sm font-medium text-gray-700">Receiving specialty</label>
+              <select
+                id="transfer-specialty"
+                className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={toSpecialty}
+                onChange={(e) => setToSpecialty(e.target.value)}
+                required
+              >
+                <option value="">Select specialty</option>
+                {specialties
+                  .filter((s) => s.name !== specialty)
+                  .map((s) => (
+                    <option key={s.id} value={s.name}>{s.name}</option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="transfer-consultant" className="block text-sm font-medium text-gray-700">Receiving consultant</label>
+              <select
+                id="transfer-consultant"
+                className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={toConsultant}
+                onChange={(e) => setToConsultant(e.target.value)}
+                required
+              >
+                <option value="">Select consultant</option>
+                {consultants.map((consultant) => (
+                  <option key={consultant.id} value={consultant.employee_name}>{consultant.employee_name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="transfer-reason" className="block text-sm font-medium text-gray-700">Reason</label>
+              <textarea
+                id="transfer-reason"
+                rows={2}
+                className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <ArrowRightLeft className="h-5 w-5 mr-2" />
+              Request Transfer
+            </button>
+          </div>
+        </form>
+      )}
+
+      {stays.length > 0 && (
+        <div className="bg-white shadow overflow-x-auto sm:rounded-lg mb-4">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Specialty</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Consultant</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {stays.map((stay) => (
+                <tr key={stay.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{stay.specialty}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{stay.consultant}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{new Date(stay.started_at).toLocaleString()}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {stay.ended_at ? new Date(stay.ended_at).toLocaleString() : 'Current'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{stayDays(stay).toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {transfers.filter((transfer) => transfer.status !== 'pending').length > 0 && (
+        <ul className="bg-white shadow sm:rounded-lg divide-y divide-gray-200">
+          {transfers
+            .filter((transfer) => transfer.status !== 'pending')
+            .map((transfer) => (
+              <li key={transfer.id} className="px-4 py-3 text-sm">
+                <p className="text-gray-900">
+                  {transfer.from_specialty} → {transfer.to_specialty} ({transfer.to_consultant}) ·{' '}
+                  <span className="font-medium">{TRANSFER_STATUS_LABELS[transfer.status]}</span>
+                </p>
+                <p className="text-gray-500">{transfer.reason}</p>
+                <p className="text-xs text-gray-400">
+                  Requested by {transfer.requested_by_name} on {new Date(transfer.requested_at).toLocaleString()}
+                  {transfer.responded_at && ` · ${transfer.responded_by_name || 'System'} on ${new Date(transfer.responded_at).toLocaleString()}`}
+                  {transfer.response_note && ` · ${transfer.response_note}`}
+                </p>
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SpecialtyTransferPanel;
@@ -0,0 +1,633 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Clock, Save, FileText, ArrowRight, HeartPulse, Activity, BedDouble, Hash, CalendarCheck, CalendarDays, Archive, ListOrdered, Plus, Trash2, Globe } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useCurrentUser } from '../session';
+import {
+  fetchSetting,
+  saveSetting,
+  DEFAULT_IDLE_TIMEOUT,
+  IdleTimeoutSettings,
+  DEFAULT_VITAL_RANGES,
+  VitalKey,
+  VitalRanges,
+  DEFAULT_MRN_FORMAT,
+  MrnFormatSettings,
+  DEFAULT_DISCHARGE_CHECKLIST,
+  DischargeChecklistSettings,
+  DEFAULT_HOSPITAL_TIME_ZONE,
+  HospitalTimeZoneSettings,
+  DEFAULT_APPOINTMENT_RETENTION,
+  AppointmentRetentionSettings,
+  DEFAULT_WAITING_LIST,
+  WaitingListSettings,
+} from '../settings';
+import { VITAL_SIGNS } from '../vitals';
+import { archiveAppointments } from '../appointments';
+import { PRIORITY_LABELS, PRIORITY_OPTIONS } from '../waitingList';
+
+const SystemSettingsPage: React.FC = () => {
+  const user = useCurrentUser();
+  const [idleTimeout, setIdleTimeout] = useState<IdleTimeoutSettings>(DEFAULT_IDLE_TIMEOUT);
+  const [vitalRanges, setVitalRanges] = useState<VitalRanges>(DEFAULT_VITAL_RANGES);
+  const [mrnFormat, setMrnFormat] = useState<MrnFormatSettings>(DEFAULT_MRN_FORMAT);
+  const [dischargeChecklist, setDischargeChecklist] = useState<DischargeChecklistSettings>(DEFAULT_DISCHARGE_CHECKLIST);
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [hospitalTimeZone, setHospitalTimeZone] = useState<HospitalTimeZoneSettings>(DEFAULT_HOSPITAL_TIME_ZONE);
+  const [appointmentRetention, setAppointmentRetention] = useState<AppointmentRetentionSettings>(DEFAULT_APPOINTMENT_RETENTION);
+  const [waitingList, setWaitingList] = useState<WaitingListSettings>(DEFAULT_WAITING_LIST);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      setIdleTimeout(await fetchSetting('idle_timeout', DEFAULT_IDLE_TIMEOUT));
+      setVitalRanges(await fetchSetting('vital_ranges', DEFAULT_VITAL_RANGES));
+      setMrnFormat(await fetchSetting('mrn_format', DEFAULT_MRN_FORMAT));
+      setDischargeChecklist(await fetchSetting('discharge_checklist', DEFAULT_DISCHARGE_CHECKLIST));
+      setHospitalTimeZone(await fetchSetting('hospital_time_zone', DEFAULT_HOSPITAL_TIME_ZONE));
+      setAppointmentRetention(await fetchSetting('appointment_retention', DEFAULT_APPOINTMENT_RETENTION));
+      setWaitingList(await fetchSetting('waiting_list', DEFAULT_WAITING_LIST));
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      toast.error('Failed to fetch settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveIdleTimeout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (idleTimeout.sign_out_after_minutes <= idleTimeout.lock_after_minutes) {
+      toast.error('Sign-out time must be longer than the lock time');
+      return;
+    }
+
+    try {
+      await saveSetting('idle_timeout', idleTimeout, user.id);
+      toast.success('Idle timeout updated successfully');
+    } catch (error) {
+      console.error('Error saving idle timeout:', error);
+      toast.error('Failed to save idle timeout');
+    }
+  };
+
+  const updateVitalRange = (key: VitalKey, bound: 'min' | 'max', value: number) => {
+    setVitalRanges({ ...vitalRanges, [key]: { ...vitalRanges[key], [bound]: value } });
+  };
+
+  const handleSaveVitalRanges = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const invalid = VITAL_SIGNS.find((vital) => vitalRanges[vital.key].min > vitalRanges[vital.key].max);
+    if (invalid) {
+      toast.error(`${invalid.label}: the lower limit must not exceed the upper limit`);
+      return;
+    }
+
+    try {
+      await saveSetting('vital_ranges', vitalRanges, user.id);
+      toast.success('Normal ranges updated successfully');
+    } catch (error) {
+      console.error('Error saving vital ranges:', error);
+      toast.error('Failed to save normal ranges');
+    }
+  };
+
+  const handleSaveMrnFormat = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(mrnFormat.pattern);
+    } catch {
+      toast.error('The MRN pattern is not a valid regular expression');
+      return;
+    }
+
+    if (!pattern.test(mrnFormat.example)) {
+      toast.error('The example MRN does not match the pattern');
+      return;
+    }
+
+    try {
+      await saveSetting('mrn_format', mrnFormat, user.id);
+      toast.success('MRN format updated successfully');
+    } catch (error) {
+      console.error('Error saving MRN format:', error);
+      toast.error('Failed to save MRN format');
+    }
+  };
+
+  // Ticks are stored against the key, so rewording a label keeps existing ticks
+  const handleAddChecklistItem = () => {
+    const label = newChecklistItem.trim();
+    if (!label) return;
+
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'item';
+    let key = base;
+    for (let n = 2; dischargeChecklist.items.some((item) => item.key === key); n++) {
+      key = `${base}_${n}`;
+    }
+
+    setDischargeChecklist({ items: [...dischargeChecklist.items, { key, label }] });
+    setNewChecklistItem('');
+  };
+
+  const updateChecklistLabel = (key: string, label: string) => {
+    setDischargeChecklist({
+      items: dischargeChecklist.items.map((item) => (item.key === key ? { ...item, label } : item)),
+    });
+  };
+
+  const handleSaveDischargeChecklist = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (dischargeChecklist.items.some((item) => !item.label.trim())) {
+      toast.error('Checklist items need a label');
+      return;
+    }
+
+    try {
+      await saveSetting('discharge_checklist', {
+        items: dischargeChecklist.items.map((item) => ({ ...item, label: item.label.trim() })),
+      }, user.id);
+      toast.success('Discharge checklist updated successfully');
+    } catch (error) {
+      console.error('Error saving discharge checklist:', error);
+      toast.error('Failed to save discharge checklist');
+    }
+  };
+
+  const handleSaveHospitalTimeZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = hospitalTimeZone.name.trim();
+
+    try {
+      new Intl.DateTimeFormat(undefined, { timeZone: name });
+    } catch {
+      toast.error('The time zone name is not recognised');
+      return;
+    }
+
+    try {
+      await saveSetting('hospital_time_zone', { name }, user.id);
+      setHospitalTimeZone({ name });
+      toast.success('Hospital time zone updated successfully');
+    } catch (error) {
+      console.error('Error saving hospital time zone:', error);
+      toast.error('Failed to save hospital time zone');
+    }
+  };
+
+  // Saving applies the new policy straight away rather than at the next booking
+  const handleSaveAppointmentRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await saveSetting('appointment_retention', appointmentRetention, user.id);
+      const archived = await archiveAppointments();
+      toast.success(archived > 0
+        ? `Appointment retention updated, ${archived} appointment${archived === 1 ? '' : 's'} archived`
+        : 'Appointment retention updated successfully');
+    } catch (error) {
+      console.error('Error saving appointment retention:', error);
+      toast.error('Failed to save appointment retention');
+    }
+  };
+
+  // Only new referrals pick up changed targets; existing target dates stay as agreed
+  const handleSaveWaitingList = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { urgent, soon, routine } = waitingList.target_days;
+    if (!(urgent <= soon && soon <= routine)) {
+      toast.error('More urgent priorities need shorter target waits');
+      return;
+    }
+
+    try {
+      await saveSetting('waiting_list', waitingList, user.id);
+      toast.success('Waiting list targets updated successfully');
+    } catch (error) {
+      console.error('Error saving waiting list targets:', error);
+      toast.error('Failed to save waiting list targets');
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">System Settings</h1>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <Clock className="h-5 w-5 mr-2 text-indigo-500" />
+            Idle Timeout
+          </h2>
+          <form onSubmit={handleSaveIdleTimeout} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="lockAfter" className="block text-sm font-medium text-gray-700">
+                Lock screen after (minutes)
+              </label>
+              <input
+                type="number"
+                id="lockAfter"
+                min="1"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={idleTimeout.lock_after_minutes}
+                onChange={(e) => setIdleTimeout({ ...idleTimeout, lock_after_minutes: Number(e.target.value) })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="signOutAfter" className="block text-sm font-medium text-gray-700">
+                Sign out after (minutes)
+              </label>
+              <input
+                type="number"
+                id="signOutAfter"
+                min="2"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={idleTimeout.sign_out_after_minutes}
+                onChange={(e) => setIdleTimeout({ ...idleTimeout, sign_out_after_minutes: Number(e.target.value) })}
+                required
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <HeartPulse className="h-5 w-5 mr-2 text-indigo-500" />
+            Vital Sign Normal Ranges
+          </h2>
+          <form onSubmit={handleSaveVitalRanges}>
+            <div className="grid grid-cols-3 gap-4 items-center max-w-lg">
+              <span className="text-sm font-medium text-gray-500">Observation</span>
+              <span className="text-sm font-medium text-gray-500">Low</span>
+              <span className="text-sm font-medium text-gray-500">High</span>
+              {VITAL_SIGNS.map((vital) => (
+                <React.Fragment key={vital.key}>
+                  <span className="text-sm text-gray-700">{vital.label} ({vital.unit})</span>
+                  <input
+                    type="number"
+                    step={vital.step || '1'}
+                    aria-label={`${vital.label} low`}
+                    className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                    value={vitalRanges[vital.key].min}
+                    onChange={(e) => updateVitalRange(vital.key, 'min', Number(e.target.value))}
+                    required
+                  />
+                  <input
+                    type="number"
+                    step={vital.step || '1'}
+                    aria-label={`${vital.label} high`}
+                    className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                    value={vitalRanges[vital.key].max}
+                    onChange={(e) => updateVitalRange(vital.key, 'max', Number(e.target.value))}
+                    required
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+            <button
+              type="submit"
+              className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Save className="h-5 w-5 mr-2" />
+              Save
+            </button>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <Hash className="h-5 w-5 mr-2 text-indigo-500" />
+            MRN Format
+          </h2>
+          <form onSubmit={handleSaveMrnFormat} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="mrnPattern" className="block text-sm font-medium text-gray-700">
+                Pattern (regular expression)
+              </label>
+              <input
+                type="text"
+                id="mrnPattern"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+                value={mrnFormat.pattern}
+                onChange={(e) => setMrnFormat({ ...mrnFormat, pattern: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="mrnExample" className="block text-sm font-medium text-gray-700">
+                Example shown to staff
+              </label>
+              <input
+                type="text"
+                id="mrnExample"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={mrnFormat.example}
+                onChange={(e) => setMrnFormat({ ...mrnFormat, example: e.target.value })}
+                required
+              />
+            </div>
+            <div className="sm:col-span-2 flex items-center">
+              <input
+                type="checkbox"
+                id="mrnUppercase"
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                checked={mrnFormat.uppercase}
+                onChange={(e) => setMrnFormat({ ...mrnFormat, uppercase: e.target.checked })}
+              />
+              <label htmlFor="mrnUppercase" className="ml-2 block text-sm text-gray-700">
+                Convert MRNs to upper case as they are typed
+              </label>
+            </div>
+            <div className="sm:col-span-2">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <CalendarCheck className="h-5 w-5 mr-2 text-indigo-500" />
+            Discharge Checklist
+          </h2>
+          <form onSubmit={handleSaveDischargeChecklist} className="space-y-2">
+            {dischargeChecklist.items.map((item) => (
+              <div key={item.key} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  aria-label="Checklist item"
+                  className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={item.label}
+                  onChange={(e) => updateChecklistLabel(item.key, e.target.value)}
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setDischargeChecklist({ items: dischargeChecklist.items.filter((other) => other.key !== item.key) })}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove item"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                aria-label="New checklist item"
+                className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                placeholder="New item, e.g. Oxygen at home arranged"
+                value={newChecklistItem}
+                onChange={(e) => setNewChecklistItem(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddChecklistItem();
+                  }
+                }}
+              />
+              <button
+                type="button"
+                onClick={handleAddChecklistItem}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Plus className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="pt-2">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <Globe className="h-5 w-5 mr-2 text-indigo-500" />
+            Hospital Time Zone
+          </h2>
+          <form onSubmit={handleSaveHospitalTimeZone} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="hospitalTimeZone" className="block text-sm font-medium text-gray-700">
+                Time zone
+              </label>
+              <input
+                type="text"
+                id="hospitalTimeZone"
+                placeholder="Europe/London"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={hospitalTimeZone.name}
+                onChange={(e) => setHospitalTimeZone({ name: e.target.value })}
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Clinic slots that have already started in this time zone can no longer be booked.
+              </p>
+            </div>
+            <div className="sm:col-span-2">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <Archive className="h-5 w-5 mr-2 text-indigo-500" />
+            Appointment Retention
+          </h2>
+          <form onSubmit={handleSaveAppointmentRetention} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="archiveAfterDays" className="block text-sm font-medium text-gray-700">
+                Archive finished appointments after (days)
+              </label>
+              <input
+                type="number"
+                id="archiveAfterDays"
+                min="1"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={appointmentRetention.archive_after_days}
+                onChange={(e) => setAppointmentRetention({ archive_after_days: Number(e.target.value) })}
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Seen, no-show and cancelled appointments leave the working lists but are never deleted.
+              </p>
+            </div>
+            <div className="sm:col-span-2">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <ListOrdered className="h-5 w-5 mr-2 text-indigo-500" />
+            Waiting List Targets
+          </h2>
+          <form onSubmit={handleSaveWaitingList} className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            {PRIORITY_OPTIONS.map((priority) => (
+              <div key={priority}>
+                <label htmlFor={`target-${priority}`} className="block text-sm font-medium text-gray-700">
+                  {PRIORITY_LABELS[priority]} (days)
+                </label>
+                <input
+                  type="number"
+                  id={`target-${priority}`}
+                  min="1"
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={waitingList.target_days[priority]}
+                  onChange={(e) => setWaitingList({
+                    ...waitingList,
+                    target_days: { ...waitingList.target_days, [priority]: Number(e.target.value) },
+                  })}
+                  required
+                />
+              </div>
+            ))}
+            <div>
+              <label htmlFor="warnBeforeDays" className="block text-sm font-medium text-gray-700">
+                Warn before target (days)
+              </label>
+              <input
+                type="number"
+                id="warnBeforeDays"
+                min="0"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={waitingList.warn_before_days}
+                onChange={(e) => setWaitingList({ ...waitingList, warn_before_days: Number(e.target.value) })}
+                required
+              />
+            </div>
+            <div className="sm:col-span-4">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+              <Activity className="h-5 w-5 mr-2 text-indigo-500" />
+              Specialties
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">Services offered for admissions, consultations and clinics.</p>
+          </div>
+          <Link
+            to="/admin/specialties"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Manage
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Link>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+              <BedDouble className="h-5 w-5 mr-2 text-indigo-500" />
+              Wards and Beds
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">Wards, rooms and the beds shown on the bed board.</p>
+          </div>
+          <Link
+            to="/admin/wards"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Manage
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Link>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+              <CalendarDays className="h-5 w-5 mr-2 text-indigo-500" />
+              Clinic Sessions
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">Weekly clinics per specialty, their slot length and capacity.</p>
+          </div>
+          <Link
+            to="/admin/clinics"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Manage
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Link>
+        </div>
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+              <FileText className="h-5 w-5 mr-2 text-indigo-500" />
+              Note Templates
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">Note types and the sections clinicians fill in.</p>
+          </div>
+          <Link
+            to="/admin/note-templates"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Manage
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SystemSettingsPage;
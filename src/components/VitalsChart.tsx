@@ -0,0 +1,77 @@
+import React from 'react';
+import { Observation, VitalSign } from '../vitals';
+import { VitalRange } from '../settings';
+
+interface VitalsChartProps {
+  observations: Observation[];
+  vital: VitalSign;
+  range: VitalRange;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 40 };
+
+// Plain SVG trend line with the normal range shaded; observations must be oldest first
+const VitalsChart: React.FC<VitalsChartProps> = ({ observations, vital, range }) => {
+  const points = observations
+    .filter((observation) => observation[vital.key] !== null)
+    .map((observation) => ({ time: new Date(observation.recorded_at).getTime(), value: Number(observation[vital.key]) }));
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No {vital.label} readings recorded yet.</p>;
+  }
+
+  const values = points.map((point) => point.value);
+  const minValue = Math.min(...values, range.min);
+  const maxValue = Math.max(...values, range.max);
+  const valueSpan = maxValue - minValue || 1;
+  const minTime = points[0].time;
+  const timeSpan = points[points.length - 1].time - minTime || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : ((time - minTime) / timeSpan) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - ((value - minValue) / valueSpan) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${vital.label} trend`}>
+      <rect
+        x={PADDING.left}
+        y={y(range.max)}
+        width={plotWidth}
+        height={Math.max(y(range.min) - y(range.max), 1)}
+        className="fill-green-50"
+      />
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-gray-300" />
+      <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-gray-300" />
+      <text x={PADDING.left - 4} y={y(maxValue) + 4} textAnchor="end" className="fill-gray-500 text-xs">{maxValue}</text>
+      <text x={PADDING.left - 4} y={y(minValue) + 4} textAnchor="end" className="fill-gray-500 text-xs">{minValue}</text>
+      <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-xs">{new Date(minTime).toLocaleString()}</text>
+      {points.length > 1 && (
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-xs">
+          {new Date(points[points.length - 1].time).toLocaleString()}
+        </text>
+      )}
+      <polyline
+        points={points.map((point) => `${x(point.time)},${y(point.value)}`).join(' ')}
+        fill="none"
+        className="stroke-indigo-600"
+        strokeWidth={2}
+      />
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          cx={x(point.time)}
+          cy={y(point.value)}
+          r={4}
+          className={point.value < range.min || point.value > range.max ? 'fill-red-600' : 'fill-indigo-600'}
+        >
+          <title>{`${point.value} ${vital.unit} at ${new Date(point.time).toLocaleString()}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default VitalsChart;
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { HeartPulse, Plus, AlertTriangle } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { fetchSetting, DEFAULT_VITAL_RANGES, VitalKey, VitalRanges } from '../settings';
+import { Observation, VITAL_SIGNS, isOutOfRange } from '../vitals';
+import VitalsChart from './VitalsChart';
+
+interface VitalsPanelProps {
+  mrn: string;
+}
+
+type VitalsForm = Record<VitalKey, string>;
+
+const EMPTY_FORM: VitalsForm = {
+  systolic_bp: '',
+  diastolic_bp: '',
+  heart_rate: '',
+  respiratory_rate: '',
+  temperature: '',
+  spo2: '',
+  gcs: '',
+};
+
+// datetime-local wants local time without a zone
+const nowForInput = () => {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 16);
+};
+
+const VitalsPanel: React.FC<VitalsPanelProps> = ({ mrn }) => {
+  const { user } = useSession();
+  const canRecord = hasPermission(user, 'record_observations');
+  const [observations, setObservations] = useState<Observation[]>([]);
+  const [ranges, setRanges] = useState<VitalRanges>(DEFAULT_VITAL_RANGES);
+  const [form, setForm] = useState<VitalsForm>(EMPTY_FORM);
+  const [recordedAt, setRecordedAt] = useState(nowForInput);
+  const [chartVital, setChartVital] = useState<VitalKey>('heart_rate');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchObservations = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('observations')
+          .select('*')
+          .eq('mrn', mrn)
+          .order('recorded_at', { ascending: true });
+
+        if (error) throw error;
+        setObservations(data || []);
+      } catch (error) {
+        console.error('Error fetching observations:', error);
+        toast.error('Failed to fetch observations');
+      }
+    };
+
+    fetchObservations();
+    fetchSetting('vital_ranges', DEFAULT_VITAL_RANGES)
+      .then(setRanges)
+      .catch((error) => console.error('Error fetching vital ranges:', error));
+  }, [mrn]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const values = Object.fromEntries(
+      VITAL_SIGNS.map((vital) => [vital.key, form[vital.key] === '' ? null : Number(form[vital.key])])
+    );
+
+    if (Object.values(values).every((value) => value === null)) {
+      toast.error('Enter at least one observation');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('observations')
+        .insert([{ mrn, recorded_at: new Date(recordedAt).toISOString(), ...values }])
+        .select();
+
+      if (error) throw error;
+
+      setObservations(
+        [...observations, data[0]].sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
+      );
+      setForm(EMPTY_FORM);
+      setRecordedAt(nowForInput());
+      toast.success('Observations recorded successfully');
+    } catch (error) {
+      console.error('Error recording observations:', error);
+      toast.error('Failed to record observations');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedVital = VITAL_SIGNS.find((vital) => vital.key === chartVital) || VITAL_SIGNS[0];
+  const latest = observations[observations.length - 1];
+  const latestFlags = latest ? VITAL_SIGNS.filter((vital) => isOutOfRange(ranges, vital.key, latest[vital.key])) : [];
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 flex items-center">
+        <HeartPulse className="h-5 w-5 mr-2 text-indigo-500" />
+        Vital Signs
+      </h3>
+
+      {latestFlags.length > 0 && (
+        <div className="mb-4 flex items-center rounded-md bg-red-50 border border-red-200 px-4 py-2 text-sm text-red-800">
+          <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+          Latest set outside normal range: {latestFlags.map((vital) => vital.label).join(', ')}
+        </div>
+      )}
+
+      {canRecord && (
+        <form onSubmit={handleSubmit} className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 mb-4">
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            <div className="col-span-2">
+              <label htmlFor="recordedAt" className="block text-sm font-medium text-gray-700">Time</label>
+              <input
+                type="datetime-local"
+                id="recordedAt"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={recordedAt}
+                onChange={(e) => setRecordedAt(e.target.value)}
+                required
+              />
+            </div>
+            {VITAL_SIGNS.map((vital) => (
+              <div key={vital.key}>
+                <label htmlFor={`vital-${vital.key}`} className="block text-sm font-medium text-gray-700">
+                  {vital.label} <span className="text-gray-400">({vital.unit})</span>
+                </label>
+                <input
+                  type="number"
+                  id={`vital-${vital.key}`}
+                  step={vital.step || '1'}
+                  className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  value={form[vital.key]}
+                  onChange={(e) => setForm({ ...form, [vital.key]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            Record Observations
+          </button>
+        </form>
+      )}
+
+      <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 mb-4">
+        <div className="flex flex-wrap gap-2 mb-4">
+          {VITAL_SIGNS.map((vital) => (
+            <button
+              key={vital.key}
+              onClick={() => setChartVital(vital.key)}
+              className={`px-3 py-1 text-xs font-medium rounded-full ${
+                chartVital === vital.key ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {vital.label}
+            </button>
+          ))}
+        </div>
+        <VitalsChart observations={observations} vital={selectedVital} range={ranges[selectedVital.key]} />
+      </div>
+
+      {observations.length > 0 && (
+        <div className="bg-white shadow overflow-x-auto sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                {VITAL_SIGNS.map((vital) => (
+                  <th key={vital.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {vital.label}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {[...observations].reverse().map((observation) => (
+                <tr key={observation.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(observation.recorded_at).toLocaleString()}
+                  </td>
+                  {VITAL_SIGNS.map((vital) => (
+                    <td
+                      key={vital.key}
+                      className={`px-4 py-2 whitespace-nowrap text-sm ${
+                        isOutOfRange(ranges, vital.key, observation[vital.key]) ? 'text-red-600 font-semibold' : 'text-gray-500'
+                      }`}
+                    >
+                      {observation[vital.key] ?? '—'}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{observation.recorded_by_name}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VitalsPanel;
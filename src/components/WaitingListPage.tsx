@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ListOrdered, Plus, AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useSession } from '../session';
+import { hasPermission } from '../permissions';
+import { useSpecialties } from '../specialties';
+import { fetchSetting, DEFAULT_MRN_FORMAT, DEFAULT_WAITING_LIST, MrnFormatSettings } from '../settings';
+import { UNIQUE_VIOLATION, normalizeMrn, fetchKnownDetails } from '../persons';
+import { ClinicSlot, formatTime, toDateString } from '../clinics';
+import {
+  NewReferral,
+  WaitingListEntry,
+  WaitingPriority,
+  PRIORITY_LABELS,
+  PRIORITY_OPTIONS,
+  BREACH_LABELS,
+  BREACH_STYLES,
+  targetLabel,
+  fetchWaitingList,
+  addToWaitingList,
+  removeFromWaitingList,
+  bookFromWaitingList,
+} from '../waitingList';
+import ClinicSlotPicker from './ClinicSlotPicker';
+
+// How many candidates are offered for a free slot
+const SUGGESTIONS = 3;
+
+const emptyReferral = (specialty: string): NewReferral => ({
+  mrn: '',
+  patient_name: '',
+  specialty,
+  referral_date: toDateString(new Date()),
+  referred_by: '',
+  priority: 'routine',
+  reason: '',
+});
+
+const WaitingListPage: React.FC = () => {
+  const { user } = useSession();
+  const canBook = hasPermission(user, 'book_appointments');
+  const { specialties } = useSpecialties();
+  const [searchParams] = useSearchParams();
+  const [specialty, setSpecialty] = useState(searchParams.get('specialty') || '');
+  const [entries, setEntries] = useState<WaitingListEntry[]>([]);
+  const [warnBeforeDays, setWarnBeforeDays] = useState(DEFAULT_WAITING_LIST.warn_before_days);
+  const [mrnFormat, setMrnFormat] = useState<MrnFormatSettings>(DEFAULT_MRN_FORMAT);
+  const [showForm, setShowForm] = useState(false);
+  const [referral, setReferral] = useState<NewReferral>(emptyReferral(specialty));
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [removeReason, setRemoveReason] = useState('');
+  const [freeSlot, setFreeSlot] = useState<ClinicSlot | null>(null);
+  const [slotsVersion, setSlotsVersion] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await fetchWaitingList(specialty));
+    } catch (error) {
+      console.error('Error fetching waiting list:', error);
+      toast.error('Failed to fetch waiting list');
+    } finally {
+      setLoading(false);
+    }
+  }, [specialty]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    Promise.all([
+      fetchSetting('waiting_list', DEFAULT_WAITING_LIST),
+      fetchSetting('mrn_format', DEFAULT_MRN_FORMAT),
+    ])
+      .then(([waitingList, format]) => {
+        setWarnBeforeDays(waitingList.warn_before_days);
+        setMrnFormat(format);
+      })
+      .catch((error) => console.error('Error fetching waiting list settings:', error));
+  }, []);
+
+  const handleSpecialtyChange = (value: string) => {
+    setSpecialty(value);
+    setFreeSlot(null);
+  };
+
+  const handleMrnBlur = async () => {
+    if (!referral.mrn || referral.patient_name) return;
+
+    try {
+      const known = await fetchKnownDetails(referral.mrn);
+      if (known) {
+        setReferral((current) => ({ ...current, patient_name: known.patient_name }));
+      }
+    } catch (error) {
+      console.error('Error looking up patient:', error);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await addToWaitingList(referral);
+      toast.success(`${referral.patient_name} added to the ${referral.specialty} waiting list`);
+      setShowForm(false);
+      setReferral(emptyReferral(specialty));
+      loadEntries();
+    } catch (error) {
+      console.error('Error adding referral:', error);
+      toast.error('Failed to add referral');
+    }
+  };
+
+  const handleRemove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!removingId) return;
+
+    try {
+      await removeFromWaitingList(removingId, removeReason.trim());
+      toast.success('Referral removed from the waiting list');
+      setRemovingId(null);
+      loadEntries();
+    } catch (error) {
+      console.error('Error removing referral:', error);
+      toast.error('Failed to remove referral');
+    }
+  };
+
+  const handleBook = async (entry: WaitingListEntry) => {
+    if (!freeSlot) return;
+
+    try {
+      await bookFromWaitingList(entry.id, freeSlot);
+      toast.success(`${entry.patient_name} booked for ${freeSlot.slot_date} at ${formatTime(freeSlot.slot_time)}`);
+      setFreeSlot(null);
+      setSlotsVersion((version) => version + 1);
+      loadEntries();
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        toast.error('That slot has just been taken, please pick another');
+        setFreeSlot(null);
+        setSlotsVersion((version) => version + 1);
+        return;
+      }
+      console.error('Error booking from waiting list:', error);
+      toast.error('Failed to book appointment');
+    }
+  };
+
+  const breached = entries.filter((entry) => entry.breach_status === 'breached').length;
+  const atRisk = entries.filter((entry) => entry.breach_status === 'at_risk').length;
+  const suggestions = entries.slice(0, SUGGESTIONS);
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <ListOrdered className="h-8 w-8 mr-2 text-indigo-500" />
+            Waiting List
+          </h1>
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Specialty"
+              className="focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm border-gray-300 rounded-md"
+              value={specialty}
+              onChange={(e) => handleSpecialtyChange(e.target.value)}
+            >
+              <option value="">All Specialties</option>
+              {specialties.map((option) => (
+                <option key={option.id} value={option.name}>{option.name}</option>
+              ))}
+            </select>
+            {canBook && (
+              <button
+                onClick={() => setShowForm(!showForm)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add Referral
+              </button>
+            )}
+          </div>
+        </div>
+
+        {(breached > 0 || atRisk > 0) && (
+          <div className="mb-6 p-4 rounded-md bg-red-50 border border-red-200 text-sm text-red-800 flex items-start">
+            <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+            <span>
+              {breached > 0 && `${breached} referral${breached === 1 ? ' has' : 's have'} passed the target wait. `}
+              {atRisk > 0 && `${atRisk} ${atRisk === 1 ? 'reaches its' : 'reach their'} target within ${warnBeforeDays} days.`}
+            </span>
+          </div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleAdd} className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6 grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="referralMrn" className="block text-sm font-medium text-gray-700">MRN</label>
+              <input
+                type="text"
+                id="referralMrn"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.mrn}
+                onChange={(e) => setReferral({ ...referral, mrn: normalizeMrn(e.target.value, mrnFormat) })}
+                onBlur={handleMrnBlur}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="referralName" className="block text-sm font-medium text-gray-700">Patient Name</label>
+              <input
+                type="text"
+                id="referralName"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.patient_name}
+                onChange={(e) => setReferral({ ...referral, patient_name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="referralSpecialty" className="block text-sm font-medium text-gray-700">Specialty</label>
+              <select
+                id="referralSpecialty"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.specialty}
+                onChange={(e) => setReferral({ ...referral, specialty: e.target.value })}
+                required
+              >
+                <option value="">Select specialty</option>
+                {specialties.map((option) => (
+                  <option key={option.id} value={option.name}>{option.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="referralDate" className="block text-sm font-medium text-gray-700">Referral Date</label>
+              <input
+                type="date"
+                id="referralDate"
+                max={toDateString(new Date())}
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.referral_date}
+                onChange={(e) => setReferral({ ...referral, referral_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="referralPriority" className="block text-sm font-medium text-gray-700">Priority</label>
+              <select
+                id="referralPriority"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.priority}
+                onChange={(e) => setReferral({ ...referral, priority: e.target.value as WaitingPriority })}
+              >
+                {PRIORITY_OPTIONS.map((priority) => (
+                  <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="referredBy" className="block text-sm font-medium text-gray-700">Referred By</label>
+              <input
+                type="text"
+                id="referredBy"
+                placeholder="e.g. GP, Emergency"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.referred_by}
+                onChange={(e) => setReferral({ ...referral, referred_by: e.target.value })}
+              />
+            </div>
+            <div className="sm:col-span-3">
+              <label htmlFor="referralReason" className="block text-sm font-medium text-gray-700">Reason for Referral</label>
+              <textarea
+                id="referralReason"
+                rows={2}
+                className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={referral.reason}
+                onChange={(e) => setReferral({ ...referral, reason: e.target.value })}
+              />
+            </div>
+            <div className="sm:col-span-3 flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add to Waiting List
+              </button>
+            </div>
+          </form>
+        )}
+
+        {canBook && specialty && (
+          <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6 mb-6">
+            <ClinicSlotPicker
+              key={specialty}
+              specialty={specialty}
+              selected={freeSlot}
+              onSelect={setFreeSlot}
+              refreshKey={slotsVersion}
+              initialDate={searchParams.get('date') || undefined}
+            />
+            {freeSlot && (
+              <div className="mt-4">
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Next suitable patients</h3>
+                {suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nobody is waiting for {specialty}.</p>
+                ) : (
+                  <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+                    {suggestions.map((entry, index) => (
+                      <li key={entry.id} className={`px-4 py-2 text-sm flex items-center justify-between ${index === 0 ? 'bg-indigo-50' : ''}`}>
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {entry.patient_name} <span className="font-normal text-gray-500">({entry.mrn})</span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {PRIORITY_LABELS[entry.priority]} · waiting {entry.days_waiting} days · {targetLabel(entry)}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleBook(entry)}
+                          className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Book
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          {loading ? (
+            <div className="p-6">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="p-6 text-gray-500">Nobody is on the waiting list.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Specialty</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Referred</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                    <th scope="col" className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map((entry) => (
+                    <React.Fragment key={entry.id}>
+                      <tr>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{PRIORITY_LABELS[entry.priority]}</td>
+                        <td className="px-6 py-4 text-sm">
+                          <Link to={`/patient/${entry.mrn}`} className="font-medium text-indigo-600 hover:text-indigo-900">
+                            {entry.patient_name}
+                          </Link>
+                          <div className="text-gray-500">{entry.mrn}</div>
+                          {entry.reason && <div className="text-xs text-gray-500">{entry.reason}</div>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.specialty}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {entry.referral_date}
+                          {entry.referred_by && ` · ${entry.referred_by}`}
+                          <div className="text-xs">Waiting {entry.days_waiting} days</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${BREACH_STYLES[entry.breach_status]}`}>
+                            {BREACH_LABELS[entry.breach_status]}
+                          </span>
+                          <div className="text-xs mt-1">{entry.target_date} · {targetLabel(entry)}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                          {canBook && (
+                            <button
+                              onClick={() => {
+                                setRemovingId(entry.id);
+                                setRemoveReason('');
+                              }}
+                              className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {removingId === entry.id && (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                            <form onSubmit={handleRemove} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                              <input
+                                type="text"
+                                aria-label="Reason for removal"
+                                placeholder="Reason for removal, e.g. Seen elsewhere"
+                                className="focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                                value={removeReason}
+                                onChange={(e) => setRemoveReason(e.target.value)}
+                                required
+                              />
+                              <button
+                                type="submit"
+                                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 whitespace-nowrap"
+                              >
+                                Remove from List
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setRemovingId(null)}
+                                className="px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                              >
+                                Keep
+                              </button>
+                            </form>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaitingListPage;
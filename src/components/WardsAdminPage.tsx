@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { BedDouble, Plus, X } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { toast } from 'react-toastify';
+
+interface Ward {
+  id: number;
+  name: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+interface Room {
+  id: number;
+  ward_id: number;
+  name: string;
+}
+
+interface Bed {
+  id: number;
+  room_id: number;
+  label: string;
+  occupant_mrn: string | null;
+}
+
+const WardsAdminPage: React.FC = () => {
+  const [wards, setWards] = useState<Ward[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [beds, setBeds] = useState<Bed[]>([]);
+  const [newWardName, setNewWardName] = useState('');
+  const [roomDrafts, setRoomDrafts] = useState<Record<number, string>>({});
+  const [bedDrafts, setBedDrafts] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadWards();
+  }, []);
+
+  const loadWards = async () => {
+    try {
+      const [wardsResult, roomsResult, bedsResult] = await Promise.all([
+        supabase.from('wards').select('*').order('sort_order').order('name'),
+        supabase.from('rooms').select('*').order('name'),
+        supabase.from('beds').select('id, room_id, label, occupant_mrn').order('label'),
+      ]);
+
+      if (wardsResult.error) throw wardsResult.error;
+      if (roomsResult.error) throw roomsResult.error;
+      if (bedsResult.error) throw bedsResult.error;
+
+      setWards(wardsResult.data || []);
+      setRooms(roomsResult.data || []);
+      setBeds(bedsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching wards:', error);
+      toast.error('Failed to fetch wards');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddWard = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const sortOrder = Math.max(0, ...wards.map((ward) => ward.sort_order)) + 1;
+      const { data, error } = await supabase
+        .from('wards')
+        .insert([{ name: newWardName.trim(), sort_order: sortOrder }])
+        .select();
+
+      if (error) throw error;
+
+      setWards([...wards, data[0]]);
+      setNewWardName('');
+      toast.success('Ward added successfully');
+    } catch (error) {
+      console.error('Error adding ward:', error);
+      toast.error('Failed to add ward. The name may already exist.');
+    }
+  };
+
+  const handleToggleWard = async (ward: Ward) => {
+    try {
+      const { error } = await supabase
+        .from('wards')
+        .update({ is_active: !ward.is_active })
+        .eq('id', ward.id);
+
+      if (error) throw error;
+
+      setWards(wards.map((w) => (w.id === ward.id ? { ...w, is_active: !ward.is_active } : w)));
+    } catch (error) {
+      console.error('Error updating ward:', error);
+      toast.error('Failed to update ward');
+    }
+  };
+
+  const handleAddRoom = async (wardId: number) => {
+    const name = roomDrafts[wardId]?.trim();
+    if (!name) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('rooms')
+        .insert([{ ward_id: wardId, name }])
+        .select();
+
+      if (error) throw error;
+
+      setRooms([...rooms, data[0]]);
+      setRoomDrafts({ ...roomDrafts, [wardId]: '' });
+    } catch (error) {
+      console.error('Error adding room:', error);
+      toast.error('Failed to add room. The name may already exist on this ward.');
+    }
+  };
+
+  // Accepts a comma-separated list such as "1, 2, 3"
+  const handleAddBeds = async (roomId: number) => {
+    const labels = (bedDrafts[roomId] || '').split(',').map((label) => label.trim()).filter(Boolean);
+    if (labels.length === 0) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('beds')
+        .insert(labels.map((label) => ({ room_id: roomId, label })))
+        .select('id, room_id, label, occupant_mrn');
+
+      if (error) throw error;
+
+      setBeds([...beds, ...data]);
+      setBedDrafts({ ...bedDrafts, [roomId]: '' });
+    } catch (error) {
+      console.error('Error adding beds:', error);
+      toast.error('Failed to add beds. A label may already exist in this room.');
+    }
+  };
+
+  const handleDeleteBed = async (bed: Bed) => {
+    try {
+      const { error } = await supabase.from('beds').delete().eq('id', bed.id);
+
+      if (error) throw error;
+
+      setBeds(beds.filter((b) => b.id !== bed.id));
+    } catch (error) {
+      console.error('Error deleting bed:', error);
+      toast.error('Failed to delete bed. Beds that have been used are kept for their history; block them instead.');
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Wards and Beds</h1>
+
+        {wards.map((ward) => (
+          <div key={ward.id} className="bg-white shadow sm:rounded-lg mb-6">
+            <div className="px-4 py-4 sm:px-6 flex items-center justify-between border-b border-gray-200">
+              <h2 className={`text-lg font-medium ${ward.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                {ward.name}
+              </h2>
+              <button
+                onClick={() => handleToggleWard(ward)}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                {ward.is_active ? 'Deactivate' : 'Activate'}
+              </button>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {rooms
+                .filter((room) => room.ward_id === ward.id)
+                .map((room) => (
+                  <li key={room.id} className="px-4 py-3 sm:px-6">
+                    <p className="text-sm font-medium text-gray-700 mb-2">{room.name}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {beds
+                        .filter((bed) => bed.room_id === room.id)
+                        .map((bed) => (
+                          <span key={bed.id} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-700">
+                            Bed {bed.label}
+                            {!bed.occupant_mrn && (
+                              <button onClick={() => handleDeleteBed(bed)} className="ml-1 text-gray-400 hover:text-red-600" title="Delete bed">
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                      <input
+                        type="text"
+                        placeholder="Bed labels, e.g. 1, 2, 3"
+                        className="focus:ring-indigo-500 focus:border-indigo-500 block w-48 text-xs border-gray-300 rounded-md"
+                        value={bedDrafts[room.id] || ''}
+                        onChange={(e) => setBedDrafts({ ...bedDrafts, [room.id]: e.target.value })}
+                      />
+                      <button onClick={() => handleAddBeds(room.id)} className="text-indigo-600 hover:text-indigo-900" title="Add beds">
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              <li className="px-4 py-3 sm:px-6 flex items-center space-x-2">
+                <input
+                  type="text"
+                  placeholder="New room name"
+                  className="focus:ring-indigo-500 focus:border-indigo-500 block w-64 sm:text-sm border-gray-300 rounded-md"
+                  value={roomDrafts[ward.id] || ''}
+                  onChange={(e) => setRoomDrafts({ ...roomDrafts, [ward.id]: e.target.value })}
+                />
+                <button
+                  onClick={() => handleAddRoom(ward.id)}
+                  className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Room
+                </button>
+              </li>
+            </ul>
+          </div>
+        ))}
+
+        <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center mb-4">
+            <BedDouble className="h-5 w-5 mr-2 text-indigo-500" />
+            Add Ward
+          </h2>
+          <form onSubmit={handleAddWard} className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label htmlFor="wardName" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                id="wardName"
+                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                value={newWardName}
+                onChange={(e) => setNewWardName(e.target.value)}
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Add
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WardsAdminPage;
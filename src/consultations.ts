@@ -0,0 +1,140 @@
+import { supabase } from './supabaseClient';
+
+export type ConsultationState = 'requested' | 'acknowledged' | 'seen' | 'recommended' | 'signed_off';
+
+export interface ConsultationReply {
+  impression: string;
+  recommendations: string;
+  follow_up: string;
+}
+
+export interface ConsultationWorkflow {
+  id: string;
+  mrn: string;
+  created_at: string;
+  workflow_state: ConsultationState;
+  responding_clinician_name: string | null;
+  acknowledged_at: string | null;
+  seen_at: string | null;
+  seen_by_name: string | null;
+  recommended_at: string | null;
+  recommended_by_name: string | null;
+  signed_off_at: string | null;
+  signed_off_by_name: string | null;
+  reply: ConsultationReply | null;
+}
+
+export interface ConsultationResponseTimes {
+  specialty: string;
+  consultations: number;
+  open_consultations: number;
+  average_minutes_to_acknowledge: number | null;
+  average_minutes_to_seen: number | null;
+  average_minutes_to_sign_off: number | null;
+}
+
+export const CONSULTATION_STATES: ConsultationState[] = ['requested', 'acknowledged', 'seen', 'recommended', 'signed_off'];
+
+export const CONSULTATION_STATE_LABELS: Record<ConsultationState, string> = {
+  requested: 'Requested',
+  acknowledged: 'Acknowledged',
+  seen: 'Seen',
+  recommended: 'Recommendations written',
+  signed_off: 'Signed off',
+};
+
+// Label for the button that moves a consultation out of each state
+export const CONSULTATION_ACTION_LABELS: Record<Exclude<ConsultationState, 'signed_off'>, string> = {
+  requested: 'Acknowledge',
+  acknowledged: 'Mark as Seen',
+  seen: 'Write Recommendations',
+  recommended: 'Sign Off',
+};
+
+export const REPLY_FIELDS: { key: keyof ConsultationReply; label: string; required: boolean }[] = [
+  { key: 'impression', label: 'Impression', required: false },
+  { key: 'recommendations', label: 'Recommendations', required: true },
+  { key: 'follow_up', label: 'Follow-up', required: false },
+];
+
+export const nextConsultationState = (state: ConsultationState): ConsultationState | null => {
+  const index = CONSULTATION_STATES.indexOf(state);
+  return CONSULTATION_STATES[index + 1] ?? null;
+};
+
+// When each step was reached, and by whom
+export const stateTimestamp = (consultation: ConsultationWorkflow, state: ConsultationState): { at: string | null; by: string | null } => {
+  switch (state) {
+    case 'requested':
+      return { at: consultation.created_at, by: null };
+    case 'acknowledged':
+      return { at: consultation.acknowledged_at, by: consultation.responding_clinician_name };
+    case 'seen':
+      return { at: consultation.seen_at, by: consultation.seen_by_name };
+    case 'recommended':
+      return { at: consultation.recommended_at, by: consultation.recommended_by_name };
+    case 'signed_off':
+      return { at: consultation.signed_off_at, by: consultation.signed_off_by_name };
+  }
+};
+
+export const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 60 * 24) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (60 * 24)).toFixed(1)} d`;
+};
+
+export const fetchConsultationWorkflow = async (consultationId: string): Promise<ConsultationWorkflow> => {
+  const { data, error } = await supabase
+    .from('consultations')
+    .select(`
+      id,
+      mrn,
+      created_at,
+      workflow_state,
+      responding_clinician_name,
+      acknowledged_at,
+      seen_at,
+      seen_by_name,
+      recommended_at,
+      recommended_by_name,
+      signed_off_at,
+      signed_off_by_name,
+      reply
+    `)
+    .eq('id', consultationId)
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const advanceConsultation = async (
+  consultationId: string,
+  state: Exclude<ConsultationState, 'requested'>,
+  reply: ConsultationReply | null = null
+): Promise<void> => {
+  const { error } = await supabase.rpc('advance_consultation', {
+    p_consultation_id: consultationId,
+    p_state: state,
+    p_reply: reply,
+  });
+
+  if (error) throw error;
+};
+
+export const fetchConsultationResponseTimes = async (): Promise<ConsultationResponseTimes[]> => {
+  const { data, error } = await supabase
+    .from('consultation_response_times')
+    .select('*');
+
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    ...row,
+    average_minutes_to_acknowledge: row.average_minutes_to_acknowledge === null ? null : Number(row.average_minutes_to_acknowledge),
+    average_minutes_to_seen: row.average_minutes_to_seen === null ? null : Number(row.average_minutes_to_seen),
+    average_minutes_to_sign_off: row.average_minutes_to_sign_off === null ? null : Number(row.average_minutes_to_sign_off),
+  }));
+};
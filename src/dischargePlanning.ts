@@ -0,0 +1,79 @@
+import { supabase } from './supabaseClient';
+import { DischargeChecklistItem } from './settings';
+
+export interface ChecklistTick {
+  id: string;
+  admission_id: string;
+  item_key: string;
+  completed_by_name: string | null;
+  completed_at: string;
+}
+
+export interface Readiness {
+  done: number;
+  total: number;
+}
+
+// Local calendar date, matching the date inputs staff type into
+export const localDate = (offsetDays = 0) => {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().split('T')[0];
+};
+
+export const expectedDischargeLabel = (date: string) => {
+  if (date < localDate()) return `Overdue (${date})`;
+  if (date === localDate()) return 'Today';
+  if (date === localDate(1)) return 'Tomorrow';
+  return date;
+};
+
+// Ticks for items since removed from the checklist are ignored
+export const readiness = (items: DischargeChecklistItem[], ticks: ChecklistTick[]): Readiness => ({
+  done: items.filter((item) => ticks.some((tick) => tick.item_key === item.key)).length,
+  total: items.length,
+});
+
+export const fetchChecklistTicks = async (admissionIds: string[]): Promise<ChecklistTick[]> => {
+  if (admissionIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('discharge_checklist_items')
+    .select('id, admission_id, item_key, completed_by_name, completed_at')
+    .in('admission_id', admissionIds);
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const tickChecklistItem = async (admissionId: string, itemKey: string): Promise<ChecklistTick> => {
+  const { data, error } = await supabase
+    .from('discharge_checklist_items')
+    .insert([{ admission_id: admissionId, item_key: itemKey }])
+    .select('id, admission_id, item_key, completed_by_name, completed_at')
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const untickChecklistItem = async (tickId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('discharge_checklist_items')
+    .delete()
+    .eq('id', tickId);
+
+  if (error) throw error;
+};
+
+export const setExpectedDischargeDate = async (admissionId: string, date: string | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_expected_discharge_date', {
+    p_admission_id: admissionId,
+    p_date: date,
+  });
+
+  if (error) throw error;
+};
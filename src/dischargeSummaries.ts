@@ -0,0 +1,161 @@
+import { supabase } from './supabaseClient';
+import { DischargeDisposition } from './dispositions';
+
+export type DischargeSummaryStatus = 'draft' | 'signed';
+
+export interface DischargeSummaryContent {
+  diagnoses: string;
+  procedures: string;
+  hospital_course: string;
+  discharge_medications: string;
+  follow_up: string;
+  pending_results: string;
+}
+
+export interface DischargeSummary extends DischargeSummaryContent {
+  id: string;
+  admission_id: string;
+  mrn: string;
+  status: DischargeSummaryStatus;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+  signed_by_name: string | null;
+  signed_at: string | null;
+}
+
+// The admission fields printed on the summary header
+export interface DischargeAdmission {
+  id: string;
+  mrn: string;
+  patient_name: string;
+  age: number;
+  gender: string;
+  specialty: string;
+  assigned_doctor: string | null;
+  diagnosis: string | null;
+  admission_date: string;
+  discharge_date: string | null;
+  discharge_disposition: DischargeDisposition | null;
+  discharge_destination: string | null;
+}
+
+interface AdmissionNote {
+  content: string;
+  sections: Record<string, string> | null;
+  created_at: string;
+}
+
+export const SUMMARY_FIELDS: { key: keyof DischargeSummaryContent; label: string; rows: number; required: boolean }[] = [
+  { key: 'diagnoses', label: 'Diagnoses', rows: 3, required: true },
+  { key: 'procedures', label: 'Procedures', rows: 2, required: false },
+  { key: 'hospital_course', label: 'Hospital Course', rows: 6, required: false },
+  { key: 'discharge_medications', label: 'Medications on Discharge', rows: 4, required: false },
+  { key: 'follow_up', label: 'Follow-up', rows: 3, required: false },
+  { key: 'pending_results', label: 'Pending Results', rows: 2, required: false },
+];
+
+export const EMPTY_SUMMARY: DischargeSummaryContent = {
+  diagnoses: '',
+  procedures: '',
+  hospital_course: '',
+  discharge_medications: '',
+  follow_up: '',
+  pending_results: '',
+};
+
+export const toSummaryContent = (summary: DischargeSummary): DischargeSummaryContent => ({
+  diagnoses: summary.diagnoses,
+  procedures: summary.procedures,
+  hospital_course: summary.hospital_course,
+  discharge_medications: summary.discharge_medications,
+  follow_up: summary.follow_up,
+  pending_results: summary.pending_results,
+});
+
+export const fetchDischargeAdmission = async (admissionId: string): Promise<DischargeAdmission> => {
+  const { data, error } = await supabase
+    .from('patients')
+    .select('id, mrn, patient_name, age, gender, specialty, assigned_doctor, diagnosis, admission_date, discharge_date, discharge_disposition, discharge_destination')
+    .eq('id', admissionId)
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const fetchDischargeSummary = async (admissionId: string): Promise<DischargeSummary | null> => {
+  const { data, error } = await supabase
+    .from('discharge_summaries')
+    .select('*')
+    .eq('admission_id', admissionId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Starting point for a new summary: the admitting diagnosis, a dated line per
+// note written during the stay, and the plan from the most recent note
+export const prefillDischargeSummary = async (admission: DischargeAdmission): Promise<DischargeSummaryContent> => {
+  let query = supabase
+    .from('patient_notes')
+    .select('content, sections, created_at')
+    .eq('mrn', admission.mrn)
+    .is('parent_note_id', null)
+    .gte('created_at', admission.admission_date)
+    .order('created_at', { ascending: true });
+
+  if (admission.discharge_date) {
+    query = query.lte('created_at', `${admission.discharge_date}T23:59:59`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  const notes: AdmissionNote[] = data || [];
+  const latestPlan = [...notes].reverse().find((note) => note.sections?.plan?.trim())?.sections?.plan;
+
+  return {
+    ...EMPTY_SUMMARY,
+    diagnoses: admission.diagnosis || '',
+    hospital_course: notes
+      .map((note) => {
+        const text = note.sections?.progress || note.sections?.assessment || note.content;
+        return `${new Date(note.created_at).toLocaleDateString()}: ${text.replace(/\s+/g, ' ').trim()}`;
+      })
+      .join('\n'),
+    follow_up: latestPlan?.trim() || '',
+  };
+};
+
+export const saveDischargeSummary = async (
+  admissionId: string,
+  summaryId: string | null,
+  content: DischargeSummaryContent
+): Promise<DischargeSummary> => {
+  const { data, error } = summaryId
+    ? await supabase.from('discharge_summaries').update(content).eq('id', summaryId).select().single()
+    : await supabase.from('discharge_summaries').insert([{ admission_id: admissionId, ...content }]).select().single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Signing stamps the signed-in doctor and freezes the summary
+export const signDischargeSummary = async (summaryId: string, content: DischargeSummaryContent): Promise<DischargeSummary> => {
+  const { data, error } = await supabase
+    .from('discharge_summaries')
+    .update({ ...content, status: 'signed' })
+    .eq('id', summaryId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
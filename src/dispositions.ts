@@ -0,0 +1,61 @@
+import { supabase } from './supabaseClient';
+
+export type DischargeDisposition =
+  | 'home'
+  | 'home_with_services'
+  | 'transfer_facility'
+  | 'rehabilitation'
+  | 'left_ama'
+  | 'deceased'
+  | 'unknown';
+
+export interface DischargeOutcomes {
+  specialty: string;
+  discharges: number;
+  coded_discharges: number;
+  home: number;
+  transferred_out: number;
+  left_ama: number;
+  deaths: number;
+  mortality_rate: number | null;
+  ama_rate: number | null;
+}
+
+export const DISPOSITION_LABELS: Record<DischargeDisposition, string> = {
+  home: 'Home',
+  home_with_services: 'Home with services',
+  transfer_facility: 'Transferred to another facility',
+  rehabilitation: 'Rehabilitation / long-term care',
+  left_ama: 'Left against medical advice',
+  deceased: 'Deceased',
+  unknown: 'Not recorded',
+};
+
+// 'unknown' only marks discharges recorded before dispositions existed
+export const DISPOSITION_OPTIONS = (Object.keys(DISPOSITION_LABELS) as DischargeDisposition[]).filter(
+  (disposition) => disposition !== 'unknown'
+);
+
+// Dispositions where the receiving facility is worth recording
+export const takesDestination = (disposition: DischargeDisposition | '') =>
+  disposition === 'transfer_facility' || disposition === 'rehabilitation' || disposition === 'home_with_services';
+
+export const formatRate = (rate: number | null) => (rate === null ? '–' : `${rate}%`);
+
+export const fetchDischargeOutcomes = async (from: string | null = null, to: string | null = null): Promise<DischargeOutcomes[]> => {
+  const { data, error } = await supabase.rpc('discharge_outcomes', { p_from: from, p_to: to });
+
+  if (error) throw error;
+
+  return (data || []).map((row: DischargeOutcomes) => ({
+    ...row,
+    discharges: Number(row.discharges),
+    coded_discharges: Number(row.coded_discharges),
+    home: Number(row.home),
+    transferred_out: Number(row.transferred_out),
+    left_ama: Number(row.left_ama),
+    deaths: Number(row.deaths),
+    mortality_rate: row.mortality_rate === null ? null : Number(row.mortality_rate),
+    ama_rate: row.ama_rate === null ? null : Number(row.ama_rate),
+  }));
+};
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { SESSION_STORAGE_PREFIX } from './session';
+
+const DRAFT_PREFIX = `${SESSION_STORAGE_PREFIX}draft.`;
+
+// useState that survives a reload while the workstation is locked. Drafts are
+// dropped with the rest of the session storage when the user signs out.
+export const useDraftState = <T,>(key: string, initialValue: T) => {
+  const storageKey = DRAFT_PREFIX + key;
+  const [value, setValue] = useState<T>(() => {
+    const stored = sessionStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as T) : initialValue;
+  });
+
+  useEffect(() => {
+    sessionStorage.setItem(storageKey, JSON.stringify(value));
+  }, [storageKey, value]);
+
+  const clearDraft = () => {
+    sessionStorage.removeItem(storageKey);
+    setValue(initialValue);
+  };
+
+  return [value, setValue, clearDraft] as const;
+};
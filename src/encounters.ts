@@ -0,0 +1,41 @@
+import { supabase } from './supabaseClient';
+
+export type EncounterType = 'admission' | 'consultation';
+
+export interface Encounter {
+  id: string;
+  mrn: string;
+  patient_name: string;
+  encounter_type: EncounterType;
+  admission_id: string | null;
+  consultation_id: string | null;
+  specialty: string;
+  status: 'Active' | 'Closed';
+  started_at: string;
+  ended_at: string | null;
+  is_readmission: boolean;
+}
+
+export const fetchEncounters = async (mrn: string): Promise<Encounter[]> => {
+  const { data, error } = await supabase
+    .from('encounter_history')
+    .select('*')
+    .eq('mrn', mrn)
+    .order('started_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Admission ids that started within 30 days of a previous discharge
+export const fetchReadmissionIds = async (): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('encounter_history')
+    .select('admission_id')
+    .eq('is_readmission', true);
+
+  if (error) throw error;
+
+  return new Set((data || []).map((encounter) => encounter.admission_id));
+};
@@ -0,0 +1,124 @@
+// National Early Warning Score 2 (Royal College of Physicians, 2017)
+
+export type Consciousness = 'A' | 'C' | 'V' | 'P' | 'U';
+
+export type ResponseLevel = 'Low' | 'Low-medium' | 'Medium' | 'High';
+
+export interface News2Input {
+  respiratory_rate: number;
+  spo2: number;
+  spo2_scale: 1 | 2;
+  on_oxygen: boolean;
+  systolic_bp: number;
+  heart_rate: number;
+  consciousness: Consciousness;
+  temperature: number;
+}
+
+export interface News2Score {
+  id: string;
+  mrn: string;
+  recorded_at: string;
+  respiratory_rate: number;
+  spo2: number;
+  spo2_scale: 1 | 2;
+  on_oxygen: boolean;
+  systolic_bp: number;
+  heart_rate: number;
+  consciousness: Consciousness;
+  temperature: number;
+  total_score: number;
+  has_red_score: boolean;
+  response_level: ResponseLevel;
+  recorded_by_name: string | null;
+}
+
+export const CONSCIOUSNESS_LEVELS: { value: Consciousness; label: string }[] = [
+  { value: 'A', label: 'Alert' },
+  { value: 'C', label: 'New confusion' },
+  { value: 'V', label: 'Responds to voice' },
+  { value: 'P', label: 'Responds to pain' },
+  { value: 'U', label: 'Unresponsive' },
+];
+
+export const RESPONSE_GUIDANCE: Record<ResponseLevel, string> = {
+  Low: 'Ward-based response: registered nurse to assess; observations at least 4–6 hourly (12-hourly if score 0).',
+  'Low-medium': 'Urgent ward-based response: registered nurse to inform the medical team; observations at least hourly.',
+  Medium: 'Key threshold for urgent response: urgent review by a clinician competent in acute illness; observations at least hourly.',
+  High: 'Emergency response: immediate assessment by the critical care outreach team; continuous monitoring.',
+};
+
+const scoreRespiratoryRate = (rate: number) => {
+  if (rate <= 8) return 3;
+  if (rate <= 11) return 1;
+  if (rate <= 20) return 0;
+  if (rate <= 24) return 2;
+  return 3;
+};
+
+const scoreSpo2 = (spo2: number, scale: 1 | 2, onOxygen: boolean) => {
+  if (scale === 1) {
+    if (spo2 <= 91) return 3;
+    if (spo2 <= 93) return 2;
+    if (spo2 <= 95) return 1;
+    return 0;
+  }
+
+  // Scale 2 is for confirmed hypercapnic respiratory failure (target 88–92%)
+  if (spo2 <= 83) return 3;
+  if (spo2 <= 85) return 2;
+  if (spo2 <= 87) return 1;
+  if (spo2 <= 92 || !onOxygen) return 0;
+  if (spo2 <= 94) return 1;
+  if (spo2 <= 96) return 2;
+  return 3;
+};
+
+const scoreSystolicBp = (bp: number) => {
+  if (bp <= 90) return 3;
+  if (bp <= 100) return 2;
+  if (bp <= 110) return 1;
+  if (bp <= 219) return 0;
+  return 3;
+};
+
+const scoreHeartRate = (rate: number) => {
+  if (rate <= 40) return 3;
+  if (rate <= 50) return 1;
+  if (rate <= 90) return 0;
+  if (rate <= 110) return 1;
+  if (rate <= 130) return 2;
+  return 3;
+};
+
+const scoreTemperature = (temperature: number) => {
+  if (temperature <= 35.0) return 3;
+  if (temperature <= 36.0) return 1;
+  if (temperature <= 38.0) return 0;
+  if (temperature <= 39.0) return 1;
+  return 2;
+};
+
+export const calculateNews2 = (input: News2Input) => {
+  const parameterScores = [
+    scoreRespiratoryRate(input.respiratory_rate),
+    scoreSpo2(input.spo2, input.spo2_scale, input.on_oxygen),
+    input.on_oxygen ? 2 : 0,
+    scoreSystolicBp(input.systolic_bp),
+    scoreHeartRate(input.heart_rate),
+    input.consciousness === 'A' ? 0 : 3,
+    scoreTemperature(input.temperature),
+  ];
+
+  const totalScore = parameterScores.reduce((sum, score) => sum + score, 0);
+  const hasRedScore = parameterScores.some((score) => score === 3);
+
+  let responseLevel: ResponseLevel = 'Low';
+  if (totalScore >= 7) responseLevel = 'High';
+  else if (totalScore >= 5) responseLevel = 'Medium';
+  else if (hasRedScore) responseLevel = 'Low-medium';
+
+  return { totalScore, hasRedScore, responseLevel };
+};
+
+export const isEscalated = (responseLevel: ResponseLevel) => responseLevel !== 'Low';
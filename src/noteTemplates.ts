@@ -0,0 +1,47 @@
+import { supabase } from './supabaseClient';
+
+export interface NoteSection {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  sections: NoteSection[];
+  is_active: boolean;
+  sort_order: number;
+}
+
+export type NoteSectionValues = Record<string, string>;
+
+export const fetchNoteTemplates = async (activeOnly = true): Promise<NoteTemplate[]> => {
+  let query = supabase
+    .from('note_templates')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Section keys are stored in the note, so they are derived once from the label
+export const sectionKeyFromLabel = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export const missingRequiredSections = (template: NoteTemplate, values: NoteSectionValues) =>
+  template.sections.filter((section) => section.required && !values[section.key]?.trim());
+
+// Plain-text form of a templated note, used for version history and diffs
+export const composeNoteContent = (template: NoteTemplate, values: NoteSectionValues) =>
+  template.sections
+    .filter((section) => values[section.key]?.trim())
+    .map((section) => `${section.label}:\n${values[section.key].trim()}`)
+    .join('\n\n');
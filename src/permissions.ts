@@ -0,0 +1,31 @@
+import { User } from './auth';
+
+export type Role = 'admin' | 'consultant' | 'resident' | 'nurse' | 'clerk' | 'auditor';
+
+// Mirrors the permission names in the role_permissions table
+export type Permission =
+  | 'view_patients'
+  | 'admit_patients'
+  | 'discharge_patients'
+  | 'plan_discharges'
+  | 'edit_notes'
+  | 'record_observations'
+  | 'manage_beds'
+  | 'respond_consultations'
+  | 'book_appointments'
+  | 'view_reports'
+  | 'manage_employees'
+  | 'manage_settings'
+  | 'view_audit_log';
+
+export const ROLES: { value: Role; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'consultant', label: 'Consultant' },
+  { value: 'resident', label: 'Resident' },
+  { value: 'nurse', label: 'Nurse' },
+  { value: 'clerk', label: 'Clerk' },
+  { value: 'auditor', label: 'Auditor (read-only)' },
+];
+
+export const hasPermission = (user: User | null, permission: Permission): boolean =>
+  !!user && user.permissions.includes(permission);
@@ -0,0 +1,103 @@
+import { supabase } from './supabaseClient';
+import { MrnFormatSettings } from './settings';
+
+export interface PersonMatch {
+  mrn: string;
+  patient_name: string;
+  gender: string;
+}
+
+export interface KnownPatientDetails extends PersonMatch {
+  age: number | null;
+}
+
+export interface ActiveAdmission {
+  id: string;
+  specialty: string;
+  admission_date: string;
+}
+
+// Postgres unique_violation, raised for a second active admission or consult
+export const UNIQUE_VIOLATION = '23505';
+
+export const normalizeMrn = (mrn: string, format: MrnFormatSettings) =>
+  format.uppercase ? mrn.trim().toUpperCase() : mrn.trim();
+
+export const mrnFormatError = (mrn: string, format: MrnFormatSettings): string | null => {
+  if (!mrn || !format.pattern) return null;
+
+  try {
+    if (new RegExp(format.pattern).test(mrn)) return null;
+  } catch {
+    // A broken pattern is reported on the settings page, not to every admitting clerk
+    return null;
+  }
+
+  return `MRN does not match the hospital format (e.g. ${format.example})`;
+};
+
+export const searchPersons = async (mrnPrefix: string): Promise<PersonMatch[]> => {
+  const { data, error } = await supabase
+    .from('persons')
+    .select('mrn, patient_name, gender')
+    .ilike('mrn', `${mrnPrefix.replace(/[%_\\]/g, '\\$&')}%`)
+    .order('mrn')
+    .limit(8);
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Age is carried forward from the most recent admission or consultation
+export const fetchKnownDetails = async (mrn: string): Promise<KnownPatientDetails | null> => {
+  const [personResult, admissionResult, consultationResult] = await Promise.all([
+    supabase.from('persons').select('mrn, patient_name, gender').eq('mrn', mrn).maybeSingle(),
+    supabase
+      .from('patients')
+      .select('age, admission_date')
+      .eq('mrn', mrn)
+      .order('admission_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('consultations')
+      .select('age, created_at')
+      .eq('mrn', mrn)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (personResult.error) throw personResult.error;
+  if (admissionResult.error) throw admissionResult.error;
+  if (consultationResult.error) throw consultationResult.error;
+  if (!personResult.data) return null;
+
+  const recorded = [
+    admissionResult.data && { age: admissionResult.data.age, on: new Date(admissionResult.data.admission_date) },
+    consultationResult.data && { age: consultationResult.data.age, on: new Date(consultationResult.data.created_at) },
+  ]
+    .filter((entry): entry is { age: number; on: Date } => !!entry)
+    .sort((a, b) => b.on.getTime() - a.on.getTime())[0];
+
+  const yearsSince = recorded ? Math.floor((Date.now() - recorded.on.getTime()) / (365.25 * 86400000)) : 0;
+
+  return {
+    ...personResult.data,
+    age: recorded ? recorded.age + Math.max(0, yearsSince) : null,
+  };
+};
+
+export const fetchActiveAdmission = async (mrn: string): Promise<ActiveAdmission | null> => {
+  const { data, error } = await supabase
+    .from('patients')
+    .select('id, specialty, admission_date')
+    .eq('mrn', mrn)
+    .eq('patient_status', 'Active')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,33 @@
+import { createContext, useContext } from 'react';
+import { User } from './auth';
+
+export interface SessionContextValue {
+  user: User | null;
+  loading: boolean;
+  setUser: (user: User | null) => void;
+  signOut: () => Promise<void>;
+}
+
+export const SESSION_STORAGE_PREFIX = 'imd-care.';
+
+// Removes per-tab state (drafts, lock status) so nothing outlives the signed-in user
+export const clearSessionState = () => {
+  Object.keys(sessionStorage)
+    .filter((key) => key.startsWith(SESSION_STORAGE_PREFIX))
+    .forEach((key) => sessionStorage.removeItem(key));
+};
+
+export const SessionContext = createContext<SessionContextValue | undefined>(undefined);
+
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) throw new Error('useSession must be used within a SessionProvider');
+  return context;
+};
+
+// For components rendered behind RequireAuth, where a signed-in user is guaranteed
+export const useCurrentUser = (): User => {
+  const { user } = useSession();
+  if (!user) throw new Error('useCurrentUser must be used within RequireAuth');
+  return user;
+};
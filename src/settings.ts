@@ -0,0 +1,107 @@
+import { supabase } from './supabaseClient';
+
+export interface IdleTimeoutSettings {
+  lock_after_minutes: number;
+  sign_out_after_minutes: number;
+}
+
+export const DEFAULT_IDLE_TIMEOUT: IdleTimeoutSettings = {
+  lock_after_minutes: 5,
+  sign_out_after_minutes: 30,
+};
+
+export interface VitalRange {
+  min: number;
+  max: number;
+}
+
+export type VitalKey = 'systolic_bp' | 'diastolic_bp' | 'heart_rate' | 'respiratory_rate' | 'temperature' | 'spo2' | 'gcs';
+
+export type VitalRanges = Record<VitalKey, VitalRange>;
+
+export const DEFAULT_VITAL_RANGES: VitalRanges = {
+  systolic_bp: { min: 100, max: 140 },
+  diastolic_bp: { min: 60, max: 90 },
+  heart_rate: { min: 60, max: 100 },
+  respiratory_rate: { min: 12, max: 20 },
+  temperature: { min: 36.1, max: 38.0 },
+  spo2: { min: 94, max: 100 },
+  gcs: { min: 15, max: 15 },
+};
+
+export interface MrnFormatSettings {
+  pattern: string;
+  example: string;
+  uppercase: boolean;
+}
+
+export const DEFAULT_MRN_FORMAT: MrnFormatSettings = {
+  pattern: '^[A-Z0-9-]{3,20}$',
+  example: 'MRN-000123',
+  uppercase: true,
+};
+
+export interface DischargeChecklistItem {
+  key: string;
+  label: string;
+}
+
+export interface DischargeChecklistSettings {
+  items: DischargeChecklistItem[];
+}
+
+export const DEFAULT_DISCHARGE_CHECKLIST: DischargeChecklistSettings = {
+  items: [
+    { key: 'meds_reconciled', label: 'Medications reconciled' },
+    { key: 'transport_arranged', label: 'Transport arranged' },
+    { key: 'follow_up_booked', label: 'Follow-up booked' },
+    { key: 'patient_informed', label: 'Patient and family informed' },
+  ],
+};
+
+export interface HospitalTimeZoneSettings {
+  name: string;
+}
+
+export const DEFAULT_HOSPITAL_TIME_ZONE: HospitalTimeZoneSettings = {
+  name: 'UTC',
+};
+
+export interface AppointmentRetentionSettings {
+  archive_after_days: number;
+}
+
+export const DEFAULT_APPOINTMENT_RETENTION: AppointmentRetentionSettings = {
+  archive_after_days: 90,
+};
+
+export interface WaitingListSettings {
+  target_days: Record<'urgent' | 'soon' | 'routine', number>;
+  warn_before_days: number;
+}
+
+export const DEFAULT_WAITING_LIST: WaitingListSettings = {
+  target_days: { urgent: 14, soon: 42, routine: 126 },
+  warn_before_days: 7,
+};
+
+// Settings are stored as JSON objects; missing fields fall back to the defaults
+export const fetchSetting = async <T extends object>(key: string, fallback: T): Promise<T> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? { ...fallback, ...data.value } : fallback;
+};
+
+export const saveSetting = async <T extends object>(key: string, value: T, updatedBy: string): Promise<void> => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key, value, updated_by: updatedBy, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
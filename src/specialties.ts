@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { supabase } from './supabaseClient';
+
+export interface Specialty {
+  id: number;
+  name: string;
+  colour: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export const fetchSpecialties = async (activeOnly = true): Promise<Specialty[]> => {
+  let query = supabase
+    .from('specialties')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Active specialties for new entries; pass false to include retired ones for filters over history
+export const useSpecialties = (activeOnly = true) => {
+  const [specialties, setSpecialties] = useState<Specialty[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSpecialties(activeOnly)
+      .then(setSpecialties)
+      .catch((error) => console.error('Error fetching specialties:', error))
+      .finally(() => setLoading(false));
+  }, [activeOnly]);
+
+  return { specialties, loading };
+};
@@ -0,0 +1,117 @@
+import { supabase } from './supabaseClient';
+
+export type TransferStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled';
+
+export interface SpecialtyTransfer {
+  id: string;
+  mrn: string;
+  from_specialty: string;
+  to_specialty: string;
+  to_consultant: string;
+  reason: string;
+  status: TransferStatus;
+  requested_by: string | null;
+  requested_by_name: string | null;
+  requested_at: string;
+  responded_by_name: string | null;
+  responded_at: string | null;
+  response_note: string | null;
+}
+
+export interface PendingTransfer extends SpecialtyTransfer {
+  persons: { patient_name: string } | null;
+}
+
+export interface SpecialtyStay {
+  id: string;
+  mrn: string;
+  specialty: string;
+  consultant: string | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface Consultant {
+  id: string;
+  employee_name: string;
+}
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  pending: 'Awaiting receiving team',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+// Open stays count up to now
+export const stayDays = (stay: SpecialtyStay) => {
+  const end = stay.ended_at ? new Date(stay.ended_at) : new Date();
+  return Math.max(0, (end.getTime() - new Date(stay.started_at).getTime()) / 86400000);
+};
+
+export const fetchTransfers = async (mrn: string): Promise<SpecialtyTransfer[]> => {
+  const { data, error } = await supabase
+    .from('specialty_transfers')
+    .select('*')
+    .eq('mrn', mrn)
+    .order('requested_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchPendingTransfers = async (): Promise<PendingTransfer[]> => {
+  const { data, error } = await supabase
+    .from('specialty_transfers')
+    .select('*, persons(patient_name)')
+    .eq('status', 'pending')
+    .order('requested_at');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchStays = async (mrn: string): Promise<SpecialtyStay[]> => {
+  const { data, error } = await supabase
+    .from('specialty_stays')
+    .select('*')
+    .eq('mrn', mrn)
+    .order('started_at');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchConsultants = async (): Promise<Consultant[]> => {
+  const { data, error } = await supabase.rpc('list_consultants');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// The current team is filled in by the database from the admission
+export const requestTransfer = async (mrn: string, toSpecialty: string, toConsultant: string, reason: string): Promise<void> => {
+  const { error } = await supabase
+    .from('specialty_transfers')
+    .insert([{ mrn, to_specialty: toSpecialty, to_consultant: toConsultant, reason }]);
+
+  if (error) throw error;
+};
+
+export const respondToTransfer = async (
+  transferId: string,
+  status: Exclude<TransferStatus, 'pending'>,
+  note: string | null = null
+): Promise<void> => {
+  const { error } = await supabase.rpc('respond_to_specialty_transfer', {
+    p_transfer_id: transferId,
+    p_status: status,
+    p_note: note,
+  });
+
+  if (error) throw error;
+};
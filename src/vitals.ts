@@ -0,0 +1,36 @@
+import { VitalKey, VitalRanges } from './settings';
+
+export interface Observation {
+  id: string;
+  mrn: string;
+  recorded_at: string;
+  systolic_bp: number | null;
+  diastolic_bp: number | null;
+  heart_rate: number | null;
+  respiratory_rate: number | null;
+  temperature: number | null;
+  spo2: number | null;
+  gcs: number | null;
+  recorded_by: string | null;
+  recorded_by_name: string | null;
+}
+
+export interface VitalSign {
+  key: VitalKey;
+  label: string;
+  unit: string;
+  step?: string;
+}
+
+export const VITAL_SIGNS: VitalSign[] = [
+  { key: 'systolic_bp', label: 'Systolic BP', unit: 'mmHg' },
+  { key: 'diastolic_bp', label: 'Diastolic BP', unit: 'mmHg' },
+  { key: 'heart_rate', label: 'Heart Rate', unit: 'bpm' },
+  { key: 'respiratory_rate', label: 'Resp. Rate', unit: '/min' },
+  { key: 'temperature', label: 'Temperature', unit: '°C', step: '0.1' },
+  { key: 'spo2', label: 'SpO2', unit: '%' },
+  { key: 'gcs', label: 'GCS', unit: '/15' },
+];
+
+export const isOutOfRange = (ranges: VitalRanges, key: VitalKey, value: number | null) =>
+  value !== null && (value < ranges[key].min || value > ranges[key].max);
@@ -0,0 +1,112 @@
+import { supabase } from './supabaseClient';
+import { ClinicSlot } from './clinics';
+import { WaitingListSettings } from './settings';
+
+export type WaitingPriority = keyof WaitingListSettings['target_days'];
+
+export type BreachStatus = 'breached' | 'at_risk' | 'on_track';
+
+export interface WaitingListEntry {
+  id: string;
+  mrn: string;
+  patient_name: string;
+  specialty: string;
+  referral_date: string;
+  referred_by: string | null;
+  priority: WaitingPriority;
+  target_date: string;
+  reason: string | null;
+  added_by_name: string | null;
+  created_at: string;
+  days_waiting: number;
+  days_to_target: number;
+  breach_status: BreachStatus;
+  priority_rank: number;
+}
+
+export interface NewReferral {
+  mrn: string;
+  patient_name: string;
+  specialty: string;
+  referral_date: string;
+  referred_by: string;
+  priority: WaitingPriority;
+  reason: string;
+}
+
+export const PRIORITY_LABELS: Record<WaitingPriority, string> = {
+  urgent: 'Urgent',
+  soon: 'Soon',
+  routine: 'Routine',
+};
+
+export const PRIORITY_OPTIONS = Object.keys(PRIORITY_LABELS) as WaitingPriority[];
+
+export const BREACH_LABELS: Record<BreachStatus, string> = {
+  breached: 'Breached',
+  at_risk: 'Due soon',
+  on_track: 'On track',
+};
+
+export const BREACH_STYLES: Record<BreachStatus, string> = {
+  breached: 'bg-red-100 text-red-800',
+  at_risk: 'bg-yellow-100 text-yellow-800',
+  on_track: 'bg-green-100 text-green-800',
+};
+
+export const targetLabel = (entry: Pick<WaitingListEntry, 'days_to_target'>) => {
+  if (entry.days_to_target < 0) return `${-entry.days_to_target} days over target`;
+  if (entry.days_to_target === 0) return 'Target today';
+  return `${entry.days_to_target} days to target`;
+};
+
+// Clinical priority first, then whoever is closest to breaching
+export const fetchWaitingList = async (specialty: string): Promise<WaitingListEntry[]> => {
+  let query = supabase.from('waiting_list_overview').select('*');
+
+  if (specialty) query = query.eq('specialty', specialty);
+
+  const { data, error } = await query
+    .order('priority_rank')
+    .order('target_date')
+    .order('referral_date');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// The target date is filled in from the priority's default target wait
+export const addToWaitingList = async (referral: NewReferral): Promise<void> => {
+  const { error } = await supabase
+    .from('waiting_list_entries')
+    .insert([{
+      ...referral,
+      referred_by: referral.referred_by.trim() || null,
+      reason: referral.reason.trim() || null,
+    }]);
+
+  if (error) throw error;
+};
+
+export const removeFromWaitingList = async (entryId: string, reason: string): Promise<void> => {
+  const { error } = await supabase
+    .from('waiting_list_entries')
+    .update({ status: 'removed', removed_reason: reason })
+    .eq('id', entryId);
+
+  if (error) throw error;
+};
+
+export const bookFromWaitingList = async (entryId: string, slot: ClinicSlot): Promise<number> => {
+  const { data, error } = await supabase.rpc('book_from_waiting_list', {
+    p_entry_id: entryId,
+    p_template_id: slot.template_id,
+    p_date: slot.slot_date,
+    p_time: slot.slot_time,
+  });
+
+  if (error) throw error;
+
+  return data;
+};
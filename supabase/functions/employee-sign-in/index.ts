@@ -0,0 +1,120 @@
+// Signs an employee in by code. The email linked to the code is looked up and
+// used here with the service role, so it is never returned to the browser.
+// Deploy with `supabase functions deploy employee-sign-in --no-verify-jwt`.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type SignInRequest =
+  | { action: 'password'; employee_code: string; password: string }
+  | { action: 'send_otp'; employee_code: string }
+  | { action: 'verify_otp'; employee_code: string; token: string };
+
+const INVALID_CREDENTIALS = 'Invalid employee code or password.';
+const INVALID_CODE = 'The code is invalid or has expired. Please request a new one.';
+const ACCOUNT_LOCKED = 'Account locked after too many failed attempts. Try again later or contact an administrator.';
+
+// Mirrors hook_password_verification_attempt() for the one-time-code path
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+  auth: { persistSession: false },
+});
+
+// Failures are reported in the body so the client can show the message as-is
+const respond = (body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const request: SignInRequest = await req.json();
+
+    const { data: employee, error } = await admin
+      .from('users')
+      .select('id, email, failed_login_attempts, locked_until')
+      .eq('employee_code', request.employee_code.trim())
+      .not('email', 'is', null)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const isLocked = !!employee?.locked_until && new Date(employee.locked_until).getTime() > Date.now();
+
+    // The code path answers the same whether or not the employee code exists
+    if (request.action === 'send_otp' && (!employee || isLocked)) return respond({});
+    if (!employee) return respond({ error: request.action === 'verify_otp' ? INVALID_CODE : INVALID_CREDENTIALS });
+    if (isLocked && request.action === 'verify_otp') return respond({ error: ACCOUNT_LOCKED });
+
+    // A fresh client per request so no session is shared between callers
+    const auth = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      auth: { persistSession: false },
+    }).auth;
+
+    switch (request.action) {
+      case 'password': {
+        const { data, error: signInError } = await auth.signInWithPassword({
+          email: employee.email,
+          password: request.password,
+        });
+
+        if (signInError) {
+          return respond({
+            error: signInError.message === 'Invalid login credentials' ? INVALID_CREDENTIALS : signInError.message,
+          });
+        }
+
+        return respond({ session: data.session });
+      }
+      case 'send_otp': {
+        const { error: otpError } = await auth.signInWithOtp({
+          email: employee.email,
+          options: { shouldCreateUser: false },
+        });
+
+        if (otpError) console.error('Error sending sign-in code:', otpError);
+
+        return respond({});
+      }
+      case 'verify_otp': {
+        const { data, error: verifyError } = await auth.verifyOtp({
+          email: employee.email,
+          token: request.token.trim(),
+          type: 'email',
+        });
+
+        if (verifyError) {
+          const attempts = employee.failed_login_attempts + 1;
+          const locked = attempts >= MAX_FAILED_ATTEMPTS;
+
+          await admin
+            .from('users')
+            .update(locked
+              ? { failed_login_attempts: 0, locked_until: new Date(Date.now() + LOCKOUT_MINUTES * 60000).toISOString() }
+              : { failed_login_attempts: attempts })
+            .eq('id', employee.id);
+
+          return respond({ error: locked ? ACCOUNT_LOCKED : INVALID_CODE });
+        }
+
+        await admin.from('users').update({ failed_login_attempts: 0, locked_until: null }).eq('id', employee.id);
+
+        return respond({ session: data.session });
+      }
+    }
+  } catch (error) {
+    console.error('Error signing in employee:', error);
+    return respond({ error: 'Sign-in is unavailable. Please try again.' });
+  }
+});
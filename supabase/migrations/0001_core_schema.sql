@@ -0,0 +1,96 @@
+-- Core tables used by the application. Written to be re-runnable so it also applies
+-- cleanly to databases created before the schema was kept in migrations.
+
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    employee_code VARCHAR(50) NOT NULL UNIQUE,
+    employee_name VARCHAR(255) NOT NULL,
+    role VARCHAR(50) NOT NULL DEFAULT 'authenticated_user',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS patients (
+    mrn VARCHAR(50) PRIMARY KEY,
+    patient_name VARCHAR(255) NOT NULL,
+    age INTEGER NOT NULL CHECK (age BETWEEN 0 AND 150),
+    gender VARCHAR(10) NOT NULL CHECK (gender IN ('Male', 'Female')),
+    admission_date DATE NOT NULL,
+    admission_time TIME,
+    shift_type VARCHAR(50),
+    is_weekend_shift BOOLEAN NOT NULL DEFAULT FALSE,
+    assigned_doctor VARCHAR(255),
+    specialty VARCHAR(100) NOT NULL,
+    diagnosis TEXT,
+    patient_status VARCHAR(20) NOT NULL DEFAULT 'Active' CHECK (patient_status IN ('Active', 'Discharged')),
+    discharge_date DATE,
+    discharge_time TIME,
+    discharge_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (discharge_date IS NULL OR discharge_date >= admission_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_patients_specialty_status ON patients (specialty, patient_status);
+
+CREATE TABLE IF NOT EXISTS consultations (
+    mrn VARCHAR(50) PRIMARY KEY,
+    patient_name VARCHAR(255) NOT NULL,
+    age INTEGER NOT NULL CHECK (age BETWEEN 0 AND 150),
+    gender VARCHAR(10) NOT NULL CHECK (gender IN ('Male', 'Female')),
+    requesting_department VARCHAR(255) NOT NULL,
+    patient_location VARCHAR(255),
+    consultation_specialty VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'Active' CHECK (status IN ('Active', 'Completed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consultations_specialty_status ON consultations (consultation_specialty, status);
+
+CREATE TABLE IF NOT EXISTS patient_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL,
+    content TEXT NOT NULL CHECK (LENGTH(TRIM(content)) > 0),
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_notes_mrn ON patient_notes (mrn, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS daily_reports (
+    report_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id VARCHAR(50) NOT NULL,
+    report_date DATE NOT NULL,
+    report_content TEXT NOT NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_reports_report_date ON daily_reports (report_date);
+
+-- Create the clinic_appointments table
+CREATE TABLE IF NOT EXISTS clinic_appointments (
+    appointment_id SERIAL PRIMARY KEY,
+    patient_name VARCHAR(255) NOT NULL,
+    patient_medical_number VARCHAR(50) NOT NULL,
+    clinic_specialty VARCHAR(100) NOT NULL,
+    appointment_type VARCHAR(10) NOT NULL CHECK (appointment_type IN ('Urgent', 'Regular')),
+    created_at TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+);
+
+-- Create an index on created_at
+CREATE INDEX IF NOT EXISTS idx_clinic_appointments_created_at ON clinic_appointments (created_at);
+
+-- Create a function to delete records older than 48 hours
+CREATE OR REPLACE FUNCTION delete_old_appointments() RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM clinic_appointments WHERE created_at < NOW() - INTERVAL '48 hours';
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a trigger to call the function after each insert
+CREATE OR REPLACE TRIGGER delete_old_appointments_trigger
+AFTER INSERT ON clinic_appointments
+EXECUTE PROCEDURE delete_old_appointments();
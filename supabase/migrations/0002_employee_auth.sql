@@ -0,0 +1,86 @@
+-- Link employees to Supabase Auth identities
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS email VARCHAR(255) UNIQUE,
+    ADD COLUMN IF NOT EXISTS auth_user_id UUID UNIQUE REFERENCES auth.users (id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Attach an auth identity to the employee row with the same email
+CREATE OR REPLACE FUNCTION link_auth_user() RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.users
+    SET auth_user_id = NEW.id
+    WHERE LOWER(email) = LOWER(NEW.email) AND auth_user_id IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER link_auth_user_trigger
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE PROCEDURE link_auth_user();
+
+-- Pick up an existing auth identity when an employee's email is set or changed
+CREATE OR REPLACE FUNCTION link_employee_identity() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.email IS NULL THEN
+        NEW.auth_user_id := NULL;
+    ELSE
+        SELECT id INTO NEW.auth_user_id FROM auth.users WHERE LOWER(email) = LOWER(NEW.email);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER link_employee_identity_trigger
+BEFORE INSERT OR UPDATE OF email ON users
+FOR EACH ROW EXECUTE PROCEDURE link_employee_identity();
+
+-- Backfill links for employees who already have an auth identity
+UPDATE users u
+SET auth_user_id = a.id
+FROM auth.users a
+WHERE LOWER(a.email) = LOWER(u.email) AND u.auth_user_id IS NULL;
+
+-- Lock an account for 15 minutes after 5 consecutive failed password attempts.
+-- Enable under Authentication > Hooks > Password Verification Attempt.
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event JSONB) RETURNS JSONB AS $$
+DECLARE
+    v_user public.users%ROWTYPE;
+BEGIN
+    SELECT * INTO v_user FROM public.users WHERE auth_user_id = (event->>'user_id')::UUID;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('decision', 'continue');
+    END IF;
+
+    IF v_user.locked_until IS NOT NULL AND v_user.locked_until > NOW() THEN
+        RETURN jsonb_build_object(
+            'decision', 'reject',
+            'message', 'Account locked after too many failed attempts. Try again later or contact an administrator.',
+            'should_logout_user', true
+        );
+    END IF;
+
+    IF (event->>'valid')::BOOLEAN THEN
+        UPDATE public.users SET failed_login_attempts = 0, locked_until = NULL WHERE id = v_user.id;
+        RETURN jsonb_build_object('decision', 'continue');
+    END IF;
+
+    IF v_user.failed_login_attempts + 1 >= 5 THEN
+        UPDATE public.users
+        SET failed_login_attempts = 0, locked_until = NOW() + INTERVAL '15 minutes'
+        WHERE id = v_user.id;
+        RETURN jsonb_build_object(
+            'decision', 'reject',
+            'message', 'Account locked after too many failed attempts. Try again later or contact an administrator.',
+            'should_logout_user', true
+        );
+    END IF;
+
+    UPDATE public.users SET failed_login_attempts = failed_login_attempts + 1 WHERE id = v_user.id;
+    RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) FROM authenticated, anon, public;
@@ -0,0 +1,12 @@
+-- Application-wide settings managed by admins
+CREATE TABLE app_settings (
+    key VARCHAR(100) PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_by UUID REFERENCES users (id) ON DELETE SET NULL
+);
+
+INSERT INTO app_settings (key, value)
+VALUES ('idle_timeout', '{"lock_after_minutes": 5, "sign_out_after_minutes": 30}')
+ON CONFLICT (key) DO NOTHING;
+
@@ -0,0 +1,41 @@
+-- Role-based access control
+CREATE TABLE role_permissions (
+    role VARCHAR(50) NOT NULL,
+    permission VARCHAR(50) NOT NULL,
+    PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'view_patients'), ('admin', 'admit_patients'), ('admin', 'discharge_patients'),
+    ('admin', 'edit_notes'), ('admin', 'book_appointments'), ('admin', 'view_reports'),
+    ('admin', 'manage_employees'), ('admin', 'manage_settings'),
+    ('consultant', 'view_patients'), ('consultant', 'admit_patients'), ('consultant', 'discharge_patients'),
+    ('consultant', 'edit_notes'), ('consultant', 'book_appointments'), ('consultant', 'view_reports'),
+    ('resident', 'view_patients'), ('resident', 'admit_patients'), ('resident', 'discharge_patients'),
+    ('resident', 'edit_notes'), ('resident', 'book_appointments'), ('resident', 'view_reports'),
+    ('nurse', 'view_patients'), ('nurse', 'edit_notes'), ('nurse', 'view_reports'),
+    ('clerk', 'view_patients'), ('clerk', 'admit_patients'), ('clerk', 'book_appointments'),
+    ('auditor', 'view_patients'), ('auditor', 'view_reports')
+ON CONFLICT DO NOTHING;
+
+-- Existing staff accounts become residents; admins stay admins
+UPDATE users SET role = 'resident' WHERE role = 'authenticated_user';
+
+ALTER TABLE users
+    ALTER COLUMN role SET DEFAULT 'resident',
+    ADD CONSTRAINT users_role_check
+        CHECK (role IN ('admin', 'consultant', 'resident', 'nurse', 'clerk', 'auditor'));
+
+-- Employee row for the signed-in auth user
+CREATE OR REPLACE FUNCTION current_employee_id() RETURNS UUID AS $$
+    SELECT id FROM public.users WHERE auth_user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT) RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.users u
+        JOIN public.role_permissions rp ON rp.role = u.role
+        WHERE u.auth_user_id = auth.uid() AND rp.permission = p_permission
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,50 @@
+-- Row-level security for every table. Policies grant access to signed-in
+-- employees through the permissions of their role (see has_permission).
+-- Anything without a policy, including all access by the anon role, is denied.
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+CREATE POLICY users_select ON users FOR SELECT TO authenticated
+    USING (auth_user_id = auth.uid() OR has_permission('manage_employees'));
+CREATE POLICY users_insert ON users FOR INSERT TO authenticated WITH CHECK (has_permission('manage_employees'));
+CREATE POLICY users_update ON users FOR UPDATE TO authenticated
+    USING (has_permission('manage_employees')) WITH CHECK (has_permission('manage_employees'));
+-- Admins cannot delete their own account and lock everyone out
+CREATE POLICY users_delete ON users FOR DELETE TO authenticated
+    USING (has_permission('manage_employees') AND id <> current_employee_id());
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY role_permissions_select ON role_permissions FOR SELECT TO authenticated USING (true);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY app_settings_select ON app_settings FOR SELECT TO authenticated USING (true);
+CREATE POLICY app_settings_insert ON app_settings FOR INSERT TO authenticated WITH CHECK (has_permission('manage_settings'));
+CREATE POLICY app_settings_update ON app_settings FOR UPDATE TO authenticated
+    USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+ALTER TABLE patients ENABLE ROW LEVEL SECURITY;
+CREATE POLICY patients_select ON patients FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY patients_insert ON patients FOR INSERT TO authenticated WITH CHECK (has_permission('admit_patients'));
+CREATE POLICY patients_update ON patients FOR UPDATE TO authenticated
+    USING (has_permission('discharge_patients')) WITH CHECK (has_permission('discharge_patients'));
+
+ALTER TABLE consultations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY consultations_select ON consultations FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY consultations_insert ON consultations FOR INSERT TO authenticated WITH CHECK (has_permission('admit_patients'));
+CREATE POLICY consultations_update ON consultations FOR UPDATE TO authenticated
+    USING (has_permission('discharge_patients')) WITH CHECK (has_permission('discharge_patients'));
+
+ALTER TABLE patient_notes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY patient_notes_select ON patient_notes FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY patient_notes_insert ON patient_notes FOR INSERT TO authenticated WITH CHECK (has_permission('edit_notes'));
+CREATE POLICY patient_notes_update ON patient_notes FOR UPDATE TO authenticated
+    USING (has_permission('edit_notes')) WITH CHECK (has_permission('edit_notes'));
+
+ALTER TABLE daily_reports ENABLE ROW LEVEL SECURITY;
+CREATE POLICY daily_reports_select ON daily_reports FOR SELECT TO authenticated USING (has_permission('view_reports'));
+CREATE POLICY daily_reports_insert ON daily_reports FOR INSERT TO authenticated WITH CHECK (has_permission('edit_notes'));
+
+ALTER TABLE clinic_appointments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY clinic_appointments_select ON clinic_appointments FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY clinic_appointments_insert ON clinic_appointments FOR INSERT TO authenticated WITH CHECK (has_permission('book_appointments'));
+CREATE POLICY clinic_appointments_update ON clinic_appointments FOR UPDATE TO authenticated
+    USING (has_permission('book_appointments')) WITH CHECK (has_permission('book_appointments'));
@@ -0,0 +1,92 @@
+-- Immutable audit trail of changes to clinical records and employee accounts
+
+CREATE TABLE audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    actor_id UUID,
+    actor_name VARCHAR(255),
+    table_name VARCHAR(100) NOT NULL,
+    row_id TEXT NOT NULL,
+    mrn VARCHAR(50),
+    action VARCHAR(10) NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+    old_values JSONB,
+    new_values JSONB
+);
+
+CREATE INDEX idx_audit_log_occurred_at ON audit_log (occurred_at DESC);
+CREATE INDEX idx_audit_log_mrn ON audit_log (mrn);
+CREATE INDEX idx_audit_log_actor_id ON audit_log (actor_id);
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'view_audit_log'), ('auditor', 'view_audit_log')
+ON CONFLICT DO NOTHING;
+
+-- Generic row trigger. TG_ARGV[0] names the primary key column.
+CREATE OR REPLACE FUNCTION record_audit_log() RETURNS TRIGGER AS $$
+DECLARE
+    v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+    v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+    v_row JSONB := COALESCE(v_new, v_old);
+    v_actor public.users%ROWTYPE;
+BEGIN
+    IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_actor FROM public.users WHERE auth_user_id = auth.uid();
+
+    INSERT INTO public.audit_log (actor_id, actor_name, table_name, row_id, mrn, action, old_values, new_values)
+    VALUES (
+        v_actor.id,
+        v_actor.employee_name,
+        TG_TABLE_NAME,
+        v_row->>TG_ARGV[0],
+        COALESCE(v_row->>'mrn', v_row->>'patient_id', v_row->>'patient_medical_number'),
+        TG_OP,
+        v_old,
+        v_new
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_patients AFTER INSERT OR UPDATE OR DELETE ON patients
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('mrn');
+
+CREATE TRIGGER audit_consultations AFTER INSERT OR UPDATE OR DELETE ON consultations
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('mrn');
+
+CREATE TRIGGER audit_patient_notes AFTER INSERT OR UPDATE OR DELETE ON patient_notes
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
+
+CREATE TRIGGER audit_daily_reports AFTER INSERT OR UPDATE OR DELETE ON daily_reports
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('report_id');
+
+CREATE TRIGGER audit_clinic_appointments AFTER INSERT OR UPDATE OR DELETE ON clinic_appointments
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('appointment_id');
+
+CREATE TRIGGER audit_users AFTER INSERT OR UPDATE OR DELETE ON users
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
+
+CREATE TRIGGER audit_app_settings AFTER INSERT OR UPDATE OR DELETE ON app_settings
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('key');
+
+-- Entries are written only by the trigger and can never be changed
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY audit_log_select ON audit_log FOR SELECT TO authenticated USING (has_permission('view_audit_log'));
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_change() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log entries cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_audit_log_change
+BEFORE UPDATE OR DELETE ON audit_log
+FOR EACH ROW EXECUTE PROCEDURE prevent_audit_log_change();
+
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON audit_log
+FOR EACH STATEMENT EXECUTE PROCEDURE prevent_audit_log_change();
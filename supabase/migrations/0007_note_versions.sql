@@ -0,0 +1,95 @@
+-- Note authorship, version history and addenda
+
+ALTER TABLE patient_notes
+    ADD COLUMN author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ADD COLUMN parent_note_id UUID REFERENCES patient_notes(id);
+
+CREATE INDEX idx_patient_notes_parent_note_id ON patient_notes (parent_note_id);
+
+CREATE TABLE patient_note_versions (
+    note_id UUID NOT NULL REFERENCES patient_notes(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    edited_by_name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (note_id, version)
+);
+
+-- Existing notes become version 1; their author was never recorded
+INSERT INTO patient_note_versions (note_id, version, content, edited_by_name, created_at)
+SELECT id, 1, content, created_by, created_at FROM patient_notes;
+
+-- Authorship is stamped from the signed-in employee and cannot be changed
+CREATE OR REPLACE FUNCTION stamp_patient_note() RETURNS TRIGGER AS $$
+DECLARE
+    v_employee public.users%ROWTYPE;
+BEGIN
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    IF TG_OP = 'INSERT' THEN
+        IF v_employee.id IS NOT NULL THEN
+            NEW.author_id := v_employee.id;
+            NEW.created_by := v_employee.employee_name;
+        END IF;
+        NEW.version := 1;
+        NEW.created_at := NOW();
+        NEW.updated_at := NOW();
+        RETURN NEW;
+    END IF;
+
+    NEW.mrn := OLD.mrn;
+    NEW.author_id := OLD.author_id;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+    NEW.parent_note_id := OLD.parent_note_id;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.version := OLD.version + 1;
+        NEW.updated_at := NOW();
+    ELSE
+        NEW.version := OLD.version;
+        NEW.updated_at := OLD.updated_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_patient_note
+BEFORE INSERT OR UPDATE ON patient_notes
+FOR EACH ROW EXECUTE PROCEDURE stamp_patient_note();
+
+CREATE OR REPLACE FUNCTION record_patient_note_version() RETURNS TRIGGER AS $$
+DECLARE
+    v_employee public.users%ROWTYPE;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    INSERT INTO public.patient_note_versions (note_id, version, content, edited_by, edited_by_name)
+    VALUES (NEW.id, NEW.version, NEW.content, v_employee.id, COALESCE(v_employee.employee_name, NEW.created_by));
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_patient_note_version
+AFTER INSERT OR UPDATE ON patient_notes
+FOR EACH ROW EXECUTE PROCEDURE record_patient_note_version();
+
+-- Only the author may edit a note; everyone else adds an addendum
+DROP POLICY patient_notes_update ON patient_notes;
+CREATE POLICY patient_notes_update ON patient_notes FOR UPDATE TO authenticated
+    USING (has_permission('edit_notes') AND author_id = current_employee_id())
+    WITH CHECK (has_permission('edit_notes') AND author_id = current_employee_id());
+
+ALTER TABLE patient_note_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY patient_note_versions_select ON patient_note_versions FOR SELECT TO authenticated
+    USING (has_permission('view_patients'));
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON patient_note_versions FROM anon, authenticated;
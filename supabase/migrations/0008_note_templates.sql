@@ -0,0 +1,72 @@
+-- Admin-defined note types with named sections
+
+CREATE TABLE note_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    -- [{"key": "subjective", "label": "Subjective", "required": true}, ...]
+    sections JSONB NOT NULL CHECK (jsonb_typeof(sections) = 'array' AND jsonb_array_length(sections) > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO note_templates (name, sections, sort_order) VALUES
+    ('SOAP', '[
+        {"key": "subjective", "label": "Subjective", "required": true},
+        {"key": "objective", "label": "Objective", "required": true},
+        {"key": "assessment", "label": "Assessment", "required": true},
+        {"key": "plan", "label": "Plan", "required": true}
+    ]', 1),
+    ('Progress Note', '[
+        {"key": "progress", "label": "Progress", "required": true},
+        {"key": "issues", "label": "Active Issues", "required": false},
+        {"key": "plan", "label": "Plan", "required": true}
+    ]', 2),
+    ('Handover', '[
+        {"key": "situation", "label": "Situation", "required": true},
+        {"key": "background", "label": "Background", "required": false},
+        {"key": "assessment", "label": "Assessment", "required": true},
+        {"key": "recommendation", "label": "Recommendation", "required": true}
+    ]', 3);
+
+-- Templated notes keep each section's text; content holds the same text
+-- flattened with headings so history and diffs work for every note
+ALTER TABLE patient_notes
+    ADD COLUMN template_id UUID REFERENCES note_templates(id),
+    ADD COLUMN sections JSONB;
+
+CREATE OR REPLACE FUNCTION validate_note_sections() RETURNS TRIGGER AS $$
+DECLARE
+    v_section JSONB;
+BEGIN
+    IF NEW.template_id IS NULL THEN
+        NEW.sections := NULL;
+        RETURN NEW;
+    END IF;
+
+    FOR v_section IN
+        SELECT value FROM public.note_templates t, jsonb_array_elements(t.sections)
+        WHERE t.id = NEW.template_id
+    LOOP
+        IF (v_section->>'required')::BOOLEAN AND COALESCE(TRIM(NEW.sections->>(v_section->>'key')), '') = '' THEN
+            RAISE EXCEPTION 'Section "%" is required', v_section->>'label';
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_note_sections
+BEFORE INSERT OR UPDATE ON patient_notes
+FOR EACH ROW EXECUTE PROCEDURE validate_note_sections();
+
+ALTER TABLE note_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY note_templates_select ON note_templates FOR SELECT TO authenticated USING (TRUE);
+CREATE POLICY note_templates_insert ON note_templates FOR INSERT TO authenticated WITH CHECK (has_permission('manage_settings'));
+CREATE POLICY note_templates_update ON note_templates FOR UPDATE TO authenticated
+    USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+CREATE TRIGGER audit_note_templates AFTER INSERT OR UPDATE OR DELETE ON note_templates
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
@@ -0,0 +1,58 @@
+-- Time-stamped vital signs per patient
+
+CREATE TABLE observations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    systolic_bp INTEGER CHECK (systolic_bp BETWEEN 30 AND 300),
+    diastolic_bp INTEGER CHECK (diastolic_bp BETWEEN 10 AND 200),
+    heart_rate INTEGER CHECK (heart_rate BETWEEN 10 AND 300),
+    respiratory_rate INTEGER CHECK (respiratory_rate BETWEEN 1 AND 80),
+    temperature NUMERIC(4, 1) CHECK (temperature BETWEEN 25 AND 45),
+    spo2 INTEGER CHECK (spo2 BETWEEN 40 AND 100),
+    gcs INTEGER CHECK (gcs BETWEEN 3 AND 15),
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    recorded_by_name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (COALESCE(systolic_bp, diastolic_bp, heart_rate, respiratory_rate, temperature, spo2, gcs) IS NOT NULL)
+);
+
+CREATE INDEX idx_observations_mrn_recorded_at ON observations (mrn, recorded_at DESC);
+
+-- The recording employee comes from the session, not the client
+CREATE OR REPLACE FUNCTION stamp_observation() RETURNS TRIGGER AS $$
+BEGIN
+    SELECT id, employee_name INTO NEW.recorded_by, NEW.recorded_by_name
+    FROM public.users WHERE auth_user_id = auth.uid();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_observation
+BEFORE INSERT ON observations
+FOR EACH ROW EXECUTE PROCEDURE stamp_observation();
+
+INSERT INTO role_permissions (role, permission)
+SELECT role, 'record_observations' FROM role_permissions WHERE permission = 'edit_notes'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO app_settings (key, value)
+VALUES ('vital_ranges', '{
+    "systolic_bp": {"min": 100, "max": 140},
+    "diastolic_bp": {"min": 60, "max": 90},
+    "heart_rate": {"min": 60, "max": 100},
+    "respiratory_rate": {"min": 12, "max": 20},
+    "temperature": {"min": 36.1, "max": 38.0},
+    "spo2": {"min": 94, "max": 100},
+    "gcs": {"min": 15, "max": 15}
+}')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE observations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY observations_select ON observations FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY observations_insert ON observations FOR INSERT TO authenticated
+    WITH CHECK (has_permission('record_observations'));
+
+CREATE TRIGGER audit_observations AFTER INSERT OR UPDATE OR DELETE ON observations
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
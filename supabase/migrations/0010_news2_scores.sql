@@ -0,0 +1,109 @@
+-- NEWS2 early warning scores per patient
+
+CREATE TABLE news2_scores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    respiratory_rate INTEGER NOT NULL CHECK (respiratory_rate BETWEEN 1 AND 80),
+    spo2 INTEGER NOT NULL CHECK (spo2 BETWEEN 40 AND 100),
+    spo2_scale SMALLINT NOT NULL DEFAULT 1 CHECK (spo2_scale IN (1, 2)),
+    on_oxygen BOOLEAN NOT NULL DEFAULT FALSE,
+    systolic_bp INTEGER NOT NULL CHECK (systolic_bp BETWEEN 30 AND 300),
+    heart_rate INTEGER NOT NULL CHECK (heart_rate BETWEEN 10 AND 300),
+    consciousness CHAR(1) NOT NULL CHECK (consciousness IN ('A', 'C', 'V', 'P', 'U')),
+    temperature NUMERIC(4, 1) NOT NULL CHECK (temperature BETWEEN 25 AND 45),
+    total_score INTEGER NOT NULL CHECK (total_score BETWEEN 0 AND 20),
+    has_red_score BOOLEAN NOT NULL,
+    response_level VARCHAR(20) NOT NULL CHECK (response_level IN ('Low', 'Low-medium', 'Medium', 'High')),
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    recorded_by_name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_news2_scores_mrn_recorded_at ON news2_scores (mrn, recorded_at DESC);
+
+CREATE TRIGGER stamp_news2_score
+BEFORE INSERT ON news2_scores
+FOR EACH ROW EXECUTE PROCEDURE stamp_observation();
+
+-- The score is always worked out from the stored parameters, mirroring calculateNews2()
+-- in src/news2.ts, so escalations cannot be hidden by a score sent from the browser
+CREATE OR REPLACE FUNCTION score_news2() RETURNS TRIGGER AS $$
+DECLARE
+    v_scores INTEGER[];
+BEGIN
+    v_scores := ARRAY[
+        CASE
+            WHEN NEW.respiratory_rate <= 8 THEN 3
+            WHEN NEW.respiratory_rate <= 11 THEN 1
+            WHEN NEW.respiratory_rate <= 20 THEN 0
+            WHEN NEW.respiratory_rate <= 24 THEN 2
+            ELSE 3
+        END,
+        CASE
+            WHEN NEW.spo2_scale = 1 THEN
+                CASE WHEN NEW.spo2 <= 91 THEN 3 WHEN NEW.spo2 <= 93 THEN 2 WHEN NEW.spo2 <= 95 THEN 1 ELSE 0 END
+            -- Scale 2 is for confirmed hypercapnic respiratory failure (target 88-92%)
+            WHEN NEW.spo2 <= 83 THEN 3
+            WHEN NEW.spo2 <= 85 THEN 2
+            WHEN NEW.spo2 <= 87 THEN 1
+            WHEN NEW.spo2 <= 92 OR NOT NEW.on_oxygen THEN 0
+            WHEN NEW.spo2 <= 94 THEN 1
+            WHEN NEW.spo2 <= 96 THEN 2
+            ELSE 3
+        END,
+        CASE WHEN NEW.on_oxygen THEN 2 ELSE 0 END,
+        CASE
+            WHEN NEW.systolic_bp <= 90 THEN 3
+            WHEN NEW.systolic_bp <= 100 THEN 2
+            WHEN NEW.systolic_bp <= 110 THEN 1
+            WHEN NEW.systolic_bp <= 219 THEN 0
+            ELSE 3
+        END,
+        CASE
+            WHEN NEW.heart_rate <= 40 THEN 3
+            WHEN NEW.heart_rate <= 50 THEN 1
+            WHEN NEW.heart_rate <= 90 THEN 0
+            WHEN NEW.heart_rate <= 110 THEN 1
+            WHEN NEW.heart_rate <= 130 THEN 2
+            ELSE 3
+        END,
+        CASE WHEN NEW.consciousness = 'A' THEN 0 ELSE 3 END,
+        CASE
+            WHEN NEW.temperature <= 35.0 THEN 3
+            WHEN NEW.temperature <= 36.0 THEN 1
+            WHEN NEW.temperature <= 38.0 THEN 0
+            WHEN NEW.temperature <= 39.0 THEN 1
+            ELSE 2
+        END
+    ];
+
+    SELECT SUM(score) INTO NEW.total_score FROM unnest(v_scores) AS score;
+    NEW.has_red_score := 3 = ANY(v_scores);
+    NEW.response_level := CASE
+        WHEN NEW.total_score >= 7 THEN 'High'
+        WHEN NEW.total_score >= 5 THEN 'Medium'
+        WHEN NEW.has_red_score THEN 'Low-medium'
+        ELSE 'Low'
+    END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER score_news2
+BEFORE INSERT OR UPDATE ON news2_scores
+FOR EACH ROW EXECUTE PROCEDURE score_news2();
+
+-- Most recent score per patient, for ward lists and the dashboard
+CREATE VIEW latest_news2_scores WITH (security_invoker = true) AS
+SELECT DISTINCT ON (mrn) *
+FROM news2_scores
+ORDER BY mrn, recorded_at DESC;
+
+ALTER TABLE news2_scores ENABLE ROW LEVEL SECURITY;
+CREATE POLICY news2_scores_select ON news2_scores FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY news2_scores_insert ON news2_scores FOR INSERT TO authenticated WITH CHECK (has_permission('record_observations'));
+
+CREATE TRIGGER audit_news2_scores AFTER INSERT OR UPDATE OR DELETE ON news2_scores
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
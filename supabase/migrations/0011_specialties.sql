@@ -0,0 +1,56 @@
+-- Central list of specialties. Clinical records keep the specialty name and
+-- follow renames through ON UPDATE CASCADE, so history stays consistent.
+
+CREATE TABLE specialties (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    colour VARCHAR(7) NOT NULL DEFAULT '#6366F1' CHECK (colour ~ '^#[0-9A-Fa-f]{6}$'),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO specialties (name, colour, sort_order) VALUES
+    ('General Internal Medicine', '#6366F1', 1),
+    ('Respiratory Medicine', '#0EA5E9', 2),
+    ('Infectious Diseases', '#22C55E', 3),
+    ('Neurology', '#A855F7', 4),
+    ('Gastroenterology', '#F59E0B', 5),
+    ('Rheumatology', '#EC4899', 6),
+    ('Hematology', '#EF4444', 7),
+    ('Thrombosis Medicine', '#B91C1C', 8),
+    ('Immunology & Allergy', '#14B8A6', 9),
+    ('Safety Admission', '#64748B', 10),
+    ('Medical Consultations', '#8B5CF6', 11);
+
+-- Keep any other names already in use, hidden from new entries
+INSERT INTO specialties (name, is_active, sort_order)
+SELECT DISTINCT name, FALSE, 100
+FROM (
+    SELECT specialty AS name FROM patients
+    UNION SELECT consultation_specialty FROM consultations
+    UNION SELECT clinic_specialty FROM clinic_appointments
+) used
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE patients
+    ADD CONSTRAINT patients_specialty_fkey
+    FOREIGN KEY (specialty) REFERENCES specialties(name) ON UPDATE CASCADE;
+
+ALTER TABLE consultations
+    ADD CONSTRAINT consultations_specialty_fkey
+    FOREIGN KEY (consultation_specialty) REFERENCES specialties(name) ON UPDATE CASCADE;
+
+ALTER TABLE clinic_appointments
+    ADD CONSTRAINT clinic_appointments_specialty_fkey
+    FOREIGN KEY (clinic_specialty) REFERENCES specialties(name) ON UPDATE CASCADE;
+
+ALTER TABLE specialties ENABLE ROW LEVEL SECURITY;
+CREATE POLICY specialties_select ON specialties FOR SELECT TO authenticated USING (TRUE);
+CREATE POLICY specialties_insert ON specialties FOR INSERT TO authenticated WITH CHECK (has_permission('manage_settings'));
+CREATE POLICY specialties_update ON specialties FOR UPDATE TO authenticated
+    USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+CREATE TRIGGER audit_specialties AFTER INSERT OR UPDATE OR DELETE ON specialties
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
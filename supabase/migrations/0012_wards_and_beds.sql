@@ -0,0 +1,186 @@
+-- Wards, rooms and beds with bed assignment history
+
+CREATE TABLE wards (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE rooms (
+    id SERIAL PRIMARY KEY,
+    ward_id INTEGER NOT NULL REFERENCES wards(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (ward_id, name)
+);
+
+CREATE TABLE beds (
+    id SERIAL PRIMARY KEY,
+    room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    label VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'available'
+        CHECK (status IN ('available', 'occupied', 'blocked', 'cleaning')),
+    status_note TEXT,
+    occupant_mrn VARCHAR(50) REFERENCES patients(mrn) ON UPDATE CASCADE,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (room_id, label),
+    CHECK ((status = 'occupied') = (occupant_mrn IS NOT NULL))
+);
+
+-- A patient occupies at most one bed
+CREATE UNIQUE INDEX idx_beds_occupant_mrn ON beds (occupant_mrn) WHERE occupant_mrn IS NOT NULL;
+
+CREATE TABLE bed_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bed_id INTEGER NOT NULL REFERENCES beds(id),
+    mrn VARCHAR(50) NOT NULL REFERENCES patients(mrn) ON UPDATE CASCADE,
+    assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    released_at TIMESTAMP WITH TIME ZONE,
+    assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    CHECK (released_at IS NULL OR released_at >= assigned_at)
+);
+
+CREATE INDEX idx_bed_assignments_mrn ON bed_assignments (mrn, assigned_at DESC);
+
+CREATE VIEW bed_overview WITH (security_invoker = true) AS
+SELECT
+    b.id AS bed_id,
+    b.label AS bed_label,
+    b.status,
+    b.status_note,
+    b.updated_at,
+    r.id AS room_id,
+    r.name AS room_name,
+    w.id AS ward_id,
+    w.name AS ward_name,
+    w.sort_order AS ward_sort_order,
+    w.is_active AS ward_is_active,
+    b.occupant_mrn,
+    p.patient_name AS occupant_name,
+    p.specialty AS occupant_specialty
+FROM beds b
+JOIN rooms r ON r.id = b.room_id
+JOIN wards w ON w.id = r.ward_id
+LEFT JOIN patients p ON p.mrn = b.occupant_mrn;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'manage_beds'), ('consultant', 'manage_beds'), ('resident', 'manage_beds'),
+    ('nurse', 'manage_beds'), ('clerk', 'manage_beds')
+ON CONFLICT DO NOTHING;
+
+-- Frees the patient's current bed for cleaning
+CREATE OR REPLACE FUNCTION release_patient_bed(p_mrn TEXT) RETURNS VOID AS $$
+BEGIN
+    UPDATE public.bed_assignments
+    SET released_at = NOW()
+    WHERE mrn = p_mrn AND released_at IS NULL;
+
+    UPDATE public.beds
+    SET status = 'cleaning', occupant_mrn = NULL, status_note = NULL, updated_at = NOW()
+    WHERE occupant_mrn = p_mrn;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION release_patient_bed(TEXT) FROM PUBLIC;
+
+-- Puts an admitted patient into an available bed. A patient who already has a
+-- bed is transferred and the old bed goes to cleaning.
+CREATE OR REPLACE FUNCTION assign_bed(p_mrn TEXT, p_bed_id INTEGER) RETURNS VOID AS $$
+DECLARE
+    v_bed public.beds%ROWTYPE;
+BEGIN
+    IF NOT (has_permission('manage_beds') OR has_permission('admit_patients')) THEN
+        RAISE EXCEPTION 'Not allowed to assign beds' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.patients WHERE mrn = p_mrn AND patient_status = 'Active') THEN
+        RAISE EXCEPTION 'Patient % is not currently admitted', p_mrn;
+    END IF;
+
+    SELECT * INTO v_bed FROM public.beds WHERE id = p_bed_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bed not found';
+    END IF;
+
+    IF v_bed.status <> 'available' THEN
+        RAISE EXCEPTION 'Bed % is not available (%)', v_bed.label, v_bed.status;
+    END IF;
+
+    PERFORM release_patient_bed(p_mrn);
+
+    UPDATE public.beds
+    SET status = 'occupied', occupant_mrn = p_mrn, status_note = NULL, updated_at = NOW()
+    WHERE id = p_bed_id;
+
+    INSERT INTO public.bed_assignments (bed_id, mrn, assigned_by)
+    VALUES (p_bed_id, p_mrn, current_employee_id());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Marks an unoccupied bed available, blocked or awaiting cleaning
+CREATE OR REPLACE FUNCTION set_bed_status(p_bed_id INTEGER, p_status TEXT, p_note TEXT DEFAULT NULL) RETURNS VOID AS $$
+BEGIN
+    IF NOT has_permission('manage_beds') THEN
+        RAISE EXCEPTION 'Not allowed to manage beds' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status NOT IN ('available', 'blocked', 'cleaning') THEN
+        RAISE EXCEPTION 'Invalid bed status %', p_status;
+    END IF;
+
+    UPDATE public.beds
+    SET status = p_status, status_note = p_note, updated_at = NOW()
+    WHERE id = p_bed_id AND occupant_mrn IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bed is occupied or does not exist';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Discharge frees the bed whichever screen performs it
+CREATE OR REPLACE FUNCTION release_bed_on_discharge() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.patient_status = 'Discharged' AND OLD.patient_status IS DISTINCT FROM 'Discharged' THEN
+        PERFORM release_patient_bed(NEW.mrn);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER release_bed_on_discharge
+AFTER UPDATE OF patient_status ON patients
+FOR EACH ROW EXECUTE PROCEDURE release_bed_on_discharge();
+
+-- Bed state changes go through the functions above; wards, rooms and beds
+-- themselves are set up by admins
+ALTER TABLE wards ENABLE ROW LEVEL SECURITY;
+CREATE POLICY wards_select ON wards FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY wards_insert ON wards FOR INSERT TO authenticated WITH CHECK (has_permission('manage_settings'));
+CREATE POLICY wards_update ON wards FOR UPDATE TO authenticated
+    USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+CREATE POLICY rooms_select ON rooms FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY rooms_insert ON rooms FOR INSERT TO authenticated WITH CHECK (has_permission('manage_settings'));
+CREATE POLICY rooms_update ON rooms FOR UPDATE TO authenticated
+    USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+ALTER TABLE beds ENABLE ROW LEVEL SECURITY;
+CREATE POLICY beds_select ON beds FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY beds_insert ON beds FOR INSERT TO authenticated
+    WITH CHECK (has_permission('manage_settings') AND status <> 'occupied');
+CREATE POLICY beds_delete ON beds FOR DELETE TO authenticated
+    USING (has_permission('manage_settings') AND occupant_mrn IS NULL);
+
+ALTER TABLE bed_assignments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY bed_assignments_select ON bed_assignments FOR SELECT TO authenticated USING (has_permission('view_patients'));
+
+CREATE TRIGGER audit_beds AFTER INSERT OR UPDATE OR DELETE ON beds
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
+
+CREATE TRIGGER audit_bed_assignments AFTER INSERT OR UPDATE OR DELETE ON bed_assignments
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
@@ -0,0 +1,208 @@
+-- Transfers between specialties and the history of which team owned each admission
+
+-- The team an employee works in; its members respond to transfers into it
+ALTER TABLE users ADD COLUMN specialty VARCHAR(100) REFERENCES specialties(name) ON UPDATE CASCADE;
+
+CREATE TABLE specialty_stays (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL REFERENCES patients(mrn) ON UPDATE CASCADE,
+    specialty VARCHAR(100) NOT NULL REFERENCES specialties(name) ON UPDATE CASCADE,
+    consultant VARCHAR(255),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX idx_specialty_stays_mrn ON specialty_stays (mrn, started_at);
+CREATE UNIQUE INDEX idx_specialty_stays_open ON specialty_stays (mrn) WHERE ended_at IS NULL;
+
+CREATE TABLE specialty_transfers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL REFERENCES patients(mrn) ON UPDATE CASCADE,
+    from_specialty VARCHAR(100) NOT NULL REFERENCES specialties(name) ON UPDATE CASCADE,
+    to_specialty VARCHAR(100) NOT NULL REFERENCES specialties(name) ON UPDATE CASCADE,
+    to_consultant VARCHAR(255) NOT NULL,
+    reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled')),
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    requested_by_name VARCHAR(255),
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    responded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    responded_by_name VARCHAR(255),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    response_note TEXT,
+    CHECK (from_specialty <> to_specialty)
+);
+
+CREATE INDEX idx_specialty_transfers_mrn ON specialty_transfers (mrn, requested_at DESC);
+-- Only one open request per patient at a time
+CREATE UNIQUE INDEX idx_specialty_transfers_pending ON specialty_transfers (mrn) WHERE status = 'pending';
+
+-- Existing admissions start with a single stay under their current specialty
+INSERT INTO specialty_stays (mrn, specialty, consultant, started_at, ended_at)
+SELECT
+    mrn,
+    specialty,
+    assigned_doctor,
+    admission_date + COALESCE(admission_time, '00:00'),
+    CASE WHEN patient_status = 'Discharged'
+        THEN GREATEST(COALESCE(discharge_date + COALESCE(discharge_time, '00:00'), updated_at),
+                      admission_date + COALESCE(admission_time, '00:00'))
+    END
+FROM patients;
+
+CREATE OR REPLACE FUNCTION open_specialty_stay() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.specialty_stays (mrn, specialty, consultant, started_at)
+    VALUES (NEW.mrn, NEW.specialty, NEW.assigned_doctor, NEW.admission_date + COALESCE(NEW.admission_time, '00:00'));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER open_specialty_stay
+AFTER INSERT ON patients
+FOR EACH ROW EXECUTE PROCEDURE open_specialty_stay();
+
+-- Discharge closes the current stay and withdraws any open transfer request
+CREATE OR REPLACE FUNCTION close_specialty_stay_on_discharge() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.patient_status = 'Discharged' AND OLD.patient_status IS DISTINCT FROM 'Discharged' THEN
+        UPDATE public.specialty_stays
+        SET ended_at = GREATEST(started_at, COALESCE(NEW.discharge_date + COALESCE(NEW.discharge_time, '00:00'), NOW()))
+        WHERE mrn = NEW.mrn AND ended_at IS NULL;
+
+        UPDATE public.specialty_transfers
+        SET status = 'cancelled', responded_at = NOW(), response_note = 'Patient discharged'
+        WHERE mrn = NEW.mrn AND status = 'pending';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER close_specialty_stay_on_discharge
+AFTER UPDATE OF patient_status ON patients
+FOR EACH ROW EXECUTE PROCEDURE close_specialty_stay_on_discharge();
+
+-- Requests always start pending, from the patient's current team, stamped with the requester
+CREATE OR REPLACE FUNCTION stamp_specialty_transfer() RETURNS TRIGGER AS $$
+BEGIN
+    SELECT specialty INTO NEW.from_specialty
+    FROM public.patients WHERE mrn = NEW.mrn AND patient_status = 'Active';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Patient % is not currently admitted', NEW.mrn;
+    END IF;
+
+    SELECT id, employee_name INTO NEW.requested_by, NEW.requested_by_name
+    FROM public.users WHERE auth_user_id = auth.uid();
+
+    NEW.status := 'pending';
+    NEW.requested_at := NOW();
+    NEW.responded_by := NULL;
+    NEW.responded_by_name := NULL;
+    NEW.responded_at := NULL;
+    NEW.response_note := NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_specialty_transfer
+BEFORE INSERT ON specialty_transfers
+FOR EACH ROW EXECUTE PROCEDURE stamp_specialty_transfer();
+
+-- The receiving team (the named consultant or anyone in the specialty) accepts
+-- or rejects; the requester may cancel. Accepting moves the admission to the
+-- new specialty and consultant.
+CREATE OR REPLACE FUNCTION respond_to_specialty_transfer(p_transfer_id UUID, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    v_transfer public.specialty_transfers%ROWTYPE;
+    v_employee public.users%ROWTYPE;
+BEGIN
+    IF NOT has_permission('admit_patients') THEN
+        RAISE EXCEPTION 'Not allowed to respond to transfers' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status NOT IN ('accepted', 'rejected', 'cancelled') THEN
+        RAISE EXCEPTION 'Invalid transfer response %', p_status;
+    END IF;
+
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    SELECT * INTO v_transfer FROM public.specialty_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND OR v_transfer.status <> 'pending' THEN
+        RAISE EXCEPTION 'This transfer request is no longer pending';
+    END IF;
+
+    IF p_status = 'cancelled' AND v_transfer.requested_by IS DISTINCT FROM v_employee.id THEN
+        RAISE EXCEPTION 'Only the requester can cancel a transfer' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status <> 'cancelled' AND v_transfer.requested_by = v_employee.id THEN
+        RAISE EXCEPTION 'The receiving team must respond to this transfer' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status <> 'cancelled'
+        AND v_employee.employee_name IS DISTINCT FROM v_transfer.to_consultant
+        AND v_employee.specialty IS DISTINCT FROM v_transfer.to_specialty THEN
+        RAISE EXCEPTION 'Only % or the % team can respond to this transfer', v_transfer.to_consultant, v_transfer.to_specialty
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.specialty_transfers
+    SET status = p_status,
+        responded_by = v_employee.id,
+        responded_by_name = v_employee.employee_name,
+        responded_at = NOW(),
+        response_note = NULLIF(TRIM(p_note), '')
+    WHERE id = p_transfer_id;
+
+    IF p_status = 'accepted' THEN
+        UPDATE public.specialty_stays
+        SET ended_at = GREATEST(started_at, NOW())
+        WHERE mrn = v_transfer.mrn AND ended_at IS NULL;
+
+        INSERT INTO public.specialty_stays (mrn, specialty, consultant, started_at)
+        VALUES (v_transfer.mrn, v_transfer.to_specialty, v_transfer.to_consultant, NOW());
+
+        UPDATE public.patients
+        SET specialty = v_transfer.to_specialty,
+            assigned_doctor = v_transfer.to_consultant,
+            updated_at = NOW()
+        WHERE mrn = v_transfer.mrn;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Clinicians pick the receiving consultant without being able to read the employee table
+CREATE OR REPLACE FUNCTION list_consultants() RETURNS TABLE (id UUID, employee_name VARCHAR) AS $$
+    SELECT id, employee_name FROM public.users
+    WHERE role = 'consultant' AND has_permission('view_patients')
+    ORDER BY employee_name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Days under each team, counting open stays up to now
+CREATE VIEW specialty_length_of_stay WITH (security_invoker = true) AS
+SELECT
+    specialty,
+    COUNT(*) AS stays,
+    ROUND(AVG(EXTRACT(EPOCH FROM COALESCE(ended_at, NOW()) - started_at) / 86400)::NUMERIC, 1) AS average_days,
+    ROUND(SUM(EXTRACT(EPOCH FROM COALESCE(ended_at, NOW()) - started_at) / 86400)::NUMERIC, 1) AS total_days
+FROM specialty_stays
+GROUP BY specialty;
+
+ALTER TABLE specialty_stays ENABLE ROW LEVEL SECURITY;
+CREATE POLICY specialty_stays_select ON specialty_stays FOR SELECT TO authenticated USING (has_permission('view_patients'));
+
+ALTER TABLE specialty_transfers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY specialty_transfers_select ON specialty_transfers FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY specialty_transfers_insert ON specialty_transfers FOR INSERT TO authenticated WITH CHECK (has_permission('admit_patients'));
+
+CREATE TRIGGER audit_specialty_stays AFTER INSERT OR UPDATE OR DELETE ON specialty_stays
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
+
+CREATE TRIGGER audit_specialty_transfers AFTER INSERT OR UPDATE OR DELETE ON specialty_transfers
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
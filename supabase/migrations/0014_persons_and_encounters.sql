@@ -0,0 +1,281 @@
+-- Patient master index: one person per MRN, one encounter per admission or consultation
+
+CREATE TABLE persons (
+    mrn VARCHAR(50) PRIMARY KEY,
+    patient_name VARCHAR(255) NOT NULL,
+    gender VARCHAR(10) NOT NULL CHECK (gender IN ('Male', 'Female')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Consultation keys still carry the C- prefix; the person is the bare MRN
+INSERT INTO persons (mrn, patient_name, gender, created_at)
+SELECT DISTINCT ON (mrn) mrn, patient_name, gender, created_at
+FROM (
+    SELECT mrn, patient_name, gender, COALESCE(updated_at, created_at, NOW()) AS created_at FROM patients
+    UNION ALL
+    SELECT REGEXP_REPLACE(mrn, '^C-', ''), patient_name, gender, COALESCE(updated_at, created_at, NOW()) FROM consultations
+) AS known
+ORDER BY mrn, created_at DESC;
+
+-- Admissions get their own key so an MRN can be admitted more than once
+ALTER TABLE beds DROP CONSTRAINT beds_occupant_mrn_fkey;
+ALTER TABLE bed_assignments DROP CONSTRAINT bed_assignments_mrn_fkey;
+ALTER TABLE specialty_stays DROP CONSTRAINT specialty_stays_mrn_fkey;
+ALTER TABLE specialty_transfers DROP CONSTRAINT specialty_transfers_mrn_fkey;
+
+ALTER TABLE patients ADD COLUMN id UUID NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE patients DROP CONSTRAINT patients_pkey;
+ALTER TABLE patients ADD PRIMARY KEY (id);
+ALTER TABLE patients ADD FOREIGN KEY (mrn) REFERENCES persons(mrn) ON UPDATE CASCADE;
+CREATE INDEX idx_patients_mrn ON patients (mrn, admission_date DESC);
+CREATE UNIQUE INDEX idx_patients_one_active_admission ON patients (mrn) WHERE patient_status = 'Active';
+
+ALTER TABLE beds ADD FOREIGN KEY (occupant_mrn) REFERENCES persons(mrn) ON UPDATE CASCADE;
+ALTER TABLE bed_assignments ADD FOREIGN KEY (mrn) REFERENCES persons(mrn) ON UPDATE CASCADE;
+ALTER TABLE specialty_stays ADD FOREIGN KEY (mrn) REFERENCES persons(mrn) ON UPDATE CASCADE;
+ALTER TABLE specialty_transfers ADD FOREIGN KEY (mrn) REFERENCES persons(mrn) ON UPDATE CASCADE;
+
+-- Stays belong to a single admission
+ALTER TABLE specialty_stays ADD COLUMN admission_id UUID REFERENCES patients(id) ON DELETE CASCADE;
+UPDATE specialty_stays s SET admission_id = p.id FROM patients p WHERE p.mrn = s.mrn;
+ALTER TABLE specialty_stays ALTER COLUMN admission_id SET NOT NULL;
+
+CREATE TABLE encounters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL REFERENCES persons(mrn) ON UPDATE CASCADE,
+    encounter_type VARCHAR(20) NOT NULL CHECK (encounter_type IN ('admission', 'consultation')),
+    admission_id UUID UNIQUE REFERENCES patients(id) ON DELETE CASCADE,
+    consultation_mrn VARCHAR(50) UNIQUE REFERENCES consultations(mrn) ON UPDATE CASCADE ON DELETE CASCADE,
+    specialty VARCHAR(100) NOT NULL REFERENCES specialties(name) ON UPDATE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('Active', 'Closed')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    CHECK ((encounter_type = 'admission') = (admission_id IS NOT NULL)),
+    CHECK ((encounter_type = 'consultation') = (consultation_mrn IS NOT NULL))
+);
+
+CREATE INDEX idx_encounters_mrn ON encounters (mrn, started_at DESC);
+
+-- Registration details on the latest encounter update the person
+CREATE OR REPLACE FUNCTION sync_person() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.persons (mrn, patient_name, gender)
+    VALUES (REGEXP_REPLACE(NEW.mrn, '^C-', ''), NEW.patient_name, NEW.gender)
+    ON CONFLICT (mrn) DO UPDATE
+    SET patient_name = EXCLUDED.patient_name, gender = EXCLUDED.gender, updated_at = NOW()
+    WHERE (persons.patient_name, persons.gender) IS DISTINCT FROM (EXCLUDED.patient_name, EXCLUDED.gender);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_person
+BEFORE INSERT OR UPDATE OF patient_name, gender ON patients
+FOR EACH ROW EXECUTE PROCEDURE sync_person();
+
+CREATE TRIGGER sync_person
+BEFORE INSERT OR UPDATE OF patient_name, gender ON consultations
+FOR EACH ROW EXECUTE PROCEDURE sync_person();
+
+CREATE OR REPLACE FUNCTION sync_admission_encounter() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.encounters (mrn, encounter_type, admission_id, specialty, status, started_at, ended_at)
+    VALUES (
+        NEW.mrn,
+        'admission',
+        NEW.id,
+        NEW.specialty,
+        CASE WHEN NEW.patient_status = 'Active' THEN 'Active' ELSE 'Closed' END,
+        NEW.admission_date + COALESCE(NEW.admission_time, '00:00'),
+        CASE WHEN NEW.patient_status = 'Discharged'
+            THEN GREATEST(COALESCE(NEW.discharge_date + COALESCE(NEW.discharge_time, '00:00'), NOW()),
+                          NEW.admission_date + COALESCE(NEW.admission_time, '00:00'))
+        END
+    )
+    ON CONFLICT (admission_id) DO UPDATE
+    SET mrn = EXCLUDED.mrn,
+        specialty = EXCLUDED.specialty,
+        status = EXCLUDED.status,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_admission_encounter
+AFTER INSERT OR UPDATE ON patients
+FOR EACH ROW EXECUTE PROCEDURE sync_admission_encounter();
+
+CREATE OR REPLACE FUNCTION sync_consultation_encounter() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.encounters (mrn, encounter_type, consultation_mrn, specialty, status, started_at, ended_at)
+    VALUES (
+        REGEXP_REPLACE(NEW.mrn, '^C-', ''),
+        'consultation',
+        NEW.mrn,
+        NEW.consultation_specialty,
+        CASE WHEN NEW.status = 'Active' THEN 'Active' ELSE 'Closed' END,
+        COALESCE(NEW.created_at, NOW()),
+        CASE WHEN NEW.status = 'Completed' THEN GREATEST(COALESCE(NEW.updated_at, NOW()), COALESCE(NEW.created_at, NOW())) END
+    )
+    ON CONFLICT (consultation_mrn) DO UPDATE
+    SET specialty = EXCLUDED.specialty,
+        status = EXCLUDED.status,
+        ended_at = EXCLUDED.ended_at;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_consultation_encounter
+AFTER INSERT OR UPDATE ON consultations
+FOR EACH ROW EXECUTE PROCEDURE sync_consultation_encounter();
+
+-- Touching each row runs the triggers above to backfill encounters
+UPDATE patients SET id = id;
+UPDATE consultations SET status = status;
+
+-- Stays and transfers now follow the admission rather than every row for the MRN
+CREATE OR REPLACE FUNCTION open_specialty_stay() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.specialty_stays (mrn, admission_id, specialty, consultant, started_at)
+    VALUES (NEW.mrn, NEW.id, NEW.specialty, NEW.assigned_doctor, NEW.admission_date + COALESCE(NEW.admission_time, '00:00'));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION respond_to_specialty_transfer(p_transfer_id UUID, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    v_transfer public.specialty_transfers%ROWTYPE;
+    v_employee public.users%ROWTYPE;
+    v_admission_id UUID;
+BEGIN
+    IF NOT has_permission('admit_patients') THEN
+        RAISE EXCEPTION 'Not allowed to respond to transfers' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status NOT IN ('accepted', 'rejected', 'cancelled') THEN
+        RAISE EXCEPTION 'Invalid transfer response %', p_status;
+    END IF;
+
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    SELECT * INTO v_transfer FROM public.specialty_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND OR v_transfer.status <> 'pending' THEN
+        RAISE EXCEPTION 'This transfer request is no longer pending';
+    END IF;
+
+    IF p_status = 'cancelled' AND v_transfer.requested_by IS DISTINCT FROM v_employee.id THEN
+        RAISE EXCEPTION 'Only the requester can cancel a transfer' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status <> 'cancelled' AND v_transfer.requested_by = v_employee.id THEN
+        RAISE EXCEPTION 'The receiving team must respond to this transfer' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status <> 'cancelled'
+        AND v_employee.employee_name IS DISTINCT FROM v_transfer.to_consultant
+        AND v_employee.specialty IS DISTINCT FROM v_transfer.to_specialty THEN
+        RAISE EXCEPTION 'Only % or the % team can respond to this transfer', v_transfer.to_consultant, v_transfer.to_specialty
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.specialty_transfers
+    SET status = p_status,
+        responded_by = v_employee.id,
+        responded_by_name = v_employee.employee_name,
+        responded_at = NOW(),
+        response_note = NULLIF(TRIM(p_note), '')
+    WHERE id = p_transfer_id;
+
+    IF p_status = 'accepted' THEN
+        SELECT id INTO v_admission_id
+        FROM public.patients WHERE mrn = v_transfer.mrn AND patient_status = 'Active';
+
+        UPDATE public.specialty_stays
+        SET ended_at = GREATEST(started_at, NOW())
+        WHERE admission_id = v_admission_id AND ended_at IS NULL;
+
+        INSERT INTO public.specialty_stays (mrn, admission_id, specialty, consultant, started_at)
+        VALUES (v_transfer.mrn, v_admission_id, v_transfer.to_specialty, v_transfer.to_consultant, NOW());
+
+        UPDATE public.patients
+        SET specialty = v_transfer.to_specialty,
+            assigned_doctor = v_transfer.to_consultant,
+            updated_at = NOW()
+        WHERE id = v_admission_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION close_specialty_stay_on_discharge() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.patient_status = 'Discharged' AND OLD.patient_status IS DISTINCT FROM 'Discharged' THEN
+        UPDATE public.specialty_stays
+        SET ended_at = GREATEST(started_at, COALESCE(NEW.discharge_date + COALESCE(NEW.discharge_time, '00:00'), NOW()))
+        WHERE admission_id = NEW.id AND ended_at IS NULL;
+
+        UPDATE public.specialty_transfers
+        SET status = 'cancelled', responded_at = NOW(), response_note = 'Patient discharged'
+        WHERE mrn = NEW.mrn AND status = 'pending';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the current admission describes who is in a bed
+CREATE OR REPLACE VIEW bed_overview WITH (security_invoker = true) AS
+SELECT
+    b.id AS bed_id,
+    b.label AS bed_label,
+    b.status,
+    b.status_note,
+    b.updated_at,
+    r.id AS room_id,
+    r.name AS room_name,
+    w.id AS ward_id,
+    w.name AS ward_name,
+    w.sort_order AS ward_sort_order,
+    w.is_active AS ward_is_active,
+    b.occupant_mrn,
+    p.patient_name AS occupant_name,
+    p.specialty AS occupant_specialty
+FROM beds b
+JOIN rooms r ON r.id = b.room_id
+JOIN wards w ON w.id = r.ward_id
+LEFT JOIN patients p ON p.mrn = b.occupant_mrn AND p.patient_status = 'Active';
+
+-- An admission starting within 30 days of the previous discharge is a readmission
+CREATE VIEW encounter_history WITH (security_invoker = true) AS
+SELECT
+    e.*,
+    pe.patient_name,
+    e.encounter_type = 'admission' AND EXISTS (
+        SELECT 1
+        FROM encounters prev
+        WHERE prev.mrn = e.mrn
+          AND prev.encounter_type = 'admission'
+          AND prev.id <> e.id
+          AND prev.ended_at IS NOT NULL
+          AND prev.ended_at <= e.started_at
+          AND e.started_at - prev.ended_at <= INTERVAL '30 days'
+    ) AS is_readmission
+FROM encounters e
+JOIN persons pe ON pe.mrn = e.mrn;
+
+ALTER TABLE persons ENABLE ROW LEVEL SECURITY;
+CREATE POLICY persons_select ON persons FOR SELECT TO authenticated USING (has_permission('view_patients'));
+
+ALTER TABLE encounters ENABLE ROW LEVEL SECURITY;
+CREATE POLICY encounters_select ON encounters FOR SELECT TO authenticated USING (has_permission('view_patients'));
+
+DROP TRIGGER audit_patients ON patients;
+CREATE TRIGGER audit_patients AFTER INSERT OR UPDATE OR DELETE ON patients
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
+
+CREATE TRIGGER audit_persons AFTER INSERT OR UPDATE OR DELETE ON persons
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('mrn');
@@ -0,0 +1,112 @@
+-- Consult workflow: requested → acknowledged → seen → recommendations written → signed off.
+-- The original Active/Completed status is kept in step so lists and encounters keep working.
+
+ALTER TABLE consultations
+    ADD COLUMN workflow_state VARCHAR(20) NOT NULL DEFAULT 'requested'
+        CHECK (workflow_state IN ('requested', 'acknowledged', 'seen', 'recommended', 'signed_off')),
+    ADD COLUMN responding_clinician_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN responding_clinician_name VARCHAR(255),
+    ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN seen_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN seen_by_name VARCHAR(255),
+    ADD COLUMN recommended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN recommended_by_name VARCHAR(255),
+    ADD COLUMN signed_off_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN signed_off_by_name VARCHAR(255),
+    -- Structured reply: impression, recommendations, follow_up
+    ADD COLUMN reply JSONB;
+
+-- Consultations closed before the workflow existed count as signed off when they were closed
+UPDATE consultations
+SET workflow_state = 'signed_off',
+    signed_off_at = COALESCE(updated_at, created_at, NOW())
+WHERE status = 'Completed';
+
+CREATE INDEX idx_consultations_workflow_state ON consultations (consultation_specialty, workflow_state);
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'respond_consultations'), ('consultant', 'respond_consultations'), ('resident', 'respond_consultations')
+ON CONFLICT DO NOTHING;
+
+-- A consultation is only completed by signing it off
+CREATE OR REPLACE FUNCTION guard_consultation_status() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'Completed' AND NEW.workflow_state <> 'signed_off' THEN
+        RAISE EXCEPTION 'Consultation % must be signed off before it is completed', NEW.mrn;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_consultation_status
+BEFORE UPDATE ON consultations
+FOR EACH ROW EXECUTE PROCEDURE guard_consultation_status();
+
+-- Moves a consultation one step along the workflow, stamping who did it and when.
+-- Recommendations may be revised until the consultation is signed off.
+CREATE OR REPLACE FUNCTION advance_consultation(p_mrn TEXT, p_state TEXT, p_reply JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    v_consultation public.consultations%ROWTYPE;
+    v_employee public.users%ROWTYPE;
+    v_next TEXT;
+BEGIN
+    IF NOT has_permission('respond_consultations') THEN
+        RAISE EXCEPTION 'Not allowed to respond to consultations' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    SELECT * INTO v_consultation FROM public.consultations WHERE mrn = p_mrn FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Consultation % not found', p_mrn;
+    END IF;
+
+    v_next := CASE v_consultation.workflow_state
+        WHEN 'requested' THEN 'acknowledged'
+        WHEN 'acknowledged' THEN 'seen'
+        WHEN 'seen' THEN 'recommended'
+        WHEN 'recommended' THEN 'signed_off'
+    END;
+
+    IF p_state IS DISTINCT FROM v_next
+        AND NOT (p_state = 'recommended' AND v_consultation.workflow_state = 'recommended') THEN
+        RAISE EXCEPTION 'Consultation is % and cannot move to %', v_consultation.workflow_state, p_state;
+    END IF;
+
+    IF p_state = 'recommended' AND LENGTH(TRIM(COALESCE(p_reply->>'recommendations', ''))) = 0 THEN
+        RAISE EXCEPTION 'Recommendations are required';
+    END IF;
+
+    UPDATE public.consultations
+    SET workflow_state = p_state,
+        responding_clinician_id = CASE WHEN p_state = 'acknowledged' THEN v_employee.id ELSE responding_clinician_id END,
+        responding_clinician_name = CASE WHEN p_state = 'acknowledged' THEN v_employee.employee_name ELSE responding_clinician_name END,
+        acknowledged_at = CASE WHEN p_state = 'acknowledged' THEN NOW() ELSE acknowledged_at END,
+        seen_at = CASE WHEN p_state = 'seen' THEN NOW() ELSE seen_at END,
+        seen_by_name = CASE WHEN p_state = 'seen' THEN v_employee.employee_name ELSE seen_by_name END,
+        recommended_at = CASE WHEN p_state = 'recommended' THEN NOW() ELSE recommended_at END,
+        recommended_by_name = CASE WHEN p_state = 'recommended' THEN v_employee.employee_name ELSE recommended_by_name END,
+        reply = CASE WHEN p_state = 'recommended' THEN p_reply ELSE reply END,
+        signed_off_at = CASE WHEN p_state = 'signed_off' THEN NOW() ELSE signed_off_at END,
+        signed_off_by_name = CASE WHEN p_state = 'signed_off' THEN v_employee.employee_name ELSE signed_off_by_name END,
+        status = CASE WHEN p_state = 'signed_off' THEN 'Completed' ELSE status END,
+        updated_at = NOW()
+    WHERE mrn = p_mrn;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Minutes from request to each step, per specialty
+CREATE VIEW consultation_response_times WITH (security_invoker = true) AS
+SELECT
+    consultation_specialty AS specialty,
+    COUNT(*) AS consultations,
+    COUNT(*) FILTER (WHERE workflow_state <> 'signed_off') AS open_consultations,
+    ROUND(AVG(EXTRACT(EPOCH FROM acknowledged_at - created_at) / 60)::NUMERIC) AS average_minutes_to_acknowledge,
+    ROUND(AVG(EXTRACT(EPOCH FROM seen_at - created_at) / 60)::NUMERIC) AS average_minutes_to_seen,
+    -- Consultations closed before the workflow existed have no acknowledgement and are left out
+    ROUND((AVG(EXTRACT(EPOCH FROM signed_off_at - created_at) / 60)
+        FILTER (WHERE acknowledged_at IS NOT NULL))::NUMERIC) AS average_minutes_to_sign_off
+FROM consultations
+GROUP BY consultation_specialty;
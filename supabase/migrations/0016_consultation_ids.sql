@@ -0,0 +1,146 @@
+-- Consultations get their own key and carry the patient's real MRN instead of a C- prefixed copy
+
+-- encounter_history selects e.* and is recreated once the consultation key changes
+DROP VIEW encounter_history;
+ALTER TABLE encounters DROP CONSTRAINT encounters_consultation_mrn_fkey;
+
+ALTER TABLE consultations ADD COLUMN id UUID NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE consultations DROP CONSTRAINT consultations_pkey;
+ALTER TABLE consultations ADD PRIMARY KEY (id);
+
+ALTER TABLE encounters ADD COLUMN consultation_id UUID UNIQUE REFERENCES consultations(id) ON DELETE CASCADE;
+UPDATE encounters e SET consultation_id = c.id FROM consultations c WHERE c.mrn = e.consultation_mrn;
+ALTER TABLE encounters DROP COLUMN consultation_mrn;
+ALTER TABLE encounters ADD CHECK ((encounter_type = 'consultation') = (consultation_id IS NOT NULL));
+
+-- Both admissions and consultations now carry the person's MRN as is
+CREATE OR REPLACE FUNCTION sync_person() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.persons (mrn, patient_name, gender)
+    VALUES (NEW.mrn, NEW.patient_name, NEW.gender)
+    ON CONFLICT (mrn) DO UPDATE
+    SET patient_name = EXCLUDED.patient_name, gender = EXCLUDED.gender, updated_at = NOW()
+    WHERE (persons.patient_name, persons.gender) IS DISTINCT FROM (EXCLUDED.patient_name, EXCLUDED.gender);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER sync_person ON consultations;
+CREATE TRIGGER sync_person
+BEFORE INSERT OR UPDATE OF mrn, patient_name, gender ON consultations
+FOR EACH ROW EXECUTE PROCEDURE sync_person();
+
+CREATE OR REPLACE FUNCTION sync_consultation_encounter() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.encounters (mrn, encounter_type, consultation_id, specialty, status, started_at, ended_at)
+    VALUES (
+        NEW.mrn,
+        'consultation',
+        NEW.id,
+        NEW.consultation_specialty,
+        CASE WHEN NEW.status = 'Active' THEN 'Active' ELSE 'Closed' END,
+        COALESCE(NEW.created_at, NOW()),
+        CASE WHEN NEW.status = 'Completed' THEN GREATEST(COALESCE(NEW.updated_at, NOW()), COALESCE(NEW.created_at, NOW())) END
+    )
+    ON CONFLICT (consultation_id) DO UPDATE
+    SET mrn = EXCLUDED.mrn,
+        specialty = EXCLUDED.specialty,
+        status = EXCLUDED.status,
+        ended_at = EXCLUDED.ended_at;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing C- keys become the patient's MRN, along with anything recorded against them
+UPDATE consultations SET mrn = REGEXP_REPLACE(mrn, '^C-', '') WHERE mrn LIKE 'C-%';
+-- The note stamp otherwise pins each note to its original MRN
+ALTER TABLE patient_notes DISABLE TRIGGER stamp_patient_note;
+UPDATE patient_notes SET mrn = REGEXP_REPLACE(mrn, '^C-', '') WHERE mrn LIKE 'C-%';
+ALTER TABLE patient_notes ENABLE TRIGGER stamp_patient_note;
+UPDATE observations SET mrn = REGEXP_REPLACE(mrn, '^C-', '') WHERE mrn LIKE 'C-%';
+UPDATE news2_scores SET mrn = REGEXP_REPLACE(mrn, '^C-', '') WHERE mrn LIKE 'C-%';
+
+ALTER TABLE consultations ADD FOREIGN KEY (mrn) REFERENCES persons(mrn) ON UPDATE CASCADE;
+CREATE INDEX idx_consultations_mrn ON consultations (mrn, created_at DESC);
+-- A patient may have several consults, but only one open request per specialty
+CREATE UNIQUE INDEX idx_consultations_one_active_per_specialty
+    ON consultations (mrn, consultation_specialty) WHERE status = 'Active';
+
+DROP TRIGGER audit_consultations ON consultations;
+CREATE TRIGGER audit_consultations AFTER INSERT OR UPDATE OR DELETE ON consultations
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
+
+-- The workflow now addresses a consultation by its own key
+DROP FUNCTION advance_consultation(TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION advance_consultation(p_consultation_id UUID, p_state TEXT, p_reply JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    v_consultation public.consultations%ROWTYPE;
+    v_employee public.users%ROWTYPE;
+    v_next TEXT;
+BEGIN
+    IF NOT has_permission('respond_consultations') THEN
+        RAISE EXCEPTION 'Not allowed to respond to consultations' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    SELECT * INTO v_consultation FROM public.consultations WHERE id = p_consultation_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Consultation % not found', p_consultation_id;
+    END IF;
+
+    v_next := CASE v_consultation.workflow_state
+        WHEN 'requested' THEN 'acknowledged'
+        WHEN 'acknowledged' THEN 'seen'
+        WHEN 'seen' THEN 'recommended'
+        WHEN 'recommended' THEN 'signed_off'
+    END;
+
+    IF p_state IS DISTINCT FROM v_next
+        AND NOT (p_state = 'recommended' AND v_consultation.workflow_state = 'recommended') THEN
+        RAISE EXCEPTION 'Consultation is % and cannot move to %', v_consultation.workflow_state, p_state;
+    END IF;
+
+    IF p_state = 'recommended' AND LENGTH(TRIM(COALESCE(p_reply->>'recommendations', ''))) = 0 THEN
+        RAISE EXCEPTION 'Recommendations are required';
+    END IF;
+
+    UPDATE public.consultations
+    SET workflow_state = p_state,
+        responding_clinician_id = CASE WHEN p_state = 'acknowledged' THEN v_employee.id ELSE responding_clinician_id END,
+        responding_clinician_name = CASE WHEN p_state = 'acknowledged' THEN v_employee.employee_name ELSE responding_clinician_name END,
+        acknowledged_at = CASE WHEN p_state = 'acknowledged' THEN NOW() ELSE acknowledged_at END,
+        seen_at = CASE WHEN p_state = 'seen' THEN NOW() ELSE seen_at END,
+        seen_by_name = CASE WHEN p_state = 'seen' THEN v_employee.employee_name ELSE seen_by_name END,
+        recommended_at = CASE WHEN p_state = 'recommended' THEN NOW() ELSE recommended_at END,
+        recommended_by_name = CASE WHEN p_state = 'recommended' THEN v_employee.employee_name ELSE recommended_by_name END,
+        reply = CASE WHEN p_state = 'recommended' THEN p_reply ELSE reply END,
+        signed_off_at = CASE WHEN p_state = 'signed_off' THEN NOW() ELSE signed_off_at END,
+        signed_off_by_name = CASE WHEN p_state = 'signed_off' THEN v_employee.employee_name ELSE signed_off_by_name END,
+        status = CASE WHEN p_state = 'signed_off' THEN 'Completed' ELSE status END,
+        updated_at = NOW()
+    WHERE id = p_consultation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE VIEW encounter_history WITH (security_invoker = true) AS
+SELECT
+    e.*,
+    pe.patient_name,
+    e.encounter_type = 'admission' AND EXISTS (
+        SELECT 1
+        FROM encounters prev
+        WHERE prev.mrn = e.mrn
+          AND prev.encounter_type = 'admission'
+          AND prev.id <> e.id
+          AND prev.ended_at IS NOT NULL
+          AND prev.ended_at <= e.started_at
+          AND e.started_at - prev.ended_at <= INTERVAL '30 days'
+    ) AS is_readmission
+FROM encounters e
+JOIN persons pe ON pe.mrn = e.mrn;
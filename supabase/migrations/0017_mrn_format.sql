@@ -0,0 +1,37 @@
+-- Hospital MRN format, checked whenever a new person is registered
+
+INSERT INTO app_settings (key, value)
+VALUES ('mrn_format', '{"pattern": "^[A-Z0-9-]{3,20}$", "example": "MRN-000123", "uppercase": true}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Existing MRNs are left alone; only new or renamed ones must match.
+-- sync_person() upserts, so an insert for a person already on file is let through.
+CREATE OR REPLACE FUNCTION validate_mrn() RETURNS TRIGGER AS $$
+DECLARE
+    v_pattern TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' AND EXISTS (SELECT 1 FROM public.persons WHERE mrn = NEW.mrn) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.mrn = OLD.mrn THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT value->>'pattern' INTO v_pattern FROM public.app_settings WHERE key = 'mrn_format';
+
+    IF NULLIF(v_pattern, '') IS NOT NULL AND NEW.mrn !~ v_pattern THEN
+        RAISE EXCEPTION 'MRN % does not match the hospital MRN format', NEW.mrn
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_mrn
+BEFORE INSERT OR UPDATE OF mrn ON persons
+FOR EACH ROW EXECUTE PROCEDURE validate_mrn();
+
+-- Prefix lookups from the admission form
+CREATE INDEX idx_persons_mrn_prefix ON persons (mrn varchar_pattern_ops);
@@ -0,0 +1,87 @@
+-- Structured discharge summary for each admission, signed off by the discharging doctor
+
+CREATE TABLE discharge_summaries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admission_id UUID NOT NULL UNIQUE REFERENCES patients(id) ON DELETE CASCADE,
+    mrn VARCHAR(50) NOT NULL REFERENCES persons(mrn) ON UPDATE CASCADE,
+    diagnoses TEXT NOT NULL DEFAULT '',
+    procedures TEXT NOT NULL DEFAULT '',
+    hospital_course TEXT NOT NULL DEFAULT '',
+    discharge_medications TEXT NOT NULL DEFAULT '',
+    follow_up TEXT NOT NULL DEFAULT '',
+    pending_results TEXT NOT NULL DEFAULT '',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'signed')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_by_name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    signed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    signed_by_name VARCHAR(255),
+    signed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_discharge_summaries_mrn ON discharge_summaries (mrn);
+
+-- Authorship and sign-off are stamped from the signed-in employee. Setting the
+-- status to 'signed' is the sign-off; a signed summary can no longer change.
+CREATE OR REPLACE FUNCTION stamp_discharge_summary() RETURNS TRIGGER AS $$
+DECLARE
+    v_employee public.users%ROWTYPE;
+BEGIN
+    SELECT * INTO v_employee FROM public.users WHERE auth_user_id = auth.uid();
+
+    IF TG_OP = 'INSERT' THEN
+        SELECT mrn INTO NEW.mrn FROM public.patients WHERE id = NEW.admission_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Admission % not found', NEW.admission_id;
+        END IF;
+
+        NEW.created_by := v_employee.id;
+        NEW.created_by_name := v_employee.employee_name;
+        NEW.created_at := NOW();
+        NEW.status := 'draft';
+    ELSE
+        IF OLD.status = 'signed' THEN
+            RAISE EXCEPTION 'This discharge summary has been signed and can no longer be changed';
+        END IF;
+
+        NEW.admission_id := OLD.admission_id;
+        NEW.mrn := OLD.mrn;
+        NEW.created_by := OLD.created_by;
+        NEW.created_by_name := OLD.created_by_name;
+        NEW.created_at := OLD.created_at;
+    END IF;
+
+    IF NEW.status = 'signed' THEN
+        IF LENGTH(TRIM(NEW.diagnoses)) = 0 THEN
+            RAISE EXCEPTION 'Diagnoses are required before signing';
+        END IF;
+
+        NEW.signed_by := v_employee.id;
+        NEW.signed_by_name := v_employee.employee_name;
+        NEW.signed_at := NOW();
+    ELSE
+        NEW.signed_by := NULL;
+        NEW.signed_by_name := NULL;
+        NEW.signed_at := NULL;
+    END IF;
+
+    NEW.updated_at := NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_discharge_summary
+BEFORE INSERT OR UPDATE ON discharge_summaries
+FOR EACH ROW EXECUTE PROCEDURE stamp_discharge_summary();
+
+ALTER TABLE discharge_summaries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY discharge_summaries_select ON discharge_summaries FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY discharge_summaries_insert ON discharge_summaries FOR INSERT TO authenticated WITH CHECK (has_permission('discharge_patients'));
+CREATE POLICY discharge_summaries_update ON discharge_summaries FOR UPDATE TO authenticated
+    USING (has_permission('discharge_patients') AND status = 'draft') WITH CHECK (has_permission('discharge_patients'));
+
+CREATE TRIGGER audit_discharge_summaries AFTER INSERT OR UPDATE OR DELETE ON discharge_summaries
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
@@ -0,0 +1,58 @@
+-- Where each discharged patient went, with death details and outcome rates per specialty
+
+ALTER TABLE patients
+    ADD COLUMN discharge_disposition VARCHAR(30) CHECK (discharge_disposition IN (
+        'home', 'home_with_services', 'transfer_facility', 'rehabilitation', 'left_ama', 'deceased', 'unknown'
+    )),
+    ADD COLUMN discharge_destination VARCHAR(255),
+    ADD COLUMN death_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN cause_of_death TEXT,
+    ADD COLUMN coroner_referral BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Discharges recorded before dispositions existed cannot be coded after the fact
+UPDATE patients SET discharge_disposition = 'unknown' WHERE patient_status = 'Discharged';
+
+ALTER TABLE patients
+    ADD CONSTRAINT patients_discharge_disposition_required
+        CHECK (patient_status <> 'Discharged' OR discharge_disposition IS NOT NULL),
+    ADD CONSTRAINT patients_death_details
+        CHECK (
+            (discharge_disposition = 'deceased' AND death_at IS NOT NULL AND LENGTH(TRIM(COALESCE(cause_of_death, ''))) > 0)
+            OR (discharge_disposition IS DISTINCT FROM 'deceased' AND death_at IS NULL AND cause_of_death IS NULL AND NOT coroner_referral)
+        );
+
+CREATE INDEX idx_patients_discharge_date ON patients (discharge_date) WHERE patient_status = 'Discharged';
+
+-- Counts and rates per specialty for discharges in a date range; either bound may be left open.
+-- Uncoded legacy discharges are counted but left out of the rate denominators.
+CREATE OR REPLACE FUNCTION discharge_outcomes(p_from DATE DEFAULT NULL, p_to DATE DEFAULT NULL)
+RETURNS TABLE (
+    specialty VARCHAR,
+    discharges BIGINT,
+    coded_discharges BIGINT,
+    home BIGINT,
+    transferred_out BIGINT,
+    left_ama BIGINT,
+    deaths BIGINT,
+    mortality_rate NUMERIC,
+    ama_rate NUMERIC
+) AS $$
+    SELECT
+        p.specialty,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE p.discharge_disposition <> 'unknown'),
+        COUNT(*) FILTER (WHERE p.discharge_disposition IN ('home', 'home_with_services')),
+        COUNT(*) FILTER (WHERE p.discharge_disposition IN ('transfer_facility', 'rehabilitation')),
+        COUNT(*) FILTER (WHERE p.discharge_disposition = 'left_ama'),
+        COUNT(*) FILTER (WHERE p.discharge_disposition = 'deceased'),
+        ROUND(100.0 * COUNT(*) FILTER (WHERE p.discharge_disposition = 'deceased')
+            / NULLIF(COUNT(*) FILTER (WHERE p.discharge_disposition <> 'unknown'), 0), 1),
+        ROUND(100.0 * COUNT(*) FILTER (WHERE p.discharge_disposition = 'left_ama')
+            / NULLIF(COUNT(*) FILTER (WHERE p.discharge_disposition <> 'unknown'), 0), 1)
+    FROM public.patients p
+    WHERE p.patient_status = 'Discharged'
+      AND (p_from IS NULL OR p.discharge_date >= p_from)
+      AND (p_to IS NULL OR p.discharge_date <= p_to)
+    GROUP BY p.specialty
+    ORDER BY p.specialty;
+$$ LANGUAGE sql STABLE SET search_path = public;
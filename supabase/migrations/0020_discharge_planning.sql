@@ -0,0 +1,80 @@
+-- Expected date of discharge and a readiness checklist for each active admission
+
+ALTER TABLE patients
+    ADD COLUMN expected_discharge_date DATE,
+    ADD CONSTRAINT patients_expected_discharge_after_admission
+        CHECK (expected_discharge_date IS NULL OR expected_discharge_date >= admission_date);
+
+CREATE INDEX idx_patients_expected_discharge_date ON patients (expected_discharge_date) WHERE patient_status = 'Active';
+
+-- Nurses arrange much of a discharge but cannot discharge
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'plan_discharges'), ('consultant', 'plan_discharges'), ('resident', 'plan_discharges'),
+    ('nurse', 'plan_discharges')
+ON CONFLICT DO NOTHING;
+
+-- Items shown on the checklist; ticks are kept by key so labels can be reworded
+INSERT INTO app_settings (key, value)
+VALUES ('discharge_checklist', '{"items": [
+    {"key": "meds_reconciled", "label": "Medications reconciled"},
+    {"key": "transport_arranged", "label": "Transport arranged"},
+    {"key": "follow_up_booked", "label": "Follow-up booked"},
+    {"key": "patient_informed", "label": "Patient and family informed"}
+]}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE discharge_checklist_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admission_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    mrn VARCHAR(50) NOT NULL REFERENCES persons(mrn) ON UPDATE CASCADE,
+    item_key VARCHAR(50) NOT NULL,
+    completed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_by_name VARCHAR(255),
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (admission_id, item_key)
+);
+
+CREATE OR REPLACE FUNCTION stamp_discharge_checklist_item() RETURNS TRIGGER AS $$
+BEGIN
+    SELECT mrn INTO NEW.mrn FROM public.patients WHERE id = NEW.admission_id AND patient_status = 'Active';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only active admissions have a discharge checklist';
+    END IF;
+
+    SELECT id, employee_name INTO NEW.completed_by, NEW.completed_by_name
+    FROM public.users WHERE auth_user_id = auth.uid();
+    NEW.completed_at := NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_discharge_checklist_item
+BEFORE INSERT ON discharge_checklist_items
+FOR EACH ROW EXECUTE PROCEDURE stamp_discharge_checklist_item();
+
+-- The rest of the admission stays behind discharge_patients
+CREATE OR REPLACE FUNCTION set_expected_discharge_date(p_admission_id UUID, p_date DATE) RETURNS VOID AS $$
+BEGIN
+    IF NOT has_permission('plan_discharges') THEN
+        RAISE EXCEPTION 'Not allowed to plan discharges' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.patients
+    SET expected_discharge_date = p_date, updated_at = NOW()
+    WHERE id = p_admission_id AND patient_status = 'Active';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only active admissions have an expected discharge date';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE discharge_checklist_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY discharge_checklist_items_select ON discharge_checklist_items FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY discharge_checklist_items_insert ON discharge_checklist_items FOR INSERT TO authenticated WITH CHECK (has_permission('plan_discharges'));
+CREATE POLICY discharge_checklist_items_delete ON discharge_checklist_items FOR DELETE TO authenticated USING (has_permission('plan_discharges'));
+
+CREATE TRIGGER audit_discharge_checklist_items AFTER INSERT OR UPDATE OR DELETE ON discharge_checklist_items
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
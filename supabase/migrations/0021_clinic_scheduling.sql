@@ -0,0 +1,139 @@
+-- Weekly clinic sessions per specialty, and appointments booked into their slots
+
+CREATE TABLE clinic_templates (
+    id SERIAL PRIMARY KEY,
+    specialty VARCHAR(100) NOT NULL REFERENCES specialties(name) ON UPDATE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    -- 0 = Sunday, matching EXTRACT(DOW) and Date.getDay()
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    slot_minutes INTEGER NOT NULL CHECK (slot_minutes BETWEEN 5 AND 240),
+    -- Patients seen in parallel in each slot
+    capacity INTEGER NOT NULL DEFAULT 1 CHECK (capacity BETWEEN 1 AND 50),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX idx_clinic_templates_specialty ON clinic_templates (specialty) WHERE is_active;
+
+-- Appointments booked before scheduling existed keep NULL slots
+ALTER TABLE clinic_appointments
+    ADD COLUMN template_id INTEGER REFERENCES clinic_templates(id),
+    ADD COLUMN appointment_date DATE,
+    ADD COLUMN appointment_time TIME;
+
+CREATE INDEX idx_clinic_appointments_slot ON clinic_appointments (template_id, appointment_date, appointment_time);
+
+-- Slot times are wall-clock times at the hospital, whatever zone the database runs in
+INSERT INTO app_settings (key, value)
+VALUES ('hospital_time_zone', jsonb_build_object('name', current_setting('TimeZone')))
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION hospital_now() RETURNS TIMESTAMP AS $$
+    SELECT NOW() AT TIME ZONE COALESCE(
+        (SELECT NULLIF(value->>'name', '') FROM public.app_settings WHERE key = 'hospital_time_zone'),
+        current_setting('TimeZone')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A booking must land on a real slot of an active session with room left.
+-- Locking the session row serialises concurrent bookings into the same clinic.
+CREATE OR REPLACE FUNCTION check_clinic_slot() RETURNS TRIGGER AS $$
+DECLARE
+    v_template public.clinic_templates%ROWTYPE;
+    v_booked INTEGER;
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.template_id IS NOT DISTINCT FROM OLD.template_id
+        AND NEW.appointment_date IS NOT DISTINCT FROM OLD.appointment_date
+        AND NEW.appointment_time IS NOT DISTINCT FROM OLD.appointment_time THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.template_id IS NULL OR NEW.appointment_date IS NULL OR NEW.appointment_time IS NULL THEN
+        RAISE EXCEPTION 'Appointments must be booked into a clinic slot';
+    END IF;
+
+    IF NEW.appointment_date + NEW.appointment_time < hospital_now() THEN
+        RAISE EXCEPTION 'Appointments cannot be booked into a past slot' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO v_template FROM public.clinic_templates WHERE id = NEW.template_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_template.is_active THEN
+        RAISE EXCEPTION 'Clinic session not found or no longer running';
+    END IF;
+
+    IF EXTRACT(DOW FROM NEW.appointment_date) <> v_template.weekday
+        OR NEW.appointment_time < v_template.start_time
+        OR EXTRACT(EPOCH FROM NEW.appointment_time) + v_template.slot_minutes * 60 > EXTRACT(EPOCH FROM v_template.end_time)
+        OR EXTRACT(EPOCH FROM NEW.appointment_time - v_template.start_time)::INTEGER % (v_template.slot_minutes * 60) <> 0 THEN
+        RAISE EXCEPTION '% at % is not a slot of %', NEW.appointment_date, NEW.appointment_time, v_template.name;
+    END IF;
+
+    SELECT COUNT(*) INTO v_booked
+    FROM public.clinic_appointments
+    WHERE template_id = NEW.template_id
+      AND appointment_date = NEW.appointment_date
+      AND appointment_time = NEW.appointment_time
+      AND appointment_id IS DISTINCT FROM NEW.appointment_id;
+
+    IF v_booked >= v_template.capacity THEN
+        RAISE EXCEPTION 'The % slot on % is already fully booked', NEW.appointment_time, NEW.appointment_date
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    NEW.clinic_specialty := v_template.specialty;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_clinic_slot
+BEFORE INSERT OR UPDATE ON clinic_appointments
+FOR EACH ROW EXECUTE PROCEDURE check_clinic_slot();
+
+-- Every slot of a specialty's sessions between two dates, with how many are booked
+CREATE OR REPLACE FUNCTION clinic_slots(p_specialty TEXT, p_from DATE, p_to DATE)
+RETURNS TABLE (
+    template_id INTEGER,
+    clinic_name VARCHAR,
+    slot_date DATE,
+    slot_time TIME,
+    slot_minutes INTEGER,
+    capacity INTEGER,
+    booked BIGINT
+) AS $$
+    SELECT
+        t.id,
+        t.name,
+        d::DATE,
+        s::TIME,
+        t.slot_minutes,
+        t.capacity,
+        (SELECT COUNT(*) FROM public.clinic_appointments a
+         WHERE a.template_id = t.id AND a.appointment_date = d::DATE AND a.appointment_time = s::TIME)
+    FROM public.clinic_templates t
+    CROSS JOIN generate_series(p_from::TIMESTAMP, p_to::TIMESTAMP, INTERVAL '1 day') d
+    CROSS JOIN LATERAL generate_series(
+        d::DATE + t.start_time,
+        d::DATE + t.end_time - make_interval(mins => t.slot_minutes),
+        make_interval(mins => t.slot_minutes)
+    ) s
+    WHERE t.specialty = p_specialty
+      AND t.is_active
+      AND EXTRACT(DOW FROM d) = t.weekday
+    ORDER BY d, s, t.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+ALTER TABLE clinic_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY clinic_templates_select ON clinic_templates FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY clinic_templates_insert ON clinic_templates FOR INSERT TO authenticated WITH CHECK (has_permission('manage_settings'));
+CREATE POLICY clinic_templates_update ON clinic_templates FOR UPDATE TO authenticated
+    USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+CREATE TRIGGER audit_clinic_templates AFTER INSERT OR UPDATE OR DELETE ON clinic_templates
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
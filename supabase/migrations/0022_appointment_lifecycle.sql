@@ -0,0 +1,200 @@
+-- Appointments are kept with a status lifecycle instead of being deleted after 48 hours
+
+DROP TRIGGER IF EXISTS delete_old_appointments_trigger ON clinic_appointments;
+DROP FUNCTION IF EXISTS delete_old_appointments();
+
+ALTER TABLE clinic_appointments
+    ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'booked'
+        CHECK (status IN ('booked', 'confirmed', 'arrived', 'seen', 'no_show', 'cancelled')),
+    ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN status_changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN status_changed_by_name VARCHAR(255),
+    -- Set by the retention policy; archived appointments drop out of working lists
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_clinic_appointments_unarchived ON clinic_appointments (appointment_date) WHERE archived_at IS NULL;
+
+INSERT INTO app_settings (key, value)
+VALUES ('appointment_retention', '{"archive_after_days": 90}')
+ON CONFLICT (key) DO NOTHING;
+
+-- booked -> confirmed -> arrived -> seen, with no-show and cancellation along the way.
+-- Attendance can only be recorded once the appointment day has come.
+CREATE OR REPLACE FUNCTION check_appointment_status() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.status := 'booked';
+        NEW.archived_at := NULL;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT (
+            (OLD.status = 'booked' AND NEW.status IN ('confirmed', 'arrived', 'no_show', 'cancelled'))
+            OR (OLD.status = 'confirmed' AND NEW.status IN ('arrived', 'no_show', 'cancelled'))
+            OR (OLD.status = 'arrived' AND NEW.status = 'seen')
+        ) THEN
+            RAISE EXCEPTION 'An appointment cannot go from % to %', OLD.status, NEW.status;
+        END IF;
+
+        IF NEW.status IN ('arrived', 'seen', 'no_show') AND NEW.appointment_date > hospital_now()::DATE THEN
+            RAISE EXCEPTION 'Attendance cannot be recorded before the appointment day';
+        END IF;
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    NEW.status_changed_at := NOW();
+    SELECT id, employee_name INTO NEW.status_changed_by, NEW.status_changed_by_name
+    FROM public.users WHERE auth_user_id = auth.uid();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_appointment_status
+BEFORE INSERT OR UPDATE ON clinic_appointments
+FOR EACH ROW EXECUTE PROCEDURE check_appointment_status();
+
+-- Archives finished appointments older than the configured number of days.
+-- Rows are only flagged, so the outpatient history and its audit trail survive.
+CREATE OR REPLACE FUNCTION apply_appointment_retention() RETURNS INTEGER AS $$
+DECLARE
+    v_days INTEGER;
+    v_archived INTEGER;
+BEGIN
+    SELECT (value->>'archive_after_days')::INTEGER INTO v_days
+    FROM public.app_settings WHERE key = 'appointment_retention';
+
+    IF v_days IS NULL OR v_days < 1 THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE public.clinic_appointments
+    SET archived_at = NOW()
+    WHERE archived_at IS NULL
+      AND status IN ('seen', 'no_show', 'cancelled')
+      AND COALESCE(appointment_date, created_at::DATE) < CURRENT_DATE - v_days;
+
+    GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+    RETURN v_archived;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_appointment_retention() FROM PUBLIC, anon, authenticated;
+
+-- Runs the retention policy on demand from the settings page
+CREATE OR REPLACE FUNCTION archive_appointments() RETURNS INTEGER AS $$
+BEGIN
+    IF NOT has_permission('manage_settings') THEN
+        RAISE EXCEPTION 'Not allowed to archive appointments' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN public.apply_appointment_retention();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION archive_appointments() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION archive_appointments() TO authenticated;
+
+-- Applies the policy as bookings come in, where the old trigger used to delete
+CREATE OR REPLACE FUNCTION archive_old_appointments() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.apply_appointment_retention();
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER archive_old_appointments
+AFTER INSERT ON clinic_appointments
+FOR EACH STATEMENT EXECUTE PROCEDURE archive_old_appointments();
+
+-- Cancelled appointments free their place in the slot
+CREATE OR REPLACE FUNCTION check_clinic_slot() RETURNS TRIGGER AS $$
+DECLARE
+    v_template public.clinic_templates%ROWTYPE;
+    v_booked INTEGER;
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.template_id IS NOT DISTINCT FROM OLD.template_id
+        AND NEW.appointment_date IS NOT DISTINCT FROM OLD.appointment_date
+        AND NEW.appointment_time IS NOT DISTINCT FROM OLD.appointment_time THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.template_id IS NULL OR NEW.appointment_date IS NULL OR NEW.appointment_time IS NULL THEN
+        RAISE EXCEPTION 'Appointments must be booked into a clinic slot';
+    END IF;
+
+    IF NEW.appointment_date + NEW.appointment_time < hospital_now() THEN
+        RAISE EXCEPTION 'Appointments cannot be booked into a past slot' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO v_template FROM public.clinic_templates WHERE id = NEW.template_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_template.is_active THEN
+        RAISE EXCEPTION 'Clinic session not found or no longer running';
+    END IF;
+
+    IF EXTRACT(DOW FROM NEW.appointment_date) <> v_template.weekday
+        OR NEW.appointment_time < v_template.start_time
+        OR EXTRACT(EPOCH FROM NEW.appointment_time) + v_template.slot_minutes * 60 > EXTRACT(EPOCH FROM v_template.end_time)
+        OR EXTRACT(EPOCH FROM NEW.appointment_time - v_template.start_time)::INTEGER % (v_template.slot_minutes * 60) <> 0 THEN
+        RAISE EXCEPTION '% at % is not a slot of %', NEW.appointment_date, NEW.appointment_time, v_template.name;
+    END IF;
+
+    SELECT COUNT(*) INTO v_booked
+    FROM public.clinic_appointments
+    WHERE template_id = NEW.template_id
+      AND appointment_date = NEW.appointment_date
+      AND appointment_time = NEW.appointment_time
+      AND status <> 'cancelled'
+      AND appointment_id IS DISTINCT FROM NEW.appointment_id;
+
+    IF v_booked >= v_template.capacity THEN
+        RAISE EXCEPTION 'The % slot on % is already fully booked', NEW.appointment_time, NEW.appointment_date
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    NEW.clinic_specialty := v_template.specialty;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION clinic_slots(p_specialty TEXT, p_from DATE, p_to DATE)
+RETURNS TABLE (
+    template_id INTEGER,
+    clinic_name VARCHAR,
+    slot_date DATE,
+    slot_time TIME,
+    slot_minutes INTEGER,
+    capacity INTEGER,
+    booked BIGINT
+) AS $$
+    SELECT
+        t.id,
+        t.name,
+        d::DATE,
+        s::TIME,
+        t.slot_minutes,
+        t.capacity,
+        (SELECT COUNT(*) FROM public.clinic_appointments a
+         WHERE a.template_id = t.id AND a.appointment_date = d::DATE AND a.appointment_time = s::TIME
+           AND a.status <> 'cancelled')
+    FROM public.clinic_templates t
+    CROSS JOIN generate_series(p_from::TIMESTAMP, p_to::TIMESTAMP, INTERVAL '1 day') d
+    CROSS JOIN LATERAL generate_series(
+        d::DATE + t.start_time,
+        d::DATE + t.end_time - make_interval(mins => t.slot_minutes),
+        make_interval(mins => t.slot_minutes)
+    ) s
+    WHERE t.specialty = p_specialty
+      AND t.is_active
+      AND EXTRACT(DOW FROM d) = t.weekday
+    ORDER BY d, s, t.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Archived appointments are read-only
+DROP POLICY clinic_appointments_update ON clinic_appointments;
+CREATE POLICY clinic_appointments_update ON clinic_appointments FOR UPDATE TO authenticated
+    USING (has_permission('book_appointments') AND archived_at IS NULL)
+    WITH CHECK (has_permission('book_appointments') AND archived_at IS NULL);
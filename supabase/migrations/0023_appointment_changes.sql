@@ -0,0 +1,56 @@
+-- Cancelling needs a reason, and upcoming appointments can move to another slot
+
+ALTER TABLE clinic_appointments ADD COLUMN cancellation_reason TEXT;
+
+UPDATE clinic_appointments SET cancellation_reason = 'Not recorded' WHERE status = 'cancelled';
+
+ALTER TABLE clinic_appointments
+    ADD CONSTRAINT clinic_appointments_cancellation_reason
+        CHECK (status <> 'cancelled' OR NULLIF(TRIM(cancellation_reason), '') IS NOT NULL);
+
+CREATE INDEX idx_clinic_appointments_patient ON clinic_appointments (patient_medical_number);
+
+-- A reschedule is only possible before the patient arrives, and needs confirming again.
+-- The slot itself is checked by check_clinic_slot().
+CREATE OR REPLACE FUNCTION check_appointment_status() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.status := 'booked';
+        NEW.cancellation_reason := NULL;
+        NEW.archived_at := NULL;
+    ELSIF NEW.template_id IS DISTINCT FROM OLD.template_id
+        OR NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+        OR NEW.appointment_time IS DISTINCT FROM OLD.appointment_time THEN
+        IF OLD.status NOT IN ('booked', 'confirmed') OR NEW.status IS DISTINCT FROM OLD.status THEN
+            RAISE EXCEPTION 'Only booked or confirmed appointments can be rescheduled';
+        END IF;
+
+        NEW.status := 'booked';
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT (
+            (OLD.status = 'booked' AND NEW.status IN ('confirmed', 'arrived', 'no_show', 'cancelled'))
+            OR (OLD.status = 'confirmed' AND NEW.status IN ('arrived', 'no_show', 'cancelled'))
+            OR (OLD.status = 'arrived' AND NEW.status = 'seen')
+        ) THEN
+            RAISE EXCEPTION 'An appointment cannot go from % to %', OLD.status, NEW.status;
+        END IF;
+
+        IF NEW.status IN ('arrived', 'seen', 'no_show') AND NEW.appointment_date > CURRENT_DATE THEN
+            RAISE EXCEPTION 'Attendance cannot be recorded before the appointment day';
+        END IF;
+    ELSE
+        NEW.cancellation_reason := OLD.cancellation_reason;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.status <> 'cancelled' THEN
+        NEW.cancellation_reason := NULL;
+    END IF;
+
+    NEW.status_changed_at := NOW();
+    SELECT id, employee_name INTO NEW.status_changed_by, NEW.status_changed_by_name
+    FROM public.users WHERE auth_user_id = auth.uid();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,189 @@
+-- Clinic waiting list per specialty, triaged by priority with a target wait for each referral
+
+-- Default target waits by priority, and how close to the target a referral is flagged
+INSERT INTO app_settings (key, value)
+VALUES ('waiting_list', '{"target_days": {"urgent": 14, "soon": 42, "routine": 126}, "warn_before_days": 7}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE waiting_list_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mrn VARCHAR(50) NOT NULL,
+    patient_name VARCHAR(255) NOT NULL,
+    specialty VARCHAR(100) NOT NULL REFERENCES specialties(name) ON UPDATE CASCADE,
+    referral_date DATE NOT NULL,
+    referred_by VARCHAR(255),
+    priority VARCHAR(10) NOT NULL CHECK (priority IN ('urgent', 'soon', 'routine')),
+    target_date DATE NOT NULL,
+    reason TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'booked', 'removed')),
+    appointment_id INTEGER REFERENCES clinic_appointments(appointment_id),
+    removed_reason TEXT,
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    added_by_name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    CHECK (target_date >= referral_date),
+    CHECK (status <> 'booked' OR appointment_id IS NOT NULL),
+    CHECK (status <> 'removed' OR NULLIF(TRIM(removed_reason), '') IS NOT NULL)
+);
+
+CREATE INDEX idx_waiting_list_entries_waiting ON waiting_list_entries (specialty, target_date) WHERE status = 'waiting';
+CREATE INDEX idx_waiting_list_entries_mrn ON waiting_list_entries (mrn);
+
+-- The target date follows from the priority unless one is given; closed entries are final
+CREATE OR REPLACE FUNCTION stamp_waiting_list_entry() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.referral_date > CURRENT_DATE THEN
+            RAISE EXCEPTION 'Referral date cannot be in the future' USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF NEW.target_date IS NULL THEN
+            SELECT NEW.referral_date + COALESCE((value->'target_days'->>NEW.priority)::INTEGER, 0)
+            INTO NEW.target_date
+            FROM public.app_settings WHERE key = 'waiting_list';
+
+            NEW.target_date := COALESCE(NEW.target_date, NEW.referral_date);
+        END IF;
+
+        NEW.status := 'waiting';
+        NEW.appointment_id := NULL;
+        NEW.removed_reason := NULL;
+        NEW.closed_at := NULL;
+        NEW.created_at := NOW();
+        SELECT id, employee_name INTO NEW.added_by, NEW.added_by_name
+        FROM public.users WHERE auth_user_id = auth.uid();
+    ELSE
+        IF OLD.status <> 'waiting' THEN
+            -- A renamed specialty still cascades into closed referrals
+            IF to_jsonb(NEW) - 'specialty' = to_jsonb(OLD) - 'specialty' THEN
+                RETURN NEW;
+            END IF;
+
+            -- A booked referral goes back on the list once its appointment is cancelled
+            IF OLD.status = 'booked' AND NEW.status = 'waiting' AND EXISTS (
+                SELECT 1 FROM public.clinic_appointments
+                WHERE appointment_id = OLD.appointment_id AND status = 'cancelled'
+            ) THEN
+                NEW := OLD;
+                NEW.status := 'waiting';
+                NEW.appointment_id := NULL;
+                NEW.closed_at := NULL;
+                RETURN NEW;
+            END IF;
+
+            RAISE EXCEPTION 'This referral has already left the waiting list';
+        END IF;
+
+        NEW.mrn := OLD.mrn;
+        NEW.referral_date := OLD.referral_date;
+        NEW.added_by := OLD.added_by;
+        NEW.added_by_name := OLD.added_by_name;
+        NEW.created_at := OLD.created_at;
+
+        IF NEW.status <> 'waiting' THEN
+            NEW.closed_at := NOW();
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_waiting_list_entry
+BEFORE INSERT OR UPDATE ON waiting_list_entries
+FOR EACH ROW EXECUTE PROCEDURE stamp_waiting_list_entry();
+
+-- Open referrals with how long they have waited and how close they are to breaching
+CREATE VIEW waiting_list_overview WITH (security_invoker = true) AS
+SELECT
+    w.id,
+    w.mrn,
+    w.patient_name,
+    w.specialty,
+    w.referral_date,
+    w.referred_by,
+    w.priority,
+    w.target_date,
+    w.reason,
+    w.added_by_name,
+    w.created_at,
+    CURRENT_DATE - w.referral_date AS days_waiting,
+    w.target_date - CURRENT_DATE AS days_to_target,
+    CASE
+        WHEN w.target_date < CURRENT_DATE THEN 'breached'
+        WHEN w.target_date - CURRENT_DATE <= COALESCE((s.value->>'warn_before_days')::INTEGER, 7) THEN 'at_risk'
+        ELSE 'on_track'
+    END AS breach_status,
+    CASE w.priority WHEN 'urgent' THEN 1 WHEN 'soon' THEN 2 ELSE 3 END AS priority_rank
+FROM waiting_list_entries w
+LEFT JOIN app_settings s ON s.key = 'waiting_list'
+WHERE w.status = 'waiting';
+
+-- Books a referral into a clinic slot and takes it off the list in one step.
+-- Runs as the caller, so booking and list permissions both apply.
+CREATE OR REPLACE FUNCTION book_from_waiting_list(p_entry_id UUID, p_template_id INTEGER, p_date DATE, p_time TIME)
+RETURNS INTEGER AS $$
+DECLARE
+    v_entry public.waiting_list_entries%ROWTYPE;
+    v_appointment_id INTEGER;
+BEGIN
+    SELECT * INTO v_entry FROM public.waiting_list_entries WHERE id = p_entry_id AND status = 'waiting' FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This referral is no longer waiting';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.clinic_templates WHERE id = p_template_id AND specialty = v_entry.specialty
+    ) THEN
+        RAISE EXCEPTION 'This referral can only be booked into a % clinic', v_entry.specialty
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.clinic_appointments (
+        patient_name, patient_medical_number, clinic_specialty, appointment_type,
+        template_id, appointment_date, appointment_time
+    )
+    VALUES (
+        v_entry.patient_name, v_entry.mrn, v_entry.specialty,
+        CASE WHEN v_entry.priority = 'urgent' THEN 'Urgent' ELSE 'Regular' END,
+        p_template_id, p_date, p_time
+    )
+    RETURNING appointment_id INTO v_appointment_id;
+
+    UPDATE public.waiting_list_entries
+    SET status = 'booked', appointment_id = v_appointment_id
+    WHERE id = p_entry_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not allowed to update the waiting list' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN v_appointment_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reopen_waiting_list_entry() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+        UPDATE public.waiting_list_entries
+        SET status = 'waiting'
+        WHERE appointment_id = NEW.appointment_id AND status = 'booked';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reopen_waiting_list_entry
+AFTER UPDATE OF status ON clinic_appointments
+FOR EACH ROW EXECUTE PROCEDURE reopen_waiting_list_entry();
+
+ALTER TABLE waiting_list_entries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY waiting_list_entries_select ON waiting_list_entries FOR SELECT TO authenticated USING (has_permission('view_patients'));
+CREATE POLICY waiting_list_entries_insert ON waiting_list_entries FOR INSERT TO authenticated WITH CHECK (has_permission('book_appointments'));
+CREATE POLICY waiting_list_entries_update ON waiting_list_entries FOR UPDATE TO authenticated
+    USING (has_permission('book_appointments')) WITH CHECK (has_permission('book_appointments'));
+
+CREATE TRIGGER audit_waiting_list_entries AFTER INSERT OR UPDATE OR DELETE ON waiting_list_entries
+FOR EACH ROW EXECUTE PROCEDURE record_audit_log('id');
@@ -0,0 +1,24 @@
+-- Clinic follow-up booked at discharge stays linked to the admission it follows up
+
+ALTER TABLE clinic_appointments ADD COLUMN admission_id UUID REFERENCES patients(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_clinic_appointments_admission ON clinic_appointments (admission_id) WHERE admission_id IS NOT NULL;
+
+-- The linked admission must be the same patient's
+CREATE OR REPLACE FUNCTION check_follow_up_admission() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.admission_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.patients
+        WHERE id = NEW.admission_id AND mrn = NEW.patient_medical_number
+    ) THEN
+        RAISE EXCEPTION 'Admission % does not belong to patient %', NEW.admission_id, NEW.patient_medical_number
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_follow_up_admission
+BEFORE INSERT OR UPDATE OF admission_id, patient_medical_number ON clinic_appointments
+FOR EACH ROW EXECUTE PROCEDURE check_follow_up_admission();
@@ -0,0 +1,571 @@
+-- Row-level security checks. Each section signs in as a seeded employee and
+-- switches to the authenticated role; everything is rolled back at the end.
+BEGIN;
+
+CREATE FUNCTION pg_temp.sign_in_as(p_employee_code TEXT) RETURNS VOID AS $$
+DECLARE
+    v_auth_user_id UUID;
+BEGIN
+    SELECT auth_user_id INTO v_auth_user_id FROM public.users WHERE employee_code = p_employee_code;
+    PERFORM set_config('request.jwt.claims', json_build_object('sub', v_auth_user_id, 'role', 'authenticated')::TEXT, true);
+    PERFORM set_config('request.jwt.claim.sub', v_auth_user_id::TEXT, true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs a statement and checks how many rows it touched. RLS filters rows
+-- silently on SELECT/UPDATE/DELETE and raises on a rejected INSERT.
+CREATE FUNCTION pg_temp.expect_rows(p_description TEXT, p_sql TEXT, p_expected INTEGER) RETURNS VOID AS $$
+DECLARE
+    v_rows INTEGER;
+BEGIN
+    BEGIN
+        EXECUTE p_sql;
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+    EXCEPTION WHEN insufficient_privilege THEN
+        v_rows := 0;
+    END;
+
+    IF v_rows <> p_expected THEN
+        RAISE EXCEPTION 'FAILED: % (expected % rows, got %)', p_description, p_expected, v_rows;
+    END IF;
+
+    RAISE NOTICE 'ok - %', p_description;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO users (employee_code, employee_name, role, email) VALUES
+    ('T-ADMIN', 'Test Admin', 'admin', 'admin@test.local'),
+    ('T-RESIDENT', 'Test Resident', 'resident', 'resident@test.local'),
+    ('T-NURSE', 'Test Nurse', 'nurse', 'nurse@test.local'),
+    ('T-AUDITOR', 'Test Auditor', 'auditor', 'auditor@test.local');
+
+-- Creating the auth identities links them to the employees by email
+INSERT INTO auth.users (id, email)
+SELECT gen_random_uuid(), email FROM users WHERE email LIKE '%@test.local';
+
+INSERT INTO patients (mrn, patient_name, age, gender, admission_date, specialty)
+VALUES ('T-0001', 'Seed Patient', 40, 'Male', CURRENT_DATE, 'Neurology');
+
+INSERT INTO consultations (mrn, patient_name, age, gender, requesting_department, consultation_specialty)
+VALUES ('T-0001', 'Seed Patient', 40, 'Male', 'Emergency', 'Neurology');
+
+INSERT INTO wards (name) VALUES ('T-Ward');
+INSERT INTO rooms (ward_id, name) SELECT id, 'Room 1' FROM wards WHERE name = 'T-Ward';
+INSERT INTO beds (room_id, label) SELECT id, unnest(ARRAY['1', '2']) FROM rooms WHERE name = 'Room 1';
+
+-- A weekly clinic of four 15-minute single-patient slots, running a week from today
+INSERT INTO clinic_templates (specialty, name, weekday, start_time, end_time, slot_minutes, capacity)
+VALUES ('Neurology', 'T-Clinic', EXTRACT(DOW FROM CURRENT_DATE + 7), '09:00', '10:00', 15, 1);
+
+-- An appointment from months ago, booked before past slots were closed to bookings
+ALTER TABLE clinic_appointments DISABLE TRIGGER check_clinic_slot;
+INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                 template_id, appointment_date, appointment_time)
+SELECT 'Seed Patient', 'T-0001', 'Neurology', 'Regular', id, CURRENT_DATE - 98, '09:00'
+FROM clinic_templates WHERE name = 'T-Clinic';
+ALTER TABLE clinic_appointments ENABLE TRIGGER check_clinic_slot;
+
+SET LOCAL ROLE anon;
+SELECT pg_temp.expect_rows('anon cannot read patients', 'SELECT * FROM patients', 0);
+SELECT pg_temp.expect_rows('anon cannot read employees', 'SELECT * FROM users', 0);
+SELECT pg_temp.expect_rows('anon cannot run the appointment retention policy', 'SELECT archive_appointments()', 0);
+RESET ROLE;
+
+SELECT pg_temp.sign_in_as('T-RESIDENT');
+SET LOCAL ROLE authenticated;
+SELECT pg_temp.expect_rows('resident reads patients', 'SELECT * FROM patients', 1);
+SELECT pg_temp.expect_rows('resident sees only their own employee row', 'SELECT * FROM users', 1);
+SELECT pg_temp.expect_rows('resident admits a patient',
+    $$INSERT INTO patients (mrn, patient_name, age, gender, admission_date, specialty)
+      VALUES ('T-0002', 'Admitted Patient', 60, 'Female', CURRENT_DATE, 'Neurology')$$, 1);
+SELECT pg_temp.expect_rows('resident assigns a bed',
+    $$SELECT assign_bed('T-0001', (SELECT id FROM beds WHERE label = '1'))$$, 1);
+SELECT pg_temp.expect_rows('resident moves the patient to another bed',
+    $$SELECT assign_bed('T-0001', (SELECT id FROM beds WHERE label = '2'))$$, 1);
+SELECT pg_temp.expect_rows('the vacated bed waits for cleaning',
+    $$SELECT * FROM beds WHERE label = '1' AND status = 'cleaning' AND occupant_mrn IS NULL$$, 1);
+SELECT pg_temp.expect_rows('each move is kept in the bed history',
+    $$SELECT * FROM bed_assignments WHERE mrn = 'T-0001'$$, 2);
+SELECT pg_temp.expect_rows('resident requests a specialty transfer',
+    $$INSERT INTO specialty_transfers (mrn, to_specialty, to_consultant, reason)
+      VALUES ('T-0002', 'Hematology', 'Dr Receiving', 'Suspected lymphoma')$$, 1);
+SELECT pg_temp.expect_rows('transfer requests start from the current team',
+    $$SELECT * FROM specialty_transfers WHERE from_specialty = 'Neurology' AND requested_by_name = 'Test Resident'$$, 1);
+SELECT pg_temp.expect_rows('resident cannot accept their own transfer request',
+    $$SELECT respond_to_specialty_transfer((SELECT id FROM specialty_transfers WHERE mrn = 'T-0002'), 'accepted')$$, 0);
+SELECT pg_temp.expect_rows('resident drafts a discharge summary',
+    $$INSERT INTO discharge_summaries (admission_id, diagnoses, hospital_course)
+      SELECT id, 'Ischaemic stroke', 'Thrombolysed on arrival' FROM patients WHERE mrn = 'T-0002'$$, 1);
+SELECT pg_temp.expect_rows('the draft is stamped with the admission and its author',
+    $$SELECT * FROM discharge_summaries WHERE mrn = 'T-0002' AND status = 'draft' AND created_by_name = 'Test Resident'$$, 1);
+SELECT pg_temp.expect_rows('resident requests a second consultation for the same patient',
+    $$INSERT INTO consultations (mrn, patient_name, age, gender, requesting_department, consultation_specialty)
+      VALUES ('T-0001', 'Seed Patient', 40, 'Male', 'Internal Medicine', 'Hematology')$$, 1);
+SELECT pg_temp.expect_rows('consultations carry the patient''s own MRN',
+    $$SELECT * FROM consultations WHERE mrn = 'T-0001'$$, 2);
+SELECT pg_temp.expect_rows('resident acknowledges a consultation',
+    $$SELECT advance_consultation((SELECT id FROM consultations WHERE requesting_department = 'Emergency'), 'acknowledged')$$, 1);
+SELECT pg_temp.expect_rows('the acknowledging resident becomes the responding clinician',
+    $$SELECT * FROM consultations WHERE requesting_department = 'Emergency' AND workflow_state = 'acknowledged'
+      AND responding_clinician_name = 'Test Resident' AND acknowledged_at IS NOT NULL$$, 1);
+SELECT pg_temp.expect_rows('resident cannot add beds',
+    $$INSERT INTO beds (room_id, label) SELECT id, '3' FROM rooms WHERE name = 'Room 1'$$, 0);
+SELECT pg_temp.expect_rows('resident sees the clinic''s slots for the week',
+    $$SELECT * FROM clinic_slots('Neurology', CURRENT_DATE + 1, CURRENT_DATE + 7)$$, 4);
+SELECT pg_temp.expect_rows('resident books a clinic slot',
+    $$INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                       template_id, appointment_date, appointment_time)
+      SELECT 'Seed Patient', 'T-0001', 'Neurology', 'Regular', id, CURRENT_DATE + 7, '09:15' FROM clinic_templates$$, 1);
+SELECT pg_temp.expect_rows('resident confirms the appointment',
+    $$UPDATE clinic_appointments SET status = 'confirmed' WHERE appointment_time = '09:15'$$, 1);
+SELECT pg_temp.expect_rows('status changes are stamped with the resident',
+    $$SELECT * FROM clinic_appointments WHERE status = 'confirmed' AND status_changed_by_name = 'Test Resident'$$, 1);
+SELECT pg_temp.expect_rows('the booked slot is counted',
+    $$SELECT * FROM clinic_slots('Neurology', CURRENT_DATE + 7, CURRENT_DATE + 7) WHERE slot_time = '09:15' AND booked = 1$$, 1);
+SELECT pg_temp.expect_rows('resident cannot run the appointment retention policy', 'SELECT archive_appointments()', 0);
+SELECT pg_temp.expect_rows('resident cannot set up clinic sessions',
+    $$INSERT INTO clinic_templates (specialty, name, weekday, start_time, end_time, slot_minutes)
+      VALUES ('Neurology', 'Resident Clinic', 1, '14:00', '16:00', 30)$$, 0);
+SELECT pg_temp.expect_rows('resident puts a routine referral on the waiting list',
+    $$INSERT INTO waiting_list_entries (mrn, patient_name, specialty, referral_date, priority)
+      VALUES ('T-0001', 'Seed Patient', 'Neurology', CURRENT_DATE - 130, 'routine')$$, 1);
+SELECT pg_temp.expect_rows('resident puts an urgent referral on the waiting list',
+    $$INSERT INTO waiting_list_entries (mrn, patient_name, specialty, referral_date, priority, referred_by)
+      VALUES ('T-0002', 'Admitted Patient', 'Neurology', CURRENT_DATE - 10, 'urgent', 'Emergency')$$, 1);
+SELECT pg_temp.expect_rows('the target wait follows the priority',
+    $$SELECT * FROM waiting_list_entries WHERE priority = 'urgent' AND target_date = CURRENT_DATE + 4
+      AND added_by_name = 'Test Resident'$$, 1);
+SELECT pg_temp.expect_rows('a referral past its target is flagged as breached',
+    $$SELECT * FROM waiting_list_overview WHERE breach_status = 'breached' AND mrn = 'T-0001'$$, 1);
+SELECT pg_temp.expect_rows('a referral close to its target is flagged',
+    $$SELECT * FROM waiting_list_overview WHERE breach_status = 'at_risk' AND mrn = 'T-0002'$$, 1);
+SELECT pg_temp.expect_rows('the urgent referral is offered first',
+    $$SELECT * FROM (SELECT * FROM waiting_list_overview ORDER BY priority_rank, target_date LIMIT 1) next_patient
+      WHERE mrn = 'T-0002'$$, 1);
+SELECT pg_temp.expect_rows('resident books the next patient into a free slot',
+    $$SELECT book_from_waiting_list(w.id, t.id, CURRENT_DATE + 7, '09:00')
+      FROM waiting_list_entries w, clinic_templates t WHERE w.mrn = 'T-0002' AND t.name = 'T-Clinic'$$, 1);
+SELECT pg_temp.expect_rows('resident cancels the booked appointment',
+    $$UPDATE clinic_appointments SET status = 'cancelled', cancellation_reason = 'Patient unwell'
+      WHERE appointment_date = CURRENT_DATE + 7 AND appointment_time = '09:00'$$, 1);
+SELECT pg_temp.expect_rows('the cancelled referral goes back on the waiting list',
+    $$SELECT * FROM waiting_list_entries
+      WHERE mrn = 'T-0002' AND status = 'waiting' AND appointment_id IS NULL AND closed_at IS NULL$$, 1);
+SELECT pg_temp.expect_rows('resident books it again into the freed slot',
+    $$SELECT book_from_waiting_list(w.id, t.id, CURRENT_DATE + 7, '09:00')
+      FROM waiting_list_entries w, clinic_templates t WHERE w.mrn = 'T-0002' AND t.name = 'T-Clinic'$$, 1);
+SELECT pg_temp.expect_rows('the booked referral leaves the waiting list',
+    $$SELECT * FROM waiting_list_overview$$, 1);
+SELECT pg_temp.expect_rows('the referral keeps its appointment',
+    $$SELECT * FROM waiting_list_entries w JOIN clinic_appointments a USING (appointment_id)
+      WHERE w.status = 'booked' AND a.appointment_type = 'Urgent' AND a.appointment_time = '09:00'$$, 1);
+SELECT pg_temp.expect_rows('resident cannot delete employees', 'DELETE FROM users', 0);
+SELECT pg_temp.expect_rows('resident cannot change roles', $$UPDATE users SET role = 'admin'$$, 0);
+RESET ROLE;
+
+SELECT pg_temp.sign_in_as('T-NURSE');
+SET LOCAL ROLE authenticated;
+SELECT pg_temp.expect_rows('nurse cannot admit',
+    $$INSERT INTO patients (mrn, patient_name, age, gender, admission_date, specialty)
+      VALUES ('T-0003', 'Blocked Patient', 30, 'Male', CURRENT_DATE, 'Neurology')$$, 0);
+SELECT pg_temp.expect_rows('nurse adds a note',
+    $$INSERT INTO patient_notes (mrn, content, created_by) VALUES ('T-0001', 'Observed overnight', 'Someone Else')$$, 1);
+SELECT pg_temp.expect_rows('notes are stamped with the signed-in author',
+    $$SELECT * FROM patient_notes WHERE created_by = 'Test Nurse' AND author_id = current_employee_id()$$, 1);
+SELECT pg_temp.expect_rows('nurse edits their own note',
+    $$UPDATE patient_notes SET content = 'Observed overnight, settled' WHERE created_by = 'Test Nurse'$$, 1);
+SELECT pg_temp.expect_rows('each edit keeps a new version',
+    $$SELECT * FROM patient_note_versions v JOIN patient_notes n ON n.id = v.note_id WHERE n.created_by = 'Test Nurse'$$, 2);
+SELECT pg_temp.expect_rows('nurse cannot change specialties', $$UPDATE specialties SET is_active = FALSE$$, 0);
+SELECT pg_temp.expect_rows('nurse cannot request transfers',
+    $$INSERT INTO specialty_transfers (mrn, to_specialty, to_consultant, reason)
+      VALUES ('T-0001', 'Hematology', 'Dr Receiving', 'Not allowed')$$, 0);
+SELECT pg_temp.expect_rows('nurse cannot respond to transfers',
+    $$SELECT respond_to_specialty_transfer((SELECT id FROM specialty_transfers WHERE mrn = 'T-0002'), 'rejected')$$, 0);
+SELECT pg_temp.expect_rows('nurse cannot respond to consultations',
+    $$SELECT advance_consultation((SELECT id FROM consultations WHERE requesting_department = 'Emergency'), 'seen')$$, 0);
+SELECT pg_temp.expect_rows('nurse cannot discharge', $$UPDATE patients SET patient_status = 'Discharged'$$, 0);
+SELECT pg_temp.expect_rows('nurse reads discharge summaries', 'SELECT * FROM discharge_summaries', 1);
+SELECT pg_temp.expect_rows('nurse cannot edit discharge summaries',
+    $$UPDATE discharge_summaries SET discharge_medications = 'Aspirin 75mg'$$, 0);
+SELECT pg_temp.expect_rows('nurse sets the expected discharge date',
+    $$SELECT set_expected_discharge_date((SELECT id FROM patients WHERE mrn = 'T-0002'), CURRENT_DATE + 1)$$, 1);
+SELECT pg_temp.expect_rows('nurse ticks off a discharge checklist item',
+    $$INSERT INTO discharge_checklist_items (admission_id, item_key)
+      SELECT id, 'transport_arranged' FROM patients WHERE mrn = 'T-0002'$$, 1);
+SELECT pg_temp.expect_rows('checklist ticks are stamped with the nurse',
+    $$SELECT * FROM discharge_checklist_items WHERE mrn = 'T-0002' AND completed_by_name = 'Test Nurse'$$, 1);
+SELECT pg_temp.expect_rows('nurse records observations',
+    $$INSERT INTO observations (mrn, heart_rate, spo2) VALUES ('T-0001', 88, 97)$$, 1);
+SELECT pg_temp.expect_rows('observations are stamped with the recorder',
+    $$SELECT * FROM observations WHERE recorded_by_name = 'Test Nurse'$$, 1);
+SELECT pg_temp.expect_rows('nurse records a NEWS2 score',
+    $$INSERT INTO news2_scores (mrn, respiratory_rate, spo2, systolic_bp, heart_rate, consciousness, temperature)
+      VALUES ('T-0001', 22, 95, 105, 95, 'A', 37.0)$$, 1);
+SELECT pg_temp.expect_rows('the NEWS2 score is worked out from the observations',
+    $$SELECT * FROM news2_scores WHERE total_score = 5 AND NOT has_red_score AND response_level = 'Medium'$$, 1);
+SELECT pg_temp.expect_rows('nurse sends a tampered NEWS2 score',
+    $$INSERT INTO news2_scores (mrn, respiratory_rate, spo2, systolic_bp, heart_rate, consciousness, temperature,
+                               total_score, has_red_score, response_level)
+      VALUES ('T-0002', 30, 95, 85, 95, 'A', 37.0, 0, FALSE, 'Low')$$, 1);
+SELECT pg_temp.expect_rows('a tampered NEWS2 score is overwritten',
+    $$SELECT * FROM news2_scores WHERE mrn = 'T-0002' AND total_score = 8 AND has_red_score AND response_level = 'High'$$, 1);
+SELECT pg_temp.expect_rows('nurse reads the waiting list', 'SELECT * FROM waiting_list_overview', 1);
+SELECT pg_temp.expect_rows('nurse cannot add to the waiting list',
+    $$INSERT INTO waiting_list_entries (mrn, patient_name, specialty, referral_date, priority)
+      VALUES ('T-0001', 'Seed Patient', 'Neurology', CURRENT_DATE, 'soon')$$, 0);
+SELECT pg_temp.expect_rows('nurse cannot take patients off the waiting list',
+    $$UPDATE waiting_list_entries SET status = 'removed', removed_reason = 'Seen elsewhere'$$, 0);
+SELECT pg_temp.expect_rows('nurse cannot read the audit log', 'SELECT * FROM audit_log', 0);
+RESET ROLE;
+
+SELECT pg_temp.sign_in_as('T-AUDITOR');
+SET LOCAL ROLE authenticated;
+SELECT pg_temp.expect_rows('auditor reads patients', 'SELECT * FROM patients', 2);
+SELECT pg_temp.expect_rows('auditor cannot add notes',
+    $$INSERT INTO patient_notes (mrn, content, created_by) VALUES ('T-0001', 'Not allowed', 'Test Auditor')$$, 0);
+SELECT pg_temp.expect_rows('auditor cannot record observations',
+    $$INSERT INTO observations (mrn, heart_rate) VALUES ('T-0001', 70)$$, 0);
+SELECT pg_temp.expect_rows('auditor sees who is planned to leave tomorrow',
+    $$SELECT * FROM patients WHERE expected_discharge_date = CURRENT_DATE + 1$$, 1);
+SELECT pg_temp.expect_rows('auditor cannot plan discharges',
+    $$SELECT set_expected_discharge_date((SELECT id FROM patients WHERE mrn = 'T-0002'), NULL)$$, 0);
+SELECT pg_temp.expect_rows('auditor cannot untick the checklist', 'DELETE FROM discharge_checklist_items', 0);
+SELECT pg_temp.expect_rows('auditor sees the latest NEWS2 scores', 'SELECT * FROM latest_news2_scores', 2);
+SELECT pg_temp.expect_rows('auditor reads the person index', 'SELECT * FROM persons', 2);
+SELECT pg_temp.expect_rows('auditor sees every encounter', 'SELECT * FROM encounters', 4);
+SELECT pg_temp.expect_rows('auditor sees the bed board', 'SELECT * FROM bed_overview', 2);
+SELECT pg_temp.expect_rows('auditor cannot block a bed',
+    $$SELECT set_bed_status((SELECT id FROM beds WHERE label = '1'), 'blocked')$$, 0);
+SELECT pg_temp.expect_rows('auditor cannot change settings', $$UPDATE app_settings SET value = '{}'$$, 0);
+SELECT pg_temp.expect_rows('audit log records who admitted a patient',
+    $$SELECT * FROM audit_log WHERE table_name = 'patients' AND mrn = 'T-0002' AND action = 'INSERT' AND actor_name = 'Test Resident'$$, 1);
+SELECT pg_temp.expect_rows('auditor cannot alter audit entries', $$UPDATE audit_log SET actor_name = 'Someone Else'$$, 0);
+SELECT pg_temp.expect_rows('auditor cannot delete audit entries', 'DELETE FROM audit_log', 0);
+RESET ROLE;
+
+SELECT pg_temp.sign_in_as('T-ADMIN');
+SET LOCAL ROLE authenticated;
+SELECT pg_temp.expect_rows('admin cannot edit another clinician''s note',
+    $$UPDATE patient_notes SET content = 'Rewritten' WHERE created_by = 'Test Nurse'$$, 0);
+SELECT pg_temp.expect_rows('admin adds an addendum instead',
+    $$INSERT INTO patient_notes (mrn, content, created_by, parent_note_id)
+      SELECT mrn, 'Reviewed on ward round', 'Test Admin', id FROM patient_notes WHERE created_by = 'Test Nurse'$$, 1);
+SELECT pg_temp.expect_rows('admin sets up a clinic session',
+    $$INSERT INTO clinic_templates (specialty, name, weekday, start_time, end_time, slot_minutes, capacity)
+      VALUES ('Hematology', 'Anticoagulation', 2, '13:00', '17:00', 20, 3)$$, 1);
+SELECT pg_temp.expect_rows('admin retires a clinic session',
+    $$UPDATE clinic_templates SET is_active = FALSE WHERE name = 'Anticoagulation'$$, 1);
+SELECT pg_temp.expect_rows('admin books a slot for a patient',
+    $$INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                       template_id, appointment_date, appointment_time)
+      SELECT 'Admitted Patient', 'T-0002', 'Neurology', 'Regular', id, CURRENT_DATE + 7, '09:30'
+      FROM clinic_templates WHERE name = 'T-Clinic'$$, 1);
+SELECT pg_temp.expect_rows('admin cancels the appointment',
+    $$UPDATE clinic_appointments SET status = 'cancelled', cancellation_reason = 'Patient request'
+      WHERE appointment_time = '09:30'$$, 1);
+SELECT pg_temp.expect_rows('a cancelled appointment frees its slot',
+    $$SELECT * FROM clinic_slots('Neurology', CURRENT_DATE + 7, CURRENT_DATE + 7) WHERE slot_time = '09:30' AND booked = 0$$, 1);
+SELECT pg_temp.expect_rows('admin books the last slot of the clinic',
+    $$INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                       template_id, appointment_date, appointment_time)
+      SELECT 'Admitted Patient', 'T-0002', 'Neurology', 'Urgent', id, CURRENT_DATE + 7, '09:45'
+      FROM clinic_templates WHERE name = 'T-Clinic'$$, 1);
+SELECT pg_temp.expect_rows('admin confirms it',
+    $$UPDATE clinic_appointments SET status = 'confirmed' WHERE appointment_time = '09:45'$$, 1);
+SELECT pg_temp.expect_rows('admin reschedules it into the freed slot',
+    $$UPDATE clinic_appointments SET appointment_time = '09:30' WHERE appointment_time = '09:45'$$, 1);
+SELECT pg_temp.expect_rows('a rescheduled appointment needs confirming again',
+    $$SELECT * FROM clinic_appointments WHERE appointment_time = '09:30' AND appointment_type = 'Urgent' AND status = 'booked'$$, 1);
+SELECT pg_temp.expect_rows('admin records a no-show from months ago',
+    $$UPDATE clinic_appointments SET status = 'no_show' WHERE appointment_date = CURRENT_DATE - 98$$, 1);
+SELECT pg_temp.expect_rows('the retention policy archives only finished appointments past the cut-off',
+    $$SELECT * FROM archive_appointments() AS archived WHERE archived = 1$$, 1);
+SELECT pg_temp.expect_rows('archived appointments are kept',
+    $$SELECT * FROM clinic_appointments WHERE archived_at IS NOT NULL AND status = 'no_show'$$, 1);
+SELECT pg_temp.expect_rows('archived appointments are read-only',
+    $$UPDATE clinic_appointments SET appointment_type = 'Urgent' WHERE archived_at IS NOT NULL$$, 0);
+SELECT pg_temp.expect_rows('admin renames a specialty',
+    $$UPDATE specialties SET name = 'Clinical Neurology' WHERE name = 'Neurology'$$, 1);
+SELECT pg_temp.expect_rows('admissions follow the renamed specialty',
+    $$SELECT * FROM patients WHERE specialty = 'Clinical Neurology'$$, 2);
+SELECT pg_temp.expect_rows('booked referrals follow the renamed specialty',
+    $$SELECT * FROM waiting_list_entries WHERE status = 'booked' AND specialty = 'Clinical Neurology'$$, 1);
+SELECT pg_temp.expect_rows('admin marks the consultation as seen',
+    $$SELECT advance_consultation((SELECT id FROM consultations WHERE requesting_department = 'Emergency'), 'seen')$$, 1);
+SELECT pg_temp.expect_rows('admin writes the recommendations',
+    $$SELECT advance_consultation((SELECT id FROM consultations WHERE requesting_department = 'Emergency'), 'recommended',
+      '{"impression": "Migraine", "recommendations": "Start triptan", "follow_up": "Neurology clinic"}')$$, 1);
+SELECT pg_temp.expect_rows('admin signs off the consultation',
+    $$SELECT advance_consultation((SELECT id FROM consultations WHERE requesting_department = 'Emergency'), 'signed_off')$$, 1);
+SELECT pg_temp.expect_rows('signing off completes the consultation',
+    $$SELECT * FROM consultations WHERE requesting_department = 'Emergency' AND status = 'Completed'
+      AND signed_off_by_name = 'Test Admin' AND reply->>'recommendations' = 'Start triptan'$$, 1);
+SELECT pg_temp.expect_rows('the consultation encounter is closed',
+    $$SELECT * FROM encounters e JOIN consultations c ON c.id = e.consultation_id
+      WHERE c.requesting_department = 'Emergency' AND e.status = 'Closed'$$, 1);
+SELECT pg_temp.expect_rows('response times are reported for the specialty',
+    $$SELECT * FROM consultation_response_times
+      WHERE specialty = 'Clinical Neurology' AND average_minutes_to_sign_off IS NOT NULL$$, 1);
+SELECT pg_temp.expect_rows('admin outside the receiving team cannot accept the transfer',
+    $$SELECT respond_to_specialty_transfer((SELECT id FROM specialty_transfers WHERE mrn = 'T-0002'), 'accepted')$$, 0);
+SELECT pg_temp.expect_rows('admin cannot reject it either',
+    $$SELECT respond_to_specialty_transfer((SELECT id FROM specialty_transfers WHERE mrn = 'T-0002'), 'rejected')$$, 0);
+SELECT pg_temp.expect_rows('admin joins the receiving specialty',
+    $$UPDATE users SET specialty = 'Hematology' WHERE employee_code = 'T-ADMIN'$$, 1);
+SELECT pg_temp.expect_rows('admin accepts the transfer for the receiving team',
+    $$SELECT respond_to_specialty_transfer((SELECT id FROM specialty_transfers WHERE mrn = 'T-0002'), 'accepted')$$, 1);
+SELECT pg_temp.expect_rows('the admission moves to the receiving team',
+    $$SELECT * FROM patients WHERE mrn = 'T-0002' AND specialty = 'Hematology' AND assigned_doctor = 'Dr Receiving'$$, 1);
+SELECT pg_temp.expect_rows('the movement history keeps the stay under each team',
+    $$SELECT * FROM specialty_stays WHERE mrn = 'T-0002'$$, 2);
+SELECT pg_temp.expect_rows('only the new stay is still open',
+    $$SELECT * FROM specialty_stays WHERE mrn = 'T-0002' AND ended_at IS NULL AND specialty = 'Hematology'$$, 1);
+SELECT pg_temp.expect_rows('admin signs the discharge summary',
+    $$UPDATE discharge_summaries SET discharge_medications = 'Aspirin 75mg', status = 'signed' WHERE mrn = 'T-0002'$$, 1);
+SELECT pg_temp.expect_rows('sign-off is stamped with the signing doctor',
+    $$SELECT * FROM discharge_summaries WHERE mrn = 'T-0002' AND signed_by_name = 'Test Admin' AND signed_at IS NOT NULL$$, 1);
+SELECT pg_temp.expect_rows('a signed discharge summary cannot be changed',
+    $$UPDATE discharge_summaries SET diagnoses = 'Rewritten' WHERE mrn = 'T-0002'$$, 0);
+SELECT pg_temp.expect_rows('admin discharges a patient',
+    $$UPDATE patients SET patient_status = 'Discharged', discharge_disposition = 'home',
+      discharge_date = CURRENT_DATE WHERE mrn = 'T-0001'$$, 1);
+SELECT pg_temp.expect_rows('admin books a follow-up for the discharged admission',
+    $$INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                       template_id, appointment_date, appointment_time, admission_id)
+      SELECT 'Seed Patient', 'T-0001', 'Clinical Neurology', 'Regular', t.id, CURRENT_DATE + 7, '09:45', p.id
+      FROM clinic_templates t, patients p WHERE t.name = 'T-Clinic' AND p.mrn = 'T-0001'$$, 1);
+SELECT pg_temp.expect_rows('the follow-up is linked to the admission',
+    $$SELECT * FROM clinic_appointments a JOIN patients p ON p.id = a.admission_id
+      WHERE a.appointment_time = '09:45' AND p.patient_status = 'Discharged'$$, 1);
+SELECT pg_temp.expect_rows('discharge releases the bed for cleaning',
+    $$SELECT * FROM beds WHERE status = 'cleaning' AND occupant_mrn IS NULL$$, 2);
+SELECT pg_temp.expect_rows('admin records a death on discharge',
+    $$UPDATE patients SET patient_status = 'Discharged', discharge_date = CURRENT_DATE, discharge_disposition = 'deceased',
+      death_at = NOW(), cause_of_death = 'Intracranial haemorrhage' WHERE mrn = 'T-0002'$$, 1);
+SELECT pg_temp.expect_rows('mortality is reported per specialty',
+    $$SELECT * FROM discharge_outcomes() WHERE specialty = 'Hematology' AND deaths = 1 AND mortality_rate = 100$$, 1);
+SELECT pg_temp.expect_rows('home discharges do not count towards mortality or AMA',
+    $$SELECT * FROM discharge_outcomes(CURRENT_DATE, CURRENT_DATE)
+      WHERE specialty = 'Clinical Neurology' AND home = 1 AND mortality_rate = 0 AND ama_rate = 0$$, 1);
+SELECT pg_temp.expect_rows('admin readmits the discharged patient',
+    $$INSERT INTO patients (mrn, patient_name, age, gender, admission_date, specialty)
+      VALUES ('T-0001', 'Seed Patient', 40, 'Male', CURRENT_DATE + 1, 'Hematology')$$, 1);
+SELECT pg_temp.expect_rows('the person keeps every admission and consultation',
+    $$SELECT * FROM encounters WHERE mrn = 'T-0001'$$, 4);
+SELECT pg_temp.expect_rows('the readmission is flagged',
+    $$SELECT * FROM encounter_history WHERE mrn = 'T-0001' AND is_readmission$$, 1);
+SELECT pg_temp.expect_rows('admin changes a role', $$UPDATE users SET role = 'consultant' WHERE employee_code = 'T-RESIDENT'$$, 1);
+SELECT pg_temp.expect_rows('admin cannot delete their own account', $$DELETE FROM users WHERE employee_code = 'T-ADMIN'$$, 0);
+SELECT pg_temp.expect_rows('admin deletes another employee', $$DELETE FROM users WHERE employee_code = 'T-AUDITOR'$$, 1);
+RESET ROLE;
+
+DO $$
+BEGIN
+    INSERT INTO patients (mrn, patient_name, age, gender, admission_date, specialty)
+    VALUES ('t 0009', 'Mistyped Patient', 30, 'Male', CURRENT_DATE, 'Hematology');
+    RAISE EXCEPTION 'FAILED: an MRN outside the hospital format was registered';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - MRNs outside the hospital format are rejected';
+END;
+$$;
+
+-- A person registered before the MRN format existed
+ALTER TABLE persons DISABLE TRIGGER validate_mrn;
+INSERT INTO persons (mrn, patient_name, gender) VALUES ('old/123', 'Legacy Patient', 'Female');
+ALTER TABLE persons ENABLE TRIGGER validate_mrn;
+
+SELECT pg_temp.expect_rows('a legacy MRN can still be admitted',
+    $$INSERT INTO patients (mrn, patient_name, age, gender, admission_date, specialty)
+      VALUES ('old/123', 'Legacy Patient', 70, 'Female', CURRENT_DATE, 'Hematology')$$, 1);
+
+DO $$
+BEGIN
+    UPDATE patients SET patient_status = 'Discharged' WHERE mrn = 'T-0001' AND patient_status = 'Active';
+    RAISE EXCEPTION 'FAILED: a patient was discharged without a disposition';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - discharges require a disposition';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE patients SET patient_status = 'Discharged', discharge_disposition = 'deceased', death_at = NOW()
+    WHERE mrn = 'T-0001' AND patient_status = 'Active';
+    RAISE EXCEPTION 'FAILED: a death was recorded without a cause';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - deaths require a time and cause';
+END;
+$$;
+
+DO $$
+BEGIN
+    INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                     template_id, appointment_date, appointment_time)
+    SELECT 'Admitted Patient', 'T-0002', 'Clinical Neurology', 'Regular', id, CURRENT_DATE + 7, '09:15'
+    FROM clinic_templates WHERE name = 'T-Clinic';
+    RAISE EXCEPTION 'FAILED: a full clinic slot was booked twice';
+EXCEPTION WHEN unique_violation THEN
+    RAISE NOTICE 'ok - a full clinic slot cannot be booked again';
+END;
+$$;
+
+DO $$
+BEGIN
+    INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                     template_id, appointment_date, appointment_time)
+    SELECT 'Admitted Patient', 'T-0002', 'Clinical Neurology', 'Regular', id, CURRENT_DATE + 7, '09:10'
+    FROM clinic_templates WHERE name = 'T-Clinic';
+    RAISE EXCEPTION 'FAILED: an appointment was booked between slots';
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'FAILED:%' THEN
+        RAISE;
+    END IF;
+    RAISE NOTICE 'ok - appointments must start on a slot';
+END;
+$$;
+
+DO $$
+BEGIN
+    INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                     template_id, appointment_date, appointment_time)
+    SELECT 'Admitted Patient', 'T-0002', 'Clinical Neurology', 'Regular', id, CURRENT_DATE - 7, '09:00'
+    FROM clinic_templates WHERE name = 'T-Clinic';
+    RAISE EXCEPTION 'FAILED: an appointment was booked into last week''s clinic';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - past slots cannot be booked';
+END;
+$$;
+
+-- A session that started at midnight today; the template is rolled back with the block
+DO $$
+BEGIN
+    INSERT INTO clinic_templates (specialty, name, weekday, start_time, end_time, slot_minutes)
+    VALUES ('Clinical Neurology', 'T-Midnight', EXTRACT(DOW FROM hospital_now()), '00:00', '00:15', 15);
+
+    INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                     template_id, appointment_date, appointment_time)
+    SELECT 'Admitted Patient', 'T-0002', 'Clinical Neurology', 'Regular', id, hospital_now()::DATE, '00:00'
+    FROM clinic_templates WHERE name = 'T-Midnight';
+    RAISE EXCEPTION 'FAILED: an appointment was booked into a slot earlier today';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - slots earlier today cannot be booked';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE clinic_appointments SET status = 'arrived' WHERE appointment_date = CURRENT_DATE + 7 AND status = 'confirmed';
+    RAISE EXCEPTION 'FAILED: a patient arrived for next week''s appointment';
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'FAILED:%' THEN
+        RAISE;
+    END IF;
+    RAISE NOTICE 'ok - attendance waits for the appointment day';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE clinic_appointments SET status = 'cancelled' WHERE appointment_type = 'Urgent';
+    RAISE EXCEPTION 'FAILED: an appointment was cancelled without a reason';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - cancelling needs a reason';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE clinic_appointments SET appointment_date = appointment_date + 7 WHERE status = 'no_show';
+    RAISE EXCEPTION 'FAILED: a missed appointment was rescheduled';
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'FAILED:%' THEN
+        RAISE;
+    END IF;
+    RAISE NOTICE 'ok - only upcoming appointments can be rescheduled';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE clinic_appointments SET status = 'booked' WHERE status = 'cancelled';
+    RAISE EXCEPTION 'FAILED: a cancelled appointment was reopened';
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'FAILED:%' THEN
+        RAISE;
+    END IF;
+    RAISE NOTICE 'ok - cancelled appointments stay cancelled';
+END;
+$$;
+
+DO $$
+BEGIN
+    INSERT INTO clinic_appointments (patient_name, patient_medical_number, clinic_specialty, appointment_type,
+                                     template_id, appointment_date, appointment_time, admission_id)
+    SELECT 'Admitted Patient', 'T-0002', 'Clinical Neurology', 'Regular', t.id, CURRENT_DATE + 14, '09:00', p.id
+    FROM clinic_templates t, patients p WHERE t.name = 'T-Clinic' AND p.mrn = 'T-0001' LIMIT 1;
+    RAISE EXCEPTION 'FAILED: a follow-up was linked to another patient''s admission';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - follow-ups link only to the same patient''s admission';
+END;
+$$;
+
+DO $$
+BEGIN
+    INSERT INTO waiting_list_entries (mrn, patient_name, specialty, referral_date, priority)
+    VALUES ('T-0001', 'Seed Patient', 'Hematology', CURRENT_DATE + 1, 'routine');
+    RAISE EXCEPTION 'FAILED: a referral was dated in the future';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - referrals cannot be dated in the future';
+END;
+$$;
+
+-- The template is rolled back with the block
+DO $$
+BEGIN
+    INSERT INTO clinic_templates (specialty, name, weekday, start_time, end_time, slot_minutes)
+    VALUES ('Hematology', 'T-Hematology', EXTRACT(DOW FROM CURRENT_DATE + 7), '09:00', '10:00', 15);
+
+    PERFORM book_from_waiting_list(w.id, t.id, CURRENT_DATE + 7, '09:00')
+    FROM waiting_list_entries w, clinic_templates t
+    WHERE w.mrn = 'T-0001' AND w.status = 'waiting' AND t.name = 'T-Hematology';
+    RAISE EXCEPTION 'FAILED: a neurology referral was booked into a hematology clinic';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - referrals are booked only into their own specialty''s clinics';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE waiting_list_entries SET priority = 'routine' WHERE status = 'booked';
+    RAISE EXCEPTION 'FAILED: a booked referral was changed';
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'FAILED:%' THEN
+        RAISE;
+    END IF;
+    RAISE NOTICE 'ok - referrals that left the waiting list are final';
+END;
+$$;
+
+DO $$
+BEGIN
+    UPDATE waiting_list_entries SET status = 'removed' WHERE status = 'waiting';
+    RAISE EXCEPTION 'FAILED: a referral was removed without a reason';
+EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'ok - removing a referral needs a reason';
+END;
+$$;
+
+DO $$
+BEGIN
+    DELETE FROM audit_log;
+    RAISE EXCEPTION 'FAILED: audit entries were deleted by the owner';
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'FAILED:%' THEN
+        RAISE;
+    END IF;
+    RAISE NOTICE 'ok - audit entries cannot be deleted even by the owner';
+END;
+$$;
+
+ROLLBACK;